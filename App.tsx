@@ -1,32 +1,54 @@
 
 import React, { useState, useEffect, useCallback, useMemo, useRef, lazy, Suspense } from 'react';
-import type { FileNode, Explanation, ExplanationBlock, HistoryEntry, SerializedExplanations } from './types';
+import type { FileNode, Explanation, ExplanationBlock, ChatMessage, HistoryEntry, SerializedExplanations, CustomLevel, FileReview, TestSuggestion, Quiz, QuizAttempt, Glossary, GlossaryTerm, QueuePriority } from './types';
 import WelcomeScreen from './components/WelcomeScreen';
 import type { ProcessingStatus } from './components/FileExplorer';
-import { explainFileInBulk, explainSnippetStream, generateProjectSummary, generateAllSummariesStream, type ExplanationLevel } from './services/geminiService';
+import { explainFileInBulk, explainDiffInBulk, explainLinesStream, explainSnippetStream, followUpStream, reviewFileStream, suggestTestsStream, generateQuizStream, generateGlossaryStream, answerProjectQuestionStream, generateProjectSummary, generateAllSummariesStream, estimateProcessAll, type ExplanationLevel, type ChunkProgress, type RetryInfo } from './services/geminiService';
 import SpinnerIcon from './components/icons/SpinnerIcon';
 import LoginScreen from './components/LoginScreen';
+import CostEstimateDialog from './components/CostEstimateDialog';
+import ModelSettingsDialog from './components/ModelSettingsDialog';
+import LevelEditorDialog from './components/LevelEditorDialog';
 import { getAssetPath } from './utils/paths';
 import { loadHistoryFromGist, saveHistoryToGist, loadHistoryFromLocalStorage, saveHistoryToLocalStorage } from './services/gistService';
+import { approximateSummaryTokens, loadSummaryTokenLimit, saveSummaryTokenLimit, type ProcessAllEstimate } from './utils/costEstimate';
+import { loadModelSettings, saveModelSettings, resolveTaskConfig, getExplainSetting, type ModelSettings } from './utils/modelSettings';
+import { explanationKey, loadOutputLanguage, saveOutputLanguage, OUTPUT_LANGUAGES } from './utils/outputLanguage';
+import { buildProjectContext } from './utils/projectSearch';
+import { buildContextPack } from './utils/contextPack';
+import { analyzeCoverage, gapInsertionIndex } from './utils/coverage';
+import { detectTestFramework } from './utils/testFrameworks';
+import { annotateProject } from './utils/annotatedSource';
+import { createZip } from './utils/zip';
+import { parseQuizAttempts } from './utils/quizProgress';
+import { buildImportGraph, orderByDependencies, prioritizeImports } from './utils/importGraph';
+import { buildGlossaryMaterial, findTermUsages, glossaryToMarkdown, parseGlossary } from './utils/glossary';
+import { downloadBlob } from './utils/download';
+import { locateBlocks, type LineRange } from './utils/blockLocation';
+import { getLevelOptions, loadCustomLevels, saveCustomLevels, mergeCustomLevels, parseCustomLevels } from './utils/explanationLevels';
+import { loadProviderConfig, saveProviderConfig, clearProviderConfig, defaultProviderConfig, type ProviderConfig } from './services/providers';
 
 // Lazy load heavy components with large dependencies
 const FileExplorer = lazy(() => import('./components/FileExplorer'));
 const CodeExplainerView = lazy(() => import('./components/CodeExplainerView'));
+const ProjectChatPanel = lazy(() => import('./components/ProjectChatPanel'));
+const GlossaryPanel = lazy(() => import('./components/GlossaryPanel'));
+const ImportGraphDialog = lazy(() => import('./components/ImportGraphDialog'));
 
-type ExplanationsCache = Map<string, Map<ExplanationLevel, Explanation>>;
-
-const LEVELS: ExplanationLevel[] = ['beginner', 'intermediate', 'expert'];
+// path -> explanationKey(level, language) -> explanation
+type ExplanationsCache = Map<string, Map<string, Explanation>>;
 
 const serializeExplanations = (cache: ExplanationsCache): SerializedExplanations => {
     const out: SerializedExplanations = {};
     for (const [path, levelMap] of cache) {
-        out[path] = Object.fromEntries(levelMap) as Partial<Record<ExplanationLevel, Explanation>>;
+        out[path] = Object.fromEntries(levelMap);
     }
     return out;
 };
 
 // Entries written before the nested Map was serialized properly, or hand-edited
-// gists, can contain anything. Skip whatever does not fit the shape.
+// gists, can contain anything. Skip whatever does not fit the shape. Any level
+// key is kept, so explanations for custom levels survive the round trip.
 const deserializeExplanations = (raw: unknown): ExplanationsCache => {
     const cache: ExplanationsCache = new Map();
     if (!raw || typeof raw !== 'object') return cache;
@@ -34,8 +56,7 @@ const deserializeExplanations = (raw: unknown): ExplanationsCache => {
     for (const [path, levels] of Object.entries(raw as Record<string, unknown>)) {
         if (!levels || typeof levels !== 'object') continue;
         const levelMap = new Map<ExplanationLevel, Explanation>();
-        for (const level of LEVELS) {
-            const entry = (levels as Record<string, unknown>)[level];
+        for (const [level, entry] of Object.entries(levels as Record<string, unknown>)) {
             if (entry && typeof entry === 'object' && Array.isArray((entry as Explanation).blocks)) {
                 levelMap.set(level, entry as Explanation);
             }
@@ -57,25 +78,50 @@ const getAllFiles = (node: FileNode, files: FileNode[] = []): FileNode[] => {
     return files;
 };
 
-// Create a simple hash for code blocks to detect duplicates
-const createBlockHash = (codeBlock: string): string => {
-    // Normalize the code block by removing extra whitespace and trimming
-    const normalized = codeBlock.trim().replace(/\s+/g, ' ');
-    // Create a simple hash (this could be improved with a proper hash function)
+// Cancelled explanations stay viewable but still count as work left to do.
+const hasCompleteExplanation = (cache: ExplanationsCache, path: string, key: string): boolean => {
+    const explanation = cache.get(path)?.get(key);
+    return !!explanation && !explanation.incomplete;
+};
+
+// Abort reason used when the whole project goes away (logout, new upload,
+// history switch). Requests aborted with it write nothing back, since the
+// state they would update now belongs to a different project.
+const PROJECT_RESET = 'project-reset';
+
+const withoutKey = <K, V>(map: Map<K, V>, key: K): Map<K, V> => {
+    if (!map.has(key)) return map;
+    const next = new Map(map);
+    next.delete(key);
+    return next;
+};
+
+// Create a simple hash (this could be improved with a proper hash function)
+const hashString = (text: string): string => {
     let hash = 0;
-    for (let i = 0; i < normalized.length; i++) {
-        const char = normalized.charCodeAt(i);
+    for (let i = 0; i < text.length; i++) {
+        const char = text.charCodeAt(i);
         hash = ((hash << 5) - hash) + char;
         hash = hash & hash; // Convert to 32-bit integer
     }
     return hash.toString(36);
 };
 
+// Create a simple hash for code blocks to detect duplicates
+const createBlockHash = (codeBlock: string): string =>
+    // Normalize the code block by removing extra whitespace and trimming
+    hashString(codeBlock.trim().replace(/\s+/g, ' '));
+
+// Identifies a project by its files' paths and contents, so the same upload is
+// recognised whatever has been generated for it since.
+const createProjectHash = (root: FileNode): string =>
+    hashString(getAllFiles(root).map(file => `${file.path}:${file.content?.length}:${hashString(file.content ?? '')}`).join('\n'));
+
 // Utility function for handling API errors consistently
-const handleApiError = (error: unknown, apiKey: string | null, setApiKey: (key: string | null) => void): string => {
+const handleApiError = (error: unknown, providerConfig: ProviderConfig | null, setProviderConfig: (config: ProviderConfig | null) => void): string => {
     if (!(error instanceof Error)) return 'An unexpected error occurred.';
     
-    const isEnvKey = !!process.env.API_KEY && apiKey === process.env.API_KEY;
+    const isEnvKey = !!process.env.API_KEY && providerConfig?.apiKey === process.env.API_KEY;
     
     if (error.message.includes('API key not valid') || error.message.includes('API key is invalid')) {
         const errorMessage = isEnvKey
@@ -83,8 +129,8 @@ const handleApiError = (error: unknown, apiKey: string | null, setApiKey: (key:
             : 'The provided API Key is invalid. Please enter a valid key.';
         
         if (!isEnvKey) {
-            localStorage.removeItem('gemini_api_key');
-            setApiKey(null);
+            clearProviderConfig();
+            setProviderConfig(null);
         }
         return errorMessage;
     }
@@ -96,37 +142,127 @@ const handleApiError = (error: unknown, apiKey: string | null, setApiKey: (key:
     return 'An error occurred while communicating with the API.';
 };
 
+export interface FileFailure {
+    key: string; // explanationKey of the attempt that failed
+    message: string;
+}
+
 interface DeepDiveStatus {
     file: string | null;
     blockIndex: number | null;
     isLoading: boolean;
 }
 
-export type SummaryStatus = 'summarizing' | 'done';
+// Same shape as DeepDiveStatus: one follow-up reply streams at a time.
+type FollowUpStatus = DeepDiveStatus;
+
+// Lines the user asked to have explained. `error` stays after a failed
+// request so the view can show it next to the range.
+export interface LineRequestStatus {
+    file: string | null;
+    range: LineRange | null;
+    isLoading: boolean;
+    error?: string;
+}
+
+const IDLE_LINE_REQUEST: LineRequestStatus = { file: null, range: null, isLoading: false };
+
+// Reviews run one file at a time. `remaining` counts the current file.
+export interface ReviewStatus {
+    file: string | null;
+    remaining: number;
+    chunk: ChunkProgress | null;
+}
+
+// One test suggestion runs at a time, for one file at one explanation key.
+interface TestSuggestionStatus {
+    file: string | null;
+    key: string | null;
+    isLoading: boolean;
+    error?: string;
+}
+
+const IDLE_TEST_SUGGESTION: TestSuggestionStatus = { file: null, key: null, isLoading: false };
+
+// Same shape as TestSuggestionStatus: one quiz is written at a time.
+type QuizStatus = TestSuggestionStatus;
+
+const IDLE_QUIZ: QuizStatus = IDLE_TEST_SUGGESTION;
+
+interface GlossaryStatus {
+    isLoading: boolean;
+    error?: string;
+}
+
+const IDLE_GLOSSARY: GlossaryStatus = { isLoading: false };
+
+// Stable, so the view's linked-text cache survives renders without a glossary.
+const NO_GLOSSARY_TERMS: GlossaryTerm[] = [];
+
+const IDLE_REVIEW: ReviewStatus = { file: null, remaining: 0, chunk: null };
+
+// Same tolerance as deserializeExplanations: skip anything without a findings list.
+const deserializeReviews = (raw: unknown): Map<string, FileReview> => new Map(
+    Object.entries(raw && typeof raw === 'object' ? raw as Record<string, FileReview> : {})
+        .filter(([, review]) => review && typeof review === 'object' && Array.isArray(review.findings))
+);
+
+export type SummaryStatus = 'summarizing' | 'done' | 'error';
 
 const App: React.FC = () => {
   const [fileTree, setFileTree] = useState<FileNode | null>(null);
-  const [apiKey, setApiKey] = useState<string | null>(() => {
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig | null>(() => {
     // Check localStorage first (from manual entry or Firebase auth)
-    const savedKey = localStorage.getItem('gemini_api_key');
-    if (savedKey) {
-        return savedKey;
+    const savedConfig = loadProviderConfig();
+    if (savedConfig) {
+        return savedConfig;
     }
     // Then check for env variable (for local dev with GEMINI_API_KEY set)
     // Only use this in development, not in production builds
     if (import.meta.env.DEV && process.env.API_KEY) {
-        return process.env.API_KEY;
+        return defaultProviderConfig('gemini', process.env.API_KEY);
     }
     // Otherwise require Firebase authentication
     return null;
   });
   const [authError, setAuthError] = useState<string | null>(null);
+  // Model and temperature per task, kept separately for each provider kind
+  const [modelSettings, setModelSettings] = useState<ModelSettings>(() => loadModelSettings(providerConfig?.kind ?? 'gemini'));
+  const [isModelSettingsOpen, setIsModelSettingsOpen] = useState<boolean>(false);
   const [selectedFile, setSelectedFile] = useState<FileNode | null>(null);
   const [explanationsCache, setExplanationsCache] = useState<ExplanationsCache>(new Map());
   const [processingStatus, setProcessingStatus] = useState<Map<string, ProcessingStatus>>(new Map());
   const [processingQueue, setProcessingQueue] = useState<FileNode[]>([]);
+  // Queue files after the files they import instead of in tree order
+  const [queueDependencyOrder, setQueueDependencyOrder] = useState<boolean>(() => localStorage.getItem('queue_dependency_order') === 'true');
+  // Which part of an oversized file is being explained right now
+  const [chunkProgress, setChunkProgress] = useState<Map<string, ChunkProgress>>(new Map());
+  // Seconds a file is currently backing off for after a quota or transient error
+  const [retryWaits, setRetryWaits] = useState<Map<string, number>>(new Map());
+  // Files that ran out of retries. Nothing is cached for them, so they can be retried.
+  const [failedFiles, setFailedFiles] = useState<Map<string, FileFailure>>(new Map());
   const [isAppLoading, setIsAppLoading] = useState<boolean>(false);
   const [deepDiveStatus, setDeepDiveStatus] = useState<DeepDiveStatus>({ file: null, blockIndex: null, isLoading: false });
+  const [lineRequestStatus, setLineRequestStatus] = useState<LineRequestStatus>(IDLE_LINE_REQUEST);
+  const [testStatus, setTestStatus] = useState<TestSuggestionStatus>(IDLE_TEST_SUGGESTION);
+  const [reviews, setReviews] = useState<Map<string, FileReview>>(new Map());
+  const [reviewStatus, setReviewStatus] = useState<ReviewStatus>(IDLE_REVIEW);
+  const [reviewFailures, setReviewFailures] = useState<Map<string, string>>(new Map());
+  const [quizStatus, setQuizStatus] = useState<QuizStatus>(IDLE_QUIZ);
+  // Every scored quiz run in this project, oldest first.
+  const [quizResults, setQuizResults] = useState<QuizAttempt[]>([]);
+  const [glossary, setGlossary] = useState<Glossary | null>(null);
+  const [glossaryStatus, setGlossaryStatus] = useState<GlossaryStatus>(IDLE_GLOSSARY);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [isImportGraphOpen, setIsImportGraphOpen] = useState(false);
+  const [followUpStatus, setFollowUpStatus] = useState<FollowUpStatus>({ file: null, blockIndex: null, isLoading: false });
+  const [isProjectChatOpen, setIsProjectChatOpen] = useState(false);
+  const [projectChat, setProjectChat] = useState<ChatMessage[]>([]);
+  const [isProjectChatLoading, setIsProjectChatLoading] = useState(false);
+  // Lines to highlight in the selected file after following a citation.
+  const [highlightRange, setHighlightRange] = useState<LineRange | null>(null);
+  // Set when a follow-up thread changed, so the open history entry gets rewritten.
+  const [isHistorySyncPending, setIsHistorySyncPending] = useState(false);
 
   // Global cache for code block explanations to avoid duplicates
   const [globalBlockCache, setGlobalBlockCache] = useState<Map<string, string>>(new Map());
@@ -136,6 +272,14 @@ const App: React.FC = () => {
   const [projectSummary, setProjectSummary] = useState<string>('');
   const [summaryStatus, setSummaryStatus] = useState<Map<string, SummaryStatus>>(new Map());
   const [isProjectSummaryLoading, setIsProjectSummaryLoading] = useState<boolean>(false);
+  // Set when a project was too big to summarize without asking first
+  const [deferredSummaryTokens, setDeferredSummaryTokens] = useState<number | null>(null);
+  const [areSummariesCancelled, setAreSummariesCancelled] = useState<boolean>(false);
+  const [summaryTokenLimit, setSummaryTokenLimit] = useState<number>(loadSummaryTokenLimit);
+
+  // Pre-flight estimate shown before Process All queues anything
+  const [pendingProcessAll, setPendingProcessAll] = useState<{ files: FileNode[]; estimate: ProcessAllEstimate } | null>(null);
+  const [isEstimating, setIsEstimating] = useState<boolean>(false);
 
   // History state
   const [history, setHistory] = useState<HistoryEntry[]>([]);
@@ -143,10 +287,12 @@ const App: React.FC = () => {
   const [githubToken, setGithubToken] = useState<string | null>(() => localStorage.getItem('github_token'));
 
   // Explanation level preference
-  const [explanationLevel, setExplanationLevel] = useState<ExplanationLevel>(() => {
-    const saved = localStorage.getItem('explanation_level');
-    return (saved === 'beginner' || saved === 'expert') ? saved : 'intermediate';
-  });
+  const [explanationLevel, setExplanationLevel] = useState<ExplanationLevel>(() => localStorage.getItem('explanation_level') || 'intermediate');
+  const [outputLanguage, setOutputLanguage] = useState<string>(loadOutputLanguage);
+  const currentKey = explanationKey(explanationLevel, outputLanguage);
+  const [customLevels, setCustomLevels] = useState<CustomLevel[]>(loadCustomLevels);
+  const [isLevelEditorOpen, setIsLevelEditorOpen] = useState<boolean>(false);
+  const levelOptions = useMemo(() => getLevelOptions(customLevels), [customLevels]);
 
   // Ref to track the last saved project to prevent duplicate saves
   const lastSavedProjectRef = useRef<string | null>(null);
@@ -159,15 +305,37 @@ const App: React.FC = () => {
   const globalBlockCacheRef = useRef(globalBlockCache);
   const dispatchedFilesRef = useRef<Set<string>>(new Set());
 
+  // One controller per in-flight request, so each can be stopped on its own
+  const explainControllersRef = useRef<Map<string, AbortController>>(new Map());
+  const deepDiveControllerRef = useRef<AbortController | null>(null);
+  const followUpControllerRef = useRef<AbortController | null>(null);
+  const lineRequestControllerRef = useRef<AbortController | null>(null);
+  const reviewControllerRef = useRef<AbortController | null>(null);
+  const testControllerRef = useRef<AbortController | null>(null);
+  const quizControllerRef = useRef<AbortController | null>(null);
+  const glossaryControllerRef = useRef<AbortController | null>(null);
+  const projectChatControllerRef = useRef<AbortController | null>(null);
+  const summaryControllerRef = useRef<AbortController | null>(null);
+
   useEffect(() => { explanationsCacheRef.current = explanationsCache; }, [explanationsCache]);
   useEffect(() => { processingStatusRef.current = processingStatus; }, [processingStatus]);
   useEffect(() => { globalBlockCacheRef.current = globalBlockCache; }, [globalBlockCache]);
 
+  // Which project files import which, from a local pass over the sources.
+  const importGraph = useMemo(() => fileTree ? buildImportGraph(getAllFiles(fileTree)) : null, [fileTree]);
+
+  const queuePriority = useMemo(() => {
+    const priority = new Map<string, QueuePriority>();
+    if (!queueDependencyOrder || !importGraph || !selectedFile) return priority;
+    for (const path of importGraph.imports.get(selectedFile.path) ?? []) priority.set(path, 'import');
+    return priority.set(selectedFile.path, 'selected');
+  }, [queueDependencyOrder, importGraph, selectedFile]);
+
   const currentExplanation = useMemo(() => {
     if (!selectedFile) return null;
     const levelMap = explanationsCache.get(selectedFile.path);
-    return levelMap?.get(explanationLevel) ?? null;
-  }, [selectedFile, explanationsCache, explanationLevel]);
+    return levelMap?.get(currentKey) ?? null;
+  }, [selectedFile, explanationsCache, currentKey]);
 
   const isExplanationLoading = useMemo(() => {
       if (!selectedFile) return false;
@@ -179,19 +347,23 @@ const App: React.FC = () => {
   const remainingFilesToProcess = useMemo(() => {
     if (!fileTree) return 0;
     const allFiles = getAllFiles(fileTree);
-    return allFiles.filter(file => {
-      const levelMap = explanationsCache.get(file.path);
-      return !levelMap?.has(explanationLevel);
-    }).length;
-  }, [fileTree, explanationsCache, explanationLevel]);
-
-  const handleApiKeySubmit = (newApiKey: string, newGithubToken?: string) => {
-    localStorage.setItem('gemini_api_key', newApiKey);
+    return allFiles.filter(file => !hasCompleteExplanation(explanationsCache, file.path, currentKey)).length;
+  }, [fileTree, explanationsCache, currentKey]);
+
+  const selectedTestFramework = useMemo(
+    () => selectedFile && fileTree ? detectTestFramework(selectedFile, getAllFiles(fileTree))?.name ?? null : null,
+    [selectedFile, fileTree]
+  );
+
+  const knownPaths = useMemo(() => fileTree ? getAllFiles(fileTree).map(file => file.path) : [], [fileTree]);
+
+  const handleProviderSubmit = (newConfig: ProviderConfig, newGithubToken?: string) => {
+    saveProviderConfig(newConfig);
     if (newGithubToken) {
       localStorage.setItem('github_token', newGithubToken);
       setGithubToken(newGithubToken);
     }
-    setApiKey(newApiKey);
+    setProviderConfig(newConfig);
     setAuthError(null);
   };
 
@@ -209,20 +381,104 @@ const App: React.FC = () => {
     localStorage.setItem('explanation_level', explanationLevel);
   }, [explanationLevel]);
 
+  useEffect(() => {
+    saveOutputLanguage(outputLanguage);
+  }, [outputLanguage]);
+
+  useEffect(() => {
+    saveCustomLevels(customLevels);
+  }, [customLevels]);
+
+  // A saved or selected custom level may have been deleted since.
+  useEffect(() => {
+    if (!levelOptions.some(option => option.id === explanationLevel)) {
+      setExplanationLevel('intermediate');
+    }
+  }, [levelOptions, explanationLevel]);
+
+  // Built-in levels go to the service by id, custom ones with their template.
+  const getLevelPrompt = useCallback((level: ExplanationLevel) =>
+    customLevels.find(custom => custom.id === level) ?? level, [customLevels]);
+
+  useEffect(() => {
+    saveSummaryTokenLimit(summaryTokenLimit);
+  }, [summaryTokenLimit]);
+
+  const providerKind = providerConfig?.kind;
+  useEffect(() => {
+    if (providerKind) setModelSettings(loadModelSettings(providerKind));
+  }, [providerKind]);
+
+  const handleSaveModelSettings = (settings: ModelSettings) => {
+    if (providerConfig) saveModelSettings(providerConfig.kind, settings);
+    setModelSettings(settings);
+    setIsModelSettingsOpen(false);
+  };
+
+  // Stops every request and clears the progress state they were driving.
+  const abortAllRequests = useCallback(() => {
+    explainControllersRef.current.forEach(controller => controller.abort(PROJECT_RESET));
+    explainControllersRef.current.clear();
+    deepDiveControllerRef.current?.abort(PROJECT_RESET);
+    deepDiveControllerRef.current = null;
+    followUpControllerRef.current?.abort(PROJECT_RESET);
+    followUpControllerRef.current = null;
+    lineRequestControllerRef.current?.abort(PROJECT_RESET);
+    lineRequestControllerRef.current = null;
+    reviewControllerRef.current?.abort(PROJECT_RESET);
+    reviewControllerRef.current = null;
+    testControllerRef.current?.abort(PROJECT_RESET);
+    testControllerRef.current = null;
+    quizControllerRef.current?.abort(PROJECT_RESET);
+    quizControllerRef.current = null;
+    glossaryControllerRef.current?.abort(PROJECT_RESET);
+    glossaryControllerRef.current = null;
+    projectChatControllerRef.current?.abort(PROJECT_RESET);
+    projectChatControllerRef.current = null;
+    summaryControllerRef.current?.abort(PROJECT_RESET);
+    summaryControllerRef.current = null;
+
+    setProcessingQueue([]);
+    setChunkProgress(new Map());
+    setRetryWaits(new Map());
+    setDeepDiveStatus({ file: null, blockIndex: null, isLoading: false });
+    setFollowUpStatus({ file: null, blockIndex: null, isLoading: false });
+    setLineRequestStatus(IDLE_LINE_REQUEST);
+    setReviewStatus(IDLE_REVIEW);
+    setTestStatus(IDLE_TEST_SUGGESTION);
+    setQuizStatus(IDLE_QUIZ);
+    setGlossaryStatus(IDLE_GLOSSARY);
+    setIsHistorySyncPending(false);
+    setIsProjectChatLoading(false);
+    // The project chat is about the project being left behind.
+    setProjectChat([]);
+    setHighlightRange(null);
+    setIsProjectSummaryLoading(false);
+    setAreSummariesCancelled(false);
+  }, []);
+
   const handleLogout = () => {
-    localStorage.removeItem('gemini_api_key');
+    abortAllRequests();
+    clearProviderConfig();
     localStorage.removeItem('github_token');
-    setApiKey(null);
+    setProviderConfig(null);
     setGithubToken(null);
     setFileTree(null);
     setSelectedFile(null);
     setExplanationsCache(new Map());
     setProcessingStatus(new Map());
     setProcessingQueue([]);
+    setFailedFiles(new Map());
+    setReviews(new Map());
+    setReviewFailures(new Map());
+    setQuizResults([]);
+    setGlossary(null);
     setGlobalBlockCache(new Map());
     setFileSummaries(new Map());
     setProjectSummary('');
     setSummaryStatus(new Map());
+    setDeferredSummaryTokens(null);
+    setPendingProcessAll(null);
     setHistory([]);
     setActiveHistoryId(null);
     lastSavedProjectRef.current = null;
@@ -254,10 +510,10 @@ const App: React.FC = () => {
       }
     };
 
-    if (apiKey) {
+    if (providerConfig) {
       loadHistory();
     }
-  }, [apiKey, githubToken]);
+  }, [providerConfig, githubToken]);
 
   // Save current state to history
   const saveToHistory = useCallback(async () => {
@@ -267,11 +523,12 @@ const App: React.FC = () => {
       ? fileTree.children[0].name
       : fileTree.name;
 
-    // Create a unique identifier for this project state
-    const projectIdentifier = `${projectName}-${explanationsCache.size}-${fileSummaries.size}-${projectSummary.slice(0, 50)}`;
+    const projectIdentifier = createProjectHash(fileTree);
 
-    // Check if we've already saved this exact state
-    if (lastSavedProjectRef.current === projectIdentifier) {
+    // This project already has an entry: bring it up to date instead of adding
+    // another. After the history is cleared it gets a new one.
+    if (lastSavedProjectRef.current === projectIdentifier && activeHistoryId) {
+      setIsHistorySyncPending(true);
       return;
     }
 
@@ -283,6 +540,11 @@ const App: React.FC = () => {
       explanationsCache: serializeExplanations(explanationsCache),
       fileSummaries: Object.fromEntries(fileSummaries),
       projectSummary,
+      customLevels,
+      language: outputLanguage,
+      reviews: Object.fromEntries(reviews),
+      quizResults,
+      glossary: glossary ?? undefined,
     };
 
     setHistory(prev => {
@@ -303,18 +565,31 @@ const App: React.FC = () => {
 
     setActiveHistoryId(newEntry.id);
 
-    // Mark this project state as saved
+    // Mark this project as saved
     lastSavedProjectRef.current = projectIdentifier;
-  }, [fileTree, explanationsCache, fileSummaries, projectSummary, githubToken]);
+  }, [fileTree, activeHistoryId, explanationsCache, fileSummaries, projectSummary, customLevels, outputLanguage, reviews, quizResults, glossary, githubToken]);
 
   // Load history entry
   const handleSelectHistory = useCallback((entry: HistoryEntry) => {
+    abortAllRequests();
     const restored = deserializeExplanations(entry.explanationsCache);
     setFileTree(entry.fileTree);
     setExplanationsCache(restored);
     setFileSummaries(new Map(Object.entries(entry.fileSummaries ?? {})));
     setProjectSummary(entry.projectSummary);
+    setReviews(deserializeReviews(entry.reviews));
+    setReviewFailures(new Map());
+    setQuizResults(parseQuizAttempts(entry.quizResults));
+    setGlossary(parseGlossary(entry.glossary));
+    setCustomLevels(prev => mergeCustomLevels(prev, parseCustomLevels(entry.customLevels)));
+    // Show the restored project in the language its summaries were written in.
+    if (entry.language && OUTPUT_LANGUAGES.includes(entry.language)) {
+      setOutputLanguage(entry.language);
+    }
+    setDeferredSummaryTokens(null);
     setActiveHistoryId(entry.id);
+    // Later saves of the restored project update this entry.
+    lastSavedProjectRef.current = createProjectHash(entry.fileTree);
     setSelectedFile(null);
 
     // Mark all files as 'done' in processing status
@@ -326,7 +601,8 @@ const App: React.FC = () => {
       }
     });
     setProcessingStatus(newProcessingStatus);
-  }, []);
+    setFailedFiles(new Map());
+  }, [abortAllRequests]);
 
   // Clear history
   const handleClearHistory = useCallback(async () => {
@@ -344,8 +620,14 @@ const App: React.FC = () => {
   }, [githubToken]);
 
   const generateSummaries = useCallback(async (files: FileNode[]) => {
-      if (files.length === 0 || !apiKey) return;
+      if (files.length === 0 || !providerConfig) return;
       
+      const controller = new AbortController();
+      summaryControllerRef.current?.abort(PROJECT_RESET);
+      summaryControllerRef.current = controller;
+
+      setDeferredSummaryTokens(null);
+      setAreSummariesCancelled(false);
       setIsProjectSummaryLoading(true);
       
       const statuses = new Map<string, SummaryStatus>(files.map(f => [f.path, 'summarizing' as SummaryStatus]));
@@ -360,45 +642,76 @@ const App: React.FC = () => {
 
           const newSummaries = new Map<string, string>();
 
-          // Stream summaries as they come in
-          let projectSummaryReceived = false;
-          for await (const result of generateAllSummariesStream(filesWithContent, apiKey)) {
+          // Batches finish in any order; each one's summaries show up as it does.
+          const summaryConfig = resolveTaskConfig(providerConfig, modelSettings.fileSummaries);
+          const summaryOptions = {
+              temperature: modelSettings.fileSummaries.temperature ?? undefined,
+              language: outputLanguage,
+              signal: controller.signal,
+          };
+          for await (const result of generateAllSummariesStream(filesWithContent, summaryConfig, summaryOptions)) {
               if (result.type === 'file_summary') {
-                  newSummaries.set(result.path, result.summary);
-                  statuses.set(result.path, 'done');
+                  newSummaries.set(result.path, result.error ?? result.summary);
+                  statuses.set(result.path, result.error ? 'error' : 'done');
 
                   setFileSummaries(new Map(newSummaries));
                   setSummaryStatus(new Map(statuses));
-              } else if (result.type === 'project_summary') {
-                  setProjectSummary(result.summary);
-                  projectSummaryReceived = true;
-              } else if (result.type === 'error') {
-                  throw new Error(result.message);
+              } else if (result.type === 'invalid') {
+                  console.warn('Skipped invalid summary entry:', result.message);
               }
           }
           
-          // If no project summary was received, generate a fallback one
-          if (!projectSummaryReceived && newSummaries.size > 0) {
+          // Files the model skipped entirely would otherwise spin forever.
+          files.forEach(f => {
+              if (statuses.get(f.path) === 'summarizing') {
+                  newSummaries.set(f.path, 'The model returned no summary for this file.');
+                  statuses.set(f.path, 'error');
+              }
+          });
+          setFileSummaries(new Map(newSummaries));
+          setSummaryStatus(new Map(statuses));
+
+          // Built from the file summaries, through directory summaries when
+          // there are too many for one request.
+          const summarized = Array.from(newSummaries.entries())
+              .filter(([path]) => statuses.get(path) === 'done')
+              .map(([path, summary]) => ({ path, summary }));
+          if (summarized.length > 0) {
               try {
-                  const fallbackSummary = await generateProjectSummary(
-                      Array.from(newSummaries.entries()).map(([path, summary]) => ({path, summary})), 
-                      apiKey
+                  const summary = await generateProjectSummary(
+                      summarized,
+                      resolveTaskConfig(providerConfig, modelSettings.projectSummary),
+                      { temperature: modelSettings.projectSummary.temperature ?? undefined, language: outputLanguage, signal: controller.signal }
                   );
-                  setProjectSummary(fallbackSummary);
-              } catch (fallbackError) {
-                  console.error("Fallback project summary also failed:", fallbackError);
+                  setProjectSummary(summary);
+              } catch (projectSummaryError) {
+                  if (controller.signal.aborted) throw projectSummaryError;
+                  console.error("Project summary failed:", projectSummaryError);
                   setProjectSummary("Unable to generate project summary.");
               }
           }
           
       } catch(error) {
+          if (controller.signal.reason === PROJECT_RESET) return;
+
+          if (controller.signal.aborted) {
+              // Keep the summaries that arrived; the rest go back to unsummarized.
+              files.forEach(f => {
+                  if (statuses.get(f.path) === 'summarizing') statuses.delete(f.path);
+              });
+              setSummaryStatus(new Map(statuses));
+              setAreSummariesCancelled(true);
+              setIsProjectSummaryLoading(false);
+              return;
+          }
+
           console.error("Failed to generate summaries:", error);
           
           // Fallback to error state
           const errorSummaries = new Map<string, string>();
           files.forEach(f => {
               errorSummaries.set(f.path, 'Failed to generate summary.');
-              statuses.set(f.path, 'done');
+              statuses.set(f.path, 'error');
           });
           setFileSummaries(errorSummaries);
           setSummaryStatus(new Map(statuses));
@@ -407,183 +720,338 @@ const App: React.FC = () => {
 
       setIsProjectSummaryLoading(false);
 
-  }, [apiKey]);
+  }, [providerConfig, modelSettings, outputLanguage]);
+
+  const handleCancelSummaries = useCallback(() => {
+      summaryControllerRef.current?.abort();
+  }, []);
   
   const handleProjectReady = useCallback((rootNode: FileNode) => {
+    abortAllRequests();
     setFileTree(rootNode);
     setActiveHistoryId(null); // Reset active history when loading new project
     lastSavedProjectRef.current = null; // Reset saved project ref for new project
     const allFiles = getAllFiles(rootNode);
     if (allFiles.length > 0) {
-      generateSummaries(allFiles);
+      // Summaries are batched, but together they still cost about as many
+      // tokens as the whole project, so past the limit they wait for the user
+      // to ask instead of starting on upload.
+      const summaryTokens = approximateSummaryTokens(allFiles);
+      if (summaryTokens > summaryTokenLimit) {
+        setDeferredSummaryTokens(summaryTokens);
+      } else {
+        generateSummaries(allFiles);
+      }
       if (allFiles.length === 1) {
         setSelectedFile(allFiles[0]);
       }
     }
-  }, [generateSummaries]);
+  }, [abortAllRequests, generateSummaries, summaryTokenLimit]);
+
+  const handleGenerateDeferredSummaries = useCallback(() => {
+    if (!fileTree) return;
+    generateSummaries(getAllFiles(fileTree));
+  }, [fileTree, generateSummaries]);
 
- const fetchAndCacheExplanation = useCallback(async (file: FileNode, level: ExplanationLevel) => {
-    if (explanationsCacheRef.current.get(file.path)?.has(level)) {
+ const fetchAndCacheExplanation = useCallback(async (file: FileNode, level: ExplanationLevel, language: string) => {
+    const key = explanationKey(level, language);
+    if (hasCompleteExplanation(explanationsCacheRef.current, file.path, key)) {
       return;
     }
 
-    if (!file.content || !apiKey || processingStatusRef.current.get(file.path) === 'processing') {
+    if (!file.content || !providerConfig || processingStatusRef.current.get(file.path) === 'processing') {
       return;
     }
 
     processingStatusRef.current = new Map(processingStatusRef.current).set(file.path, 'processing');
     setProcessingStatus(prev => new Map(prev).set(file.path, 'processing'));
+    setFailedFiles(prev => withoutKey(prev, file.path));
+
+    const setting = getExplainSetting(modelSettings, level);
+    const taskConfig = resolveTaskConfig(providerConfig, setting);
+    // A diff's hunks are explained on their own; imports of unified content mean nothing.
+    const contextPack = fileTree && !file.diff
+      ? buildContextPack(file, getAllFiles(fileTree), fileSummaries, path => explanationsCacheRef.current.get(path)?.get(key))
+      : [];
+    // Recorded on every write so the view can show what the request was told.
+    const details = { model: taskConfig.model, language, ...(contextPack.length > 0 ? { context: contextPack } : {}) };
+
     setExplanationsCache(prev => {
       const newCache = new Map(prev);
       const levelMap = new Map(newCache.get(file.path) ?? []);
-      levelMap.set(level, { blocks: [] });
+      levelMap.set(key, { blocks: [], ...details });
       newCache.set(file.path, levelMap);
       return newCache;
     });
 
+    const controller = new AbortController();
+    explainControllersRef.current.set(file.path, controller);
+    const blocks: ExplanationBlock[] = [];
+    let finalStatus: ProcessingStatus = 'done';
+
     try {
-        const stream = explainFileInBulk(file.name, file.content, apiKey, level);
-
-        let buffer = '';
-        const blocks: ExplanationBlock[] = [];
-
-        for await (const chunk of stream) {
-            if (chunk.text) {
-                buffer += chunk.text;
-                const lines = buffer.split('\n');
-                buffer = lines.pop() || ''; // Keep incomplete line in buffer
-                
-                for (const line of lines) {
-                    const trimmedLine = line.trim();
-                    if (trimmedLine && trimmedLine.startsWith('{')) {
-                        try {
-                            const parsed = JSON.parse(trimmedLine);
-                            if (parsed.code_block && parsed.explanation) {
-                                const blockHash = createBlockHash(parsed.code_block);
-                                let explanation = parsed.explanation;
-                                
-                                const cachedExplanation = globalBlockCacheRef.current.get(blockHash);
-                                if (cachedExplanation) {
-                                    explanation = cachedExplanation;
-                                } else {
-                                    globalBlockCacheRef.current = new Map(globalBlockCacheRef.current).set(blockHash, explanation);
-                                    setGlobalBlockCache(globalBlockCacheRef.current);
-                                }
-                                
-                                blocks.push({
-                                    code_block: parsed.code_block,
-                                    explanation: explanation
-                                });
-                                
-                                // Update UI with new block immediately
-                                setExplanationsCache(prev => {
-                                    const newCache = new Map(prev);
-                                    const levelMap = new Map(newCache.get(file.path) ?? []);
-                                    levelMap.set(level, { blocks: [...blocks] });
-                                    newCache.set(file.path, levelMap);
-                                    return newCache;
-                                });
-                            }
-                        } catch (e) {
-                            // Partial line from the stream, wait for the rest.
-                        }
-                    }
+        const requestOptions = {
+            temperature: setting.temperature ?? undefined,
+            language,
+            contextPack,
+            onRetry: (info: RetryInfo) => setRetryWaits(prev => new Map(prev).set(file.path, Math.ceil(info.delayMs / 1000))),
+            signal: controller.signal,
+        };
+        const stream = file.diff
+            ? explainDiffInBulk(file.path, file.diff, file.content, taskConfig, getLevelPrompt(level), requestOptions)
+            : explainFileInBulk(file.name, file.content, taskConfig, getLevelPrompt(level), requestOptions);
+
+        for await (const event of stream) {
+            setRetryWaits(prev => withoutKey(prev, file.path));
+            if (event.type === 'chunk') {
+                setChunkProgress(prev => new Map(prev).set(file.path, event));
+                continue;
+            }
+            let block = event.block;
+
+            // Blocks that failed validation are shown as-is and never enter the shared cache.
+            if (!block.error) {
+                // Reused explanations have to be in the language that was asked for.
+                const blockHash = `${language}:${createBlockHash(block.code_block)}`;
+                const cachedExplanation = globalBlockCacheRef.current.get(blockHash);
+                if (cachedExplanation) {
+                    block = { ...block, explanation: cachedExplanation };
+                } else {
+                    globalBlockCacheRef.current = new Map(globalBlockCacheRef.current).set(blockHash, block.explanation);
+                    setGlobalBlockCache(globalBlockCacheRef.current);
                 }
             }
-        }
 
-        // Process any remaining content in buffer
-        if (buffer.trim() && buffer.trim().startsWith('{')) {
-            try {
-                const parsed = JSON.parse(buffer.trim());
-                if (parsed.code_block && parsed.explanation) {
-                    const blockHash = createBlockHash(parsed.code_block);
-                    let explanation = parsed.explanation;
-                    
-                    const cachedExplanation = globalBlockCacheRef.current.get(blockHash);
-                    if (cachedExplanation) {
-                        explanation = cachedExplanation;
-                    } else {
-                        globalBlockCacheRef.current = new Map(globalBlockCacheRef.current).set(blockHash, explanation);
-                        setGlobalBlockCache(globalBlockCacheRef.current);
-                    }
-                    
-                    blocks.push({
-                        code_block: parsed.code_block,
-                        explanation: explanation
-                    });
-                    
-                    setExplanationsCache(prev => {
-                        const newCache = new Map(prev);
-                        const levelMap = new Map(newCache.get(file.path) ?? []);
-                        levelMap.set(level, { blocks: [...blocks] });
-                        newCache.set(file.path, levelMap);
-                        return newCache;
-                    });
-                }
-            } catch (e) {
-                // Trailing partial line, nothing usable.
+            if (event.gap) {
+                blocks.splice(gapInsertionIndex(file.content, blocks, event.gap), 0, block);
+            } else {
+                blocks.push(block);
             }
+
+            // Update UI with new block immediately
+            setExplanationsCache(prev => {
+                const newCache = new Map(prev);
+                const levelMap = new Map(newCache.get(file.path) ?? []);
+                levelMap.set(key, { blocks: [...blocks], ...details });
+                newCache.set(file.path, levelMap);
+                return newCache;
+            });
         }
 
+        const { percent } = analyzeCoverage(file.content, blocks);
+        setExplanationsCache(prev => {
+            const newCache = new Map(prev);
+            const levelMap = new Map(newCache.get(file.path) ?? []);
+            levelMap.set(key, { blocks: [...blocks], ...details, coverage: percent });
+            newCache.set(file.path, levelMap);
+            return newCache;
+        });
+
     } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep what arrived as an incomplete explanation, or nothing if no block made it.
+        finalStatus = 'idle';
+        if (controller.signal.reason !== PROJECT_RESET) {
+          setExplanationsCache(prev => {
+              const newCache = new Map(prev);
+              const levelMap = new Map(newCache.get(file.path) ?? []);
+              if (blocks.length > 0) levelMap.set(key, { blocks: [...blocks], ...details, incomplete: true });
+              else levelMap.delete(key);
+              if (levelMap.size > 0) newCache.set(file.path, levelMap);
+              else newCache.delete(file.path);
+              return newCache;
+          });
+        }
+        return;
+      }
+
       console.error(`Failed to explain ${file.name}:`, error);
 
       const errorDetails = error instanceof Error ? error.message : String(error);
 
-      const genericMessage = handleApiError(error, apiKey, setApiKey);
+      const genericMessage = handleApiError(error, providerConfig, setProviderConfig);
       const errorMessage = `Failed to analyze file.\n\n**Error:** ${errorDetails}\n\n**Suggestion:** ${genericMessage}`;
 
+      // Drop whatever streamed in so the file counts as unexplained and can be retried.
+      finalStatus = 'failed';
+      setFailedFiles(prev => new Map(prev).set(file.path, { key, message: errorMessage }));
       setExplanationsCache(prev => {
+          const levelMap = prev.get(file.path);
+          if (!levelMap?.has(key)) return prev;
           const newCache = new Map(prev);
-          const levelMap = new Map(newCache.get(file.path) ?? []);
-          const block = { code_block: `// Error for ${file.name}`, explanation: errorMessage };
-          levelMap.set(level, { blocks: [block] });
-          newCache.set(file.path, levelMap);
+          const newLevelMap = withoutKey(levelMap, key);
+          if (newLevelMap.size > 0) newCache.set(file.path, newLevelMap);
+          else newCache.delete(file.path);
           return newCache;
       });
     } finally {
-      processingStatusRef.current = new Map(processingStatusRef.current).set(file.path, 'done');
-      setProcessingStatus(prev => new Map(prev).set(file.path, 'done'));
+      if (explainControllersRef.current.get(file.path) === controller) {
+        explainControllersRef.current.delete(file.path);
+      }
+      if (controller.signal.reason !== PROJECT_RESET) {
+        setChunkProgress(prev => withoutKey(prev, file.path));
+        setRetryWaits(prev => withoutKey(prev, file.path));
+        processingStatusRef.current = new Map(processingStatusRef.current).set(file.path, finalStatus);
+        setProcessingStatus(prev => new Map(prev).set(file.path, finalStatus));
+      }
     }
-  }, [apiKey]);
+  }, [providerConfig, modelSettings, getLevelPrompt, fileTree, fileSummaries]);
+
+  const handleCancelExplanation = useCallback(() => {
+    if (selectedFile) {
+      explainControllersRef.current.get(selectedFile.path)?.abort();
+    }
+  }, [selectedFile]);
 
   const handleSelectFile = useCallback((file: FileNode) => {
     if (file.path !== selectedFile?.path) {
       setSelectedFile(file);
+      setHighlightRange(null);
       // Don't auto-fetch - let user choose the level
     }
   }, [selectedFile]);
 
+  const handleOpenCitation = useCallback((path: string, range: LineRange) => {
+    const file = fileTree ? getAllFiles(fileTree).find(f => f.path === path) : undefined;
+    if (!file) return;
+    setSelectedFile(file);
+    // A fresh object, so following the same citation twice scrolls again.
+    setHighlightRange({ ...range });
+  }, [fileTree]);
+
+  const handleRetryFile = useCallback(() => {
+    if (selectedFile) {
+      fetchAndCacheExplanation(selectedFile, explanationLevel, outputLanguage);
+    }
+  }, [selectedFile, explanationLevel, outputLanguage, fetchAndCacheExplanation]);
+
   const handleLevelChange = useCallback((level: ExplanationLevel) => {
     setExplanationLevel(level);
-    // Trigger analysis if this level doesn't exist yet
-    if (selectedFile) {
-      fetchAndCacheExplanation(selectedFile, level);
+    // Trigger analysis if this level doesn't exist yet. A cancelled, partial
+    // result counts as existing; it is only redone through Regenerate.
+    if (selectedFile && !explanationsCacheRef.current.get(selectedFile.path)?.has(explanationKey(level, outputLanguage))) {
+      fetchAndCacheExplanation(selectedFile, level, outputLanguage);
     }
-  }, [selectedFile, fetchAndCacheExplanation]);
+  }, [selectedFile, outputLanguage, fetchAndCacheExplanation]);
 
-  const handleProcessAll = useCallback(() => {
-    if (!fileTree) return;
-    const allFiles = getAllFiles(fileTree).filter(file => {
-      const levelMap = explanationsCache.get(file.path);
-      return !levelMap?.has(explanationLevel);
+  // Same as switching level: fetch if this file has nothing in the new language yet.
+  const handleLanguageChange = useCallback((language: string) => {
+    setOutputLanguage(language);
+    if (selectedFile && !explanationsCacheRef.current.get(selectedFile.path)?.has(explanationKey(explanationLevel, language))) {
+      fetchAndCacheExplanation(selectedFile, explanationLevel, language);
+    }
+  }, [selectedFile, explanationLevel, fetchAndCacheExplanation]);
+
+  // Dependency order puts leaf files first, so each file is explained after
+  // the files it imports and its context pack can draw on their explanations.
+  const orderQueue = useCallback((files: FileNode[], byDependencies: boolean): FileNode[] => {
+    if (!fileTree) return files;
+    const byPath = new Map(files.map(file => [file.path, file]));
+    const treeOrder = getAllFiles(fileTree).map(file => file.path).filter(path => byPath.has(path));
+    let paths = treeOrder;
+    if (byDependencies && importGraph) {
+      paths = orderByDependencies(importGraph, treeOrder);
+      if (selectedFile) paths = prioritizeImports(importGraph, paths, selectedFile.path);
+    }
+    return paths.map(path => byPath.get(path)!);
+  }, [fileTree, importGraph, selectedFile]);
+
+  // Reorders the files still waiting. The head of the queue is already being
+  // explained, so it stays where it is.
+  const reorderQueueTail = useCallback((reorder: (tail: FileNode[]) => FileNode[]) => {
+    setProcessingQueue(prev => {
+      if (prev.length < 3) return prev;
+      const tail = reorder(prev.slice(1));
+      return tail.every((file, i) => file === prev[i + 1]) ? prev : [prev[0], ...tail];
     });
-    setProcessingQueue(allFiles);
-  }, [fileTree, explanationsCache, explanationLevel]);
+  }, []);
+
+  const handleQueueDependencyOrderChange = useCallback((enabled: boolean) => {
+    setQueueDependencyOrder(enabled);
+    localStorage.setItem('queue_dependency_order', String(enabled));
+    // Manual moves are dropped: the waiting files follow the new order.
+    reorderQueueTail(tail => orderQueue(tail, enabled));
+  }, [orderQueue, reorderQueueTail]);
+
+  // Selecting a file while the queue runs moves it and its direct imports up.
+  useEffect(() => {
+    if (!queueDependencyOrder || !importGraph || !selectedFile) return;
+    reorderQueueTail(tail => {
+      const byPath = new Map(tail.map(file => [file.path, file]));
+      return prioritizeImports(importGraph, tail.map(file => file.path), selectedFile.path).map(path => byPath.get(path)!);
+    });
+  }, [queueDependencyOrder, importGraph, selectedFile, reorderQueueTail]);
+
+  const handleMoveInQueue = useCallback((from: number, to: number) => {
+    setProcessingQueue(prev => {
+      if (from < 1 || to < 1 || from >= prev.length || to > prev.length || to === from || to === from + 1) return prev;
+      const next = [...prev];
+      const [file] = next.splice(from, 1);
+      // Removing the file shifts every later row up by one.
+      next.splice(from < to ? to - 1 : to, 0, file);
+      return next;
+    });
+  }, []);
+
+  const handleRemoveFromQueue = useCallback((path: string) => {
+    setProcessingQueue(prev => prev.filter((file, i) => i === 0 || file.path !== path));
+  }, []);
+
+  const handleProcessAll = useCallback(async () => {
+    if (!fileTree || !providerConfig || isEstimating) return;
+    const allFiles = orderQueue(
+      getAllFiles(fileTree).filter(file => !hasCompleteExplanation(explanationsCache, file.path, currentKey)),
+      queueDependencyOrder
+    );
+    if (allFiles.length === 0) return;
+
+    setIsEstimating(true);
+    try {
+      const estimate = await estimateProcessAll(
+        allFiles,
+        explanationLevel,
+        levelOptions.map(option => getLevelPrompt(option.id)),
+        level => resolveTaskConfig(providerConfig, getExplainSetting(modelSettings, level))
+      );
+      setPendingProcessAll({ files: allFiles, estimate });
+    } catch (error) {
+      // An estimate is a courtesy, not a gate. Fall back to a plain confirm.
+      console.error('Failed to estimate cost:', error);
+      if (confirm(`Analyze ${allFiles.length} files? The cost estimate could not be calculated.`)) {
+        setProcessingQueue(allFiles);
+      }
+    } finally {
+      setIsEstimating(false);
+    }
+  }, [fileTree, providerConfig, modelSettings, levelOptions, getLevelPrompt, isEstimating, explanationsCache, explanationLevel, currentKey, orderQueue, queueDependencyOrder]);
+
+  const handleConfirmProcessAll = useCallback(() => {
+    if (!pendingProcessAll) return;
+    setProcessingQueue(pendingProcessAll.files);
+    setPendingProcessAll(null);
+  }, [pendingProcessAll]);
+
+  // Empties the queue and stops the file it is on. Files already explained keep their results.
+  const handleStopBatch = useCallback(() => {
+    const current = processingQueue[0];
+    setProcessingQueue([]);
+    if (current) {
+      explainControllersRef.current.get(current.path)?.abort();
+    }
+  }, [processingQueue]);
 
   // Clones both Map levels so no previous state object is mutated in place.
-  const updateBlock = useCallback((path: string, level: ExplanationLevel, blockIndex: number, update: (block: ExplanationBlock) => ExplanationBlock) => {
+  const updateBlock = useCallback((path: string, key: string, blockIndex: number, update: (block: ExplanationBlock) => ExplanationBlock) => {
       setExplanationsCache(prev => {
           const levelMap = prev.get(path);
-          const currentExpl = levelMap?.get(level);
+          const currentExpl = levelMap?.get(key);
           if (!levelMap || !currentExpl || !currentExpl.blocks[blockIndex]) return prev;
 
           const newBlocks = [...currentExpl.blocks];
           newBlocks[blockIndex] = update(newBlocks[blockIndex]);
 
           const newLevelMap = new Map(levelMap);
-          newLevelMap.set(level, { ...currentExpl, blocks: newBlocks });
+          newLevelMap.set(key, { ...currentExpl, blocks: newBlocks });
 
           const newCache = new Map(prev);
           newCache.set(path, newLevelMap);
@@ -592,65 +1060,656 @@ const App: React.FC = () => {
   }, []);
 
   const handleDeepDive = useCallback(async (blockIndex: number) => {
-      if (!selectedFile || !apiKey || deepDiveStatus.isLoading) return;
+      if (!selectedFile || !providerConfig || deepDiveStatus.isLoading) return;
 
-      const block = explanationsCacheRef.current.get(selectedFile.path)?.get(explanationLevel)?.blocks[blockIndex];
+      const block = explanationsCacheRef.current.get(selectedFile.path)?.get(currentKey)?.blocks[blockIndex];
 
       if (!block) return;
       
+      const controller = new AbortController();
+      deepDiveControllerRef.current = controller;
       setDeepDiveStatus({ file: selectedFile.path, blockIndex, isLoading: true });
 
       try {
-          const stream = await explainSnippetStream(block, selectedFile.name, apiKey);
+          const stream = explainSnippetStream(block, selectedFile.name, resolveTaskConfig(providerConfig, modelSettings.deepDive), {
+              temperature: modelSettings.deepDive.temperature ?? undefined,
+              language: outputLanguage,
+              signal: controller.signal,
+          });
 
-          updateBlock(selectedFile.path, explanationLevel, blockIndex, b => ({ ...b, deep_dive_explanation: '' }));
+          updateBlock(selectedFile.path, currentKey, blockIndex, b => ({ ...b, deep_dive_explanation: '', deep_dive_incomplete: undefined }));
 
           for await (const chunk of stream) {
-              updateBlock(selectedFile.path, explanationLevel, blockIndex, b => ({
+              updateBlock(selectedFile.path, currentKey, blockIndex, b => ({
                   ...b,
                   deep_dive_explanation: (b.deep_dive_explanation || '') + (chunk.text ?? '')
               }));
           }
       } catch (error) {
+          if (controller.signal.aborted) {
+              if (controller.signal.reason !== PROJECT_RESET) {
+                  updateBlock(selectedFile.path, currentKey, blockIndex, b => b.deep_dive_explanation
+                      ? { ...b, deep_dive_incomplete: true }
+                      : { ...b, deep_dive_explanation: undefined });
+              }
+              return;
+          }
+
           console.error('Deep dive failed:', error);
 
           const errorDetails = error instanceof Error ? error.message : String(error);
-          const genericMessage = handleApiError(error, apiKey, setApiKey);
+          const genericMessage = handleApiError(error, providerConfig, setProviderConfig);
           const errorMessage = `**Deep Dive Failed**\n\n**Error:** ${errorDetails}\n\n**Suggestion:** ${genericMessage}`;
 
-          updateBlock(selectedFile.path, explanationLevel, blockIndex, b => ({ ...b, deep_dive_explanation: errorMessage }));
+          updateBlock(selectedFile.path, currentKey, blockIndex, b => ({ ...b, deep_dive_explanation: errorMessage }));
       } finally {
-          setDeepDiveStatus({ file: null, blockIndex: null, isLoading: false });
+          if (deepDiveControllerRef.current === controller) {
+              deepDiveControllerRef.current = null;
+              setDeepDiveStatus({ file: null, blockIndex: null, isLoading: false });
+          }
       }
-  }, [selectedFile, apiKey, deepDiveStatus.isLoading, explanationLevel, updateBlock]);
+  }, [selectedFile, providerConfig, modelSettings, deepDiveStatus.isLoading, currentKey, outputLanguage, updateBlock]);
+
+  const handleCancelDeepDive = useCallback(() => {
+      deepDiveControllerRef.current?.abort();
+  }, []);
+
+  const handleFollowUp = useCallback(async (blockIndex: number, question: string) => {
+      if (!selectedFile || !providerConfig || followUpStatus.isLoading) return;
+
+      const block = explanationsCacheRef.current.get(selectedFile.path)?.get(currentKey)?.blocks[blockIndex];
+      if (!block) return;
+
+      const path = selectedFile.path;
+      const thread = block.follow_up_thread ?? [];
+      const controller = new AbortController();
+      followUpControllerRef.current = controller;
+      setFollowUpStatus({ file: path, blockIndex, isLoading: true });
+
+      // Replaces the reply, which is always the last message while it streams.
+      const updateReply = (update: (reply: ChatMessage) => ChatMessage) =>
+          updateBlock(path, currentKey, blockIndex, b => {
+              const messages = b.follow_up_thread ?? [];
+              return { ...b, follow_up_thread: [...messages.slice(0, -1), update(messages[messages.length - 1])] };
+          });
+
+      updateBlock(path, currentKey, blockIndex, b => ({
+          ...b,
+          follow_up_thread: [...(b.follow_up_thread ?? []), { role: 'user', text: question }, { role: 'model', text: '' }],
+      }));
+
+      try {
+          const stream = followUpStream(block, selectedFile.name, thread, question, resolveTaskConfig(providerConfig, modelSettings.followUp), {
+              temperature: modelSettings.followUp.temperature ?? undefined,
+              language: outputLanguage,
+              signal: controller.signal,
+          });
+
+          for await (const chunk of stream) {
+              updateReply(reply => ({ ...reply, text: reply.text + (chunk.text ?? '') }));
+          }
+          setIsHistorySyncPending(true);
+      } catch (error) {
+          if (controller.signal.aborted) {
+              if (controller.signal.reason !== PROJECT_RESET) {
+                  // Keep a partial reply; drop the question too if nothing arrived.
+                  updateBlock(path, currentKey, blockIndex, b => {
+                      const messages = b.follow_up_thread ?? [];
+                      return messages[messages.length - 1]?.text
+                          ? { ...b, follow_up_thread: [...messages.slice(0, -1), { ...messages[messages.length - 1], incomplete: true }] }
+                          : { ...b, follow_up_thread: messages.slice(0, -2) };
+                  });
+                  setIsHistorySyncPending(true);
+              }
+              return;
+          }
+
+          console.error('Follow-up failed:', error);
+
+          const errorDetails = error instanceof Error ? error.message : String(error);
+          const genericMessage = handleApiError(error, providerConfig, setProviderConfig);
+          updateReply(reply => ({ ...reply, text: `**Error:** ${errorDetails}\n\n**Suggestion:** ${genericMessage}`, error: true }));
+      } finally {
+          if (followUpControllerRef.current === controller) {
+              followUpControllerRef.current = null;
+              setFollowUpStatus({ file: null, blockIndex: null, isLoading: false });
+          }
+      }
+  }, [selectedFile, providerConfig, modelSettings, followUpStatus.isLoading, currentKey, outputLanguage, updateBlock]);
+
+  const handleCancelFollowUp = useCallback(() => {
+      followUpControllerRef.current?.abort();
+  }, []);
+
+  const handleExplainLines = useCallback(async (range: LineRange) => {
+      if (!selectedFile?.content || !providerConfig || lineRequestStatus.isLoading) return;
+
+      const file = selectedFile;
+      const code = selectedFile.content;
+      const key = currentKey;
+      if (!explanationsCacheRef.current.get(file.path)?.has(key)) return;
+
+      const controller = new AbortController();
+      lineRequestControllerRef.current = controller;
+      setLineRequestStatus({ file: file.path, range, isLoading: true });
+      let errorMessage: string | undefined;
+
+      // Each block goes where its lines are, and the recorded coverage follows.
+      const insertBlock = (block: ExplanationBlock) => setExplanationsCache(prev => {
+          const levelMap = prev.get(file.path);
+          const current = levelMap?.get(key);
+          if (!levelMap || !current) return prev;
+
+          const blocks = [...current.blocks];
+          blocks.splice(gapInsertionIndex(code, blocks, range), 0, block);
+          const newLevelMap = new Map(levelMap).set(key, { ...current, blocks, coverage: analyzeCoverage(code, blocks).percent });
+          return new Map(prev).set(file.path, newLevelMap);
+      });
+
+      const setting = getExplainSetting(modelSettings, explanationLevel);
+      try {
+          const stream = explainLinesStream(file.name, code, range, resolveTaskConfig(providerConfig, setting), getLevelPrompt(explanationLevel), {
+              temperature: setting.temperature ?? undefined,
+              language: outputLanguage,
+              contextPack: fileTree ? buildContextPack(file, getAllFiles(fileTree), fileSummaries, path => explanationsCacheRef.current.get(path)?.get(key)) : [],
+              signal: controller.signal,
+          });
+
+          for await (const block of stream) {
+              insertBlock(block);
+          }
+          setIsHistorySyncPending(true);
+      } catch (error) {
+          if (controller.signal.aborted) {
+              // Blocks that arrived before the cancel are complete and stay.
+              if (controller.signal.reason !== PROJECT_RESET) setIsHistorySyncPending(true);
+              return;
+          }
+
+          console.error(`Failed to explain lines ${range.startLine}-${range.endLine}:`, error);
+
+          const errorDetails = error instanceof Error ? error.message : String(error);
+          const genericMessage = handleApiError(error, providerConfig, setProviderConfig);
+          errorMessage = `**Error:** ${errorDetails}\n\n**Suggestion:** ${genericMessage}`;
+      } finally {
+          if (lineRequestControllerRef.current === controller) {
+              lineRequestControllerRef.current = null;
+              setLineRequestStatus(errorMessage ? { file: file.path, range, isLoading: false, error: errorMessage } : IDLE_LINE_REQUEST);
+          }
+      }
+  }, [selectedFile, providerConfig, lineRequestStatus.isLoading, currentKey, modelSettings, explanationLevel, outputLanguage, getLevelPrompt, fileTree, fileSummaries]);
+
+  const handleCancelExplainLines = useCallback(() => {
+      lineRequestControllerRef.current?.abort();
+  }, []);
+
+  // Builds on the explanation at the current level, so the cases can point at
+  // its blocks. The suggestion is stored on that explanation.
+  const handleSuggestTests = useCallback(async () => {
+      if (!selectedFile?.content || !fileTree || !providerConfig || testControllerRef.current) return;
+
+      const file = selectedFile;
+      const code = selectedFile.content;
+      const key = currentKey;
+      const explanation = explanationsCacheRef.current.get(file.path)?.get(key);
+      const framework = detectTestFramework(file, getAllFiles(fileTree));
+      if (!explanation || explanation.incomplete || !framework) return;
+
+      const controller = new AbortController();
+      testControllerRef.current = controller;
+      setTestStatus({ file: file.path, key, isLoading: true });
+      let errorMessage: string | undefined;
+
+      const setting = modelSettings.tests;
+      const config = resolveTaskConfig(providerConfig, setting);
+      let tests: TestSuggestion | undefined = {
+          framework: framework.name,
+          fileName: framework.fileName,
+          language: framework.language,
+          header: '',
+          cases: [],
+          footer: '',
+          incomplete: true,
+          model: config.model,
+      };
+      const write = (next: TestSuggestion | undefined) => {
+          tests = next;
+          setExplanationsCache(prev => {
+              const levelMap = prev.get(file.path);
+              const current = levelMap?.get(key);
+              if (!levelMap || !current) return prev;
+              return new Map(prev).set(file.path, new Map(levelMap).set(key, { ...current, tests: next }));
+          });
+      };
+      write(tests);
+
+      try {
+          const stream = suggestTestsStream(file.path, code, explanation.blocks, framework, config, {
+              temperature: setting.temperature ?? undefined,
+              language: outputLanguage,
+              signal: controller.signal,
+          });
+
+          for await (const event of stream) {
+              const current = tests!;
+              if (event.type === 'case') {
+                  write({ ...current, cases: [...current.cases, event.testCase] });
+              } else if (event.type === 'invalid') {
+                  console.warn(`Invalid test suggestion for ${file.path}:`, event.error);
+                  write({ ...current, invalid: (current.invalid ?? 0) + 1 });
+              } else {
+                  write({ ...current, [event.type]: event.code });
+              }
+          }
+          const { incomplete, ...finished } = tests!;
+          write(finished);
+          setIsHistorySyncPending(true);
+      } catch (error) {
+          if (controller.signal.aborted) {
+              if (controller.signal.reason !== PROJECT_RESET) setIsHistorySyncPending(true);
+              return;
+          }
+
+          console.error(`Failed to suggest tests for ${file.path}:`, error);
+
+          const errorDetails = error instanceof Error ? error.message : String(error);
+          const genericMessage = handleApiError(error, providerConfig, setProviderConfig);
+          errorMessage = `**Error:** ${errorDetails}\n\n**Suggestion:** ${genericMessage}`;
+          if (tests!.cases.length === 0) write(undefined);
+      } finally {
+          if (testControllerRef.current === controller) {
+              testControllerRef.current = null;
+              setTestStatus(errorMessage ? { file: file.path, key, isLoading: false, error: errorMessage } : IDLE_TEST_SUGGESTION);
+          }
+      }
+  }, [selectedFile, fileTree, providerConfig, currentKey, modelSettings, outputLanguage]);
+
+  const handleCancelSuggestTests = useCallback(() => {
+      testControllerRef.current?.abort();
+  }, []);
+
+  // Same flow as handleSuggestTests: the quiz is stored on the explanation it
+  // asks about, so its block indices stay meaningful.
+  const handleGenerateQuiz = useCallback(async () => {
+      if (!selectedFile?.content || !providerConfig || quizControllerRef.current) return;
+
+      const file = selectedFile;
+      const code = selectedFile.content;
+      const key = currentKey;
+      const explanation = explanationsCacheRef.current.get(file.path)?.get(key);
+      if (!explanation || explanation.incomplete || explanation.blocks.length === 0) return;
+
+      const controller = new AbortController();
+      quizControllerRef.current = controller;
+      setQuizStatus({ file: file.path, key, isLoading: true });
+      let errorMessage: string | undefined;
+
+      const setting = modelSettings.quiz;
+      const config = resolveTaskConfig(providerConfig, setting);
+      let quiz: Quiz | undefined = { questions: [], incomplete: true, model: config.model };
+      const write = (next: Quiz | undefined) => {
+          quiz = next;
+          setExplanationsCache(prev => {
+              const levelMap = prev.get(file.path);
+              const current = levelMap?.get(key);
+              if (!levelMap || !current) return prev;
+              return new Map(prev).set(file.path, new Map(levelMap).set(key, { ...current, quiz: next }));
+          });
+      };
+      write(quiz);
+
+      try {
+          const stream = generateQuizStream(file.path, code, explanation.blocks, getLevelPrompt(explanationLevel), config, {
+              temperature: setting.temperature ?? undefined,
+              language: outputLanguage,
+              signal: controller.signal,
+          });
+
+          for await (const event of stream) {
+              const current = quiz!;
+              if (event.type === 'question') {
+                  write({ ...current, questions: [...current.questions, event.question] });
+              } else {
+                  console.warn(`Invalid quiz question for ${file.path}:`, event.error);
+                  write({ ...current, invalid: (current.invalid ?? 0) + 1 });
+              }
+          }
+          const { incomplete, ...finished } = quiz!;
+          write(finished);
+          setIsHistorySyncPending(true);
+      } catch (error) {
+          if (controller.signal.aborted) {
+              if (controller.signal.reason !== PROJECT_RESET) setIsHistorySyncPending(true);
+              return;
+          }
+
+          console.error(`Failed to write a quiz for ${file.path}:`, error);
+
+          const errorDetails = error instanceof Error ? error.message : String(error);
+          const genericMessage = handleApiError(error, providerConfig, setProviderConfig);
+          errorMessage = `**Error:** ${errorDetails}\n\n**Suggestion:** ${genericMessage}`;
+          if (quiz!.questions.length === 0) write(undefined);
+      } finally {
+          if (quizControllerRef.current === controller) {
+              quizControllerRef.current = null;
+              setQuizStatus(errorMessage ? { file: file.path, key, isLoading: false, error: errorMessage } : IDLE_QUIZ);
+          }
+      }
+  }, [selectedFile, providerConfig, currentKey, modelSettings, explanationLevel, outputLanguage, getLevelPrompt]);
+
+  const handleCancelQuiz = useCallback(() => {
+      quizControllerRef.current?.abort();
+  }, []);
+
+  const handleSubmitQuiz = useCallback((score: number, total: number, missedBlocks: number[]) => {
+      if (!selectedFile) return;
+      const attempt: QuizAttempt = { path: selectedFile.path, key: currentKey, timestamp: new Date().toISOString(), score, total, missedBlocks };
+      setQuizResults(prev => [...prev, attempt]);
+      setIsHistorySyncPending(true);
+  }, [selectedFile, currentKey]);
+
+  const selectedQuizAttempts = useMemo(
+      () => selectedFile ? quizResults.filter(attempt => attempt.path === selectedFile.path) : [],
+      [selectedFile, quizResults]
+  );
+
+  const handleExportAnnotated = useCallback(() => {
+      if (!fileTree) return;
+      const entries = annotateProject(getAllFiles(fileTree), path => explanationsCache.get(path)?.get(currentKey)?.blocks);
+      const name = fileTree.name === 'root' && fileTree.children.length > 0 ? fileTree.children[0].name : fileTree.name;
+      downloadBlob(createZip(entries), `${name || 'project'}-annotated.zip`);
+  }, [fileTree, explanationsCache, currentKey]);
+
+  // Reviews the files one after another with a single controller, so one
+  // Stop ends the whole run. A file that fails is recorded and skipped.
+  const handleReviewFiles = useCallback(async (files: FileNode[]) => {
+      const reviewable = files.filter(file => file.content && !file.diff);
+      if (!providerConfig || reviewControllerRef.current || reviewable.length === 0) return;
+
+      const controller = new AbortController();
+      reviewControllerRef.current = controller;
+      const setting = modelSettings.review;
+      const config = resolveTaskConfig(providerConfig, setting);
+      const language = outputLanguage;
+
+      try {
+          for (const [index, file] of reviewable.entries()) {
+              setReviewStatus({ file: file.path, remaining: reviewable.length - index, chunk: null });
+              setReviewFailures(prev => withoutKey(prev, file.path));
+
+              let review: FileReview = { findings: [], incomplete: true, model: config.model, language };
+              const write = (next: FileReview) => {
+                  review = next;
+                  setReviews(prev => new Map(prev).set(file.path, next));
+              };
+              write(review);
+
+              try {
+                  const stream = reviewFileStream(file.path, file.content!, config, {
+                      temperature: setting.temperature ?? undefined,
+                      language,
+                      signal: controller.signal,
+                  });
+
+                  for await (const event of stream) {
+                      if (event.type === 'finding') {
+                          write({ ...review, findings: [...review.findings, event.finding] });
+                      } else if (event.type === 'invalid') {
+                          console.warn(`Invalid finding for ${file.path}:`, event.error);
+                          write({ ...review, invalid: (review.invalid ?? 0) + 1 });
+                      } else {
+                          setReviewStatus(prev => ({ ...prev, chunk: event }));
+                      }
+                  }
+                  const { incomplete, ...finished } = review;
+                  write(finished);
+              } catch (error) {
+                  if (controller.signal.aborted) throw error;
+
+                  console.error(`Failed to review ${file.path}:`, error);
+
+                  const errorDetails = error instanceof Error ? error.message : String(error);
+                  const genericMessage = handleApiError(error, providerConfig, setProviderConfig);
+                  setReviewFailures(prev => new Map(prev).set(file.path, `**Error:** ${errorDetails}\n\n**Suggestion:** ${genericMessage}`));
+                  // Findings that arrived before the failure stay, marked incomplete.
+                  if (review.findings.length === 0) setReviews(prev => withoutKey(prev, file.path));
+              }
+          }
+          setIsHistorySyncPending(true);
+      } catch (error) {
+          // Only aborts get here. A stopped run keeps what it found.
+          if (controller.signal.reason !== PROJECT_RESET) setIsHistorySyncPending(true);
+      } finally {
+          if (reviewControllerRef.current === controller) {
+              reviewControllerRef.current = null;
+              setReviewStatus(IDLE_REVIEW);
+          }
+      }
+  }, [providerConfig, modelSettings, outputLanguage]);
+
+  const handleReviewAll = useCallback(() => {
+      if (!fileTree) return;
+      handleReviewFiles(getAllFiles(fileTree).filter(file => {
+          const review = reviews.get(file.path);
+          return !review || review.incomplete;
+      }));
+  }, [fileTree, reviews, handleReviewFiles]);
+
+  const handleCancelReview = useCallback(() => {
+      reviewControllerRef.current?.abort();
+  }, []);
+
+  const handleAskProject = useCallback(async (question: string) => {
+      if (!fileTree || !providerConfig || projectChatControllerRef.current) return;
+
+      const thread = projectChat;
+      const context = buildProjectContext(question, getAllFiles(fileTree), explanationsCacheRef.current, fileSummaries, projectSummary);
+      const controller = new AbortController();
+      projectChatControllerRef.current = controller;
+      setIsProjectChatLoading(true);
+
+      const updateReply = (update: (reply: ChatMessage) => ChatMessage) =>
+          setProjectChat(prev => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
+
+      setProjectChat(prev => [...prev, { role: 'user', text: question }, { role: 'model', text: '' }]);
+
+      try {
+          const stream = answerProjectQuestionStream(question, context, thread, resolveTaskConfig(providerConfig, modelSettings.projectChat), {
+              temperature: modelSettings.projectChat.temperature ?? undefined,
+              language: outputLanguage,
+              signal: controller.signal,
+          });
+
+          for await (const chunk of stream) {
+              updateReply(reply => ({ ...reply, text: reply.text + (chunk.text ?? '') }));
+          }
+      } catch (error) {
+          if (controller.signal.aborted) {
+              if (controller.signal.reason !== PROJECT_RESET) {
+                  setProjectChat(prev => prev[prev.length - 1]?.text
+                      ? [...prev.slice(0, -1), { ...prev[prev.length - 1], incomplete: true }]
+                      : prev.slice(0, -2));
+              }
+              return;
+          }
+
+          console.error('Project question failed:', error);
+
+          const errorDetails = error instanceof Error ? error.message : String(error);
+          const genericMessage = handleApiError(error, providerConfig, setProviderConfig);
+          updateReply(reply => ({ ...reply, text: `**Error:** ${errorDetails}\n\n**Suggestion:** ${genericMessage}`, error: true }));
+      } finally {
+          if (projectChatControllerRef.current === controller) {
+              projectChatControllerRef.current = null;
+              setIsProjectChatLoading(false);
+          }
+      }
+  }, [fileTree, providerConfig, modelSettings, projectChat, fileSummaries, projectSummary, outputLanguage]);
+
+  const handleCancelProjectChat = useCallback(() => {
+      projectChatControllerRef.current?.abort();
+  }, []);
+
+  // Terms come from the model; where each is used is worked out here, against
+  // the explanations at the current key, as each term arrives.
+  const handleGenerateGlossary = useCallback(async () => {
+      if (!fileTree || !providerConfig || glossaryControllerRef.current) return;
+
+      const files = getAllFiles(fileTree);
+      const key = currentKey;
+      const explanationFor = (path: string) => explanationsCacheRef.current.get(path)?.get(key);
+      const material = buildGlossaryMaterial(files, explanationFor, fileSummaries, projectSummary);
+      if (material.files.length === 0 && !material.projectSummary) return;
+
+      const controller = new AbortController();
+      glossaryControllerRef.current = controller;
+      setGlossaryStatus({ isLoading: true });
+      let errorMessage: string | undefined;
+
+      const previous = glossary;
+      const setting = modelSettings.glossary;
+      const config = resolveTaskConfig(providerConfig, setting);
+      let next: Glossary = { terms: [], key, timestamp: new Date().toISOString(), incomplete: true, model: config.model };
+      const write = (update: Glossary) => {
+          next = update;
+          setGlossary(update);
+      };
+      write(next);
+
+      try {
+          const stream = generateGlossaryStream(material, config, {
+              temperature: setting.temperature ?? undefined,
+              language: outputLanguage,
+              signal: controller.signal,
+          });
+
+          for await (const event of stream) {
+              if (event.type === 'invalid') {
+                  console.warn('Invalid glossary term:', event.error);
+                  write({ ...next, invalid: (next.invalid ?? 0) + 1 });
+                  continue;
+              }
+              // Each term is defined once, even if the model repeats it under another spelling.
+              const names = [event.term.term, ...event.term.aliases].map(name => name.toLowerCase());
+              if (next.terms.some(term => [term.term, ...term.aliases].some(name => names.includes(name.toLowerCase())))) continue;
+              const term: GlossaryTerm = { ...event.term, usages: [] };
+              write({ ...next, terms: [...next.terms, { ...term, usages: findTermUsages(term, files, explanationFor, fileSummaries) }] });
+          }
+          const { incomplete, ...finished } = next;
+          write(finished);
+          setIsHistorySyncPending(true);
+      } catch (error) {
+          if (controller.signal.aborted) {
+              if (controller.signal.reason !== PROJECT_RESET) {
+                  if (next.terms.length === 0) setGlossary(previous);
+                  setIsHistorySyncPending(true);
+              }
+              return;
+          }
+
+          console.error('Failed to build the glossary:', error);
+
+          const errorDetails = error instanceof Error ? error.message : String(error);
+          const genericMessage = handleApiError(error, providerConfig, setProviderConfig);
+          errorMessage = `**Error:** ${errorDetails}\n\n**Suggestion:** ${genericMessage}`;
+          if (next.terms.length === 0) setGlossary(previous);
+      } finally {
+          if (glossaryControllerRef.current === controller) {
+              glossaryControllerRef.current = null;
+              setGlossaryStatus(errorMessage ? { isLoading: false, error: errorMessage } : IDLE_GLOSSARY);
+          }
+      }
+  }, [fileTree, providerConfig, currentKey, fileSummaries, projectSummary, glossary, modelSettings, outputLanguage]);
+
+  const handleCancelGlossary = useCallback(() => {
+      glossaryControllerRef.current?.abort();
+  }, []);
+
+  // Block numbers refer to the explanations the glossary was built from.
+  const handleOpenGlossaryUsage = useCallback((path: string, blockIndex: number | null) => {
+      const file = fileTree ? getAllFiles(fileTree).find(f => f.path === path) : undefined;
+      if (!file) return;
+      const blocks = glossary ? explanationsCache.get(path)?.get(glossary.key)?.blocks : undefined;
+      const range = blockIndex !== null && blocks && file.content ? locateBlocks(file.content, blocks)[blockIndex] : null;
+      if (range) {
+          handleOpenCitation(path, range);
+      } else {
+          setSelectedFile(file);
+      }
+  }, [fileTree, glossary, explanationsCache, handleOpenCitation]);
+
+  const handleExportGlossary = useCallback(() => {
+      if (!fileTree || !glossary) return;
+      const name = fileTree.name === 'root' && fileTree.children.length > 0 ? fileTree.children[0].name : fileTree.name;
+      const markdown = glossaryToMarkdown(glossary, name || 'Project');
+      downloadBlob(new Blob([markdown], { type: 'text/markdown;charset=utf-8' }), `${name || 'project'}-glossary.md`);
+  }, [fileTree, glossary]);
+
+  const handleClearFollowUp = useCallback((blockIndex: number) => {
+      if (!selectedFile) return;
+      updateBlock(selectedFile.path, currentKey, blockIndex, b => ({ ...b, follow_up_thread: undefined }));
+      setIsHistorySyncPending(true);
+  }, [selectedFile, currentKey, updateBlock]);
+
+  // The auto-save adds one entry per project, so threads, summaries and the
+  // rest added after it are written into the open history entry directly.
+  useEffect(() => {
+    if (!isHistorySyncPending) return;
+    setIsHistorySyncPending(false);
+    if (!activeHistoryId) return;
+
+    setHistory(prev => {
+      const updatedHistory = prev.map(entry => entry.id === activeHistoryId
+        ? {
+            ...entry,
+            explanationsCache: serializeExplanations(explanationsCache),
+            fileSummaries: Object.fromEntries(fileSummaries),
+            projectSummary,
+            reviews: Object.fromEntries(reviews),
+            quizResults,
+            glossary: glossary ?? undefined,
+          }
+        : entry);
+
+      saveHistoryToLocalStorage(updatedHistory);
+      if (githubToken) {
+        saveHistoryToGist(githubToken, updatedHistory).catch(error => {
+          console.error('Failed to save to Gist (saved locally):', error);
+        });
+      }
+
+      return updatedHistory;
+    });
+  }, [isHistorySyncPending, activeHistoryId, explanationsCache, fileSummaries, projectSummary, reviews, quizResults, glossary, githubToken]);
 
   useEffect(() => {
     if (processingQueue.length === 0) return;
 
     const fileToProcess = processingQueue[0];
-    const dispatchKey = `${fileToProcess.path}::${explanationLevel}`;
+    const dispatchKey = `${fileToProcess.path}::${currentKey}`;
 
     // The effect re-runs while the file is still streaming, so a state-based
     // guard would read a stale snapshot. This ref is written synchronously.
     if (dispatchedFilesRef.current.has(dispatchKey)) return;
 
-    if (explanationsCacheRef.current.get(fileToProcess.path)?.has(explanationLevel)) {
+    if (hasCompleteExplanation(explanationsCacheRef.current, fileToProcess.path, currentKey)) {
       setProcessingQueue(prev => prev.slice(1));
       return;
     }
 
     dispatchedFilesRef.current.add(dispatchKey);
 
-    fetchAndCacheExplanation(fileToProcess, explanationLevel)
+    fetchAndCacheExplanation(fileToProcess, explanationLevel, outputLanguage)
       .catch(error => {
         console.error(`Queue processing failed for ${fileToProcess.name}:`, error);
       })
       .finally(() => {
         dispatchedFilesRef.current.delete(dispatchKey);
-        setProcessingQueue(prev => prev.slice(1));
+        // A stop or reset may already have emptied or replaced the queue.
+        setProcessingQueue(prev => prev[0] === fileToProcess ? prev.slice(1) : prev);
       });
 
-  }, [processingQueue, fetchAndCacheExplanation, explanationLevel]);
+  }, [processingQueue, fetchAndCacheExplanation, explanationLevel, outputLanguage, currentKey]);
 
   // Auto-save to history when all processing is complete
   useEffect(() => {
@@ -684,10 +1743,10 @@ const App: React.FC = () => {
     );
   }
 
-  if (!apiKey) {
+  if (!providerConfig) {
     return (
       <>
-        <LoginScreen onSuccess={handleApiKeySubmit} onError={handleAuthError} />
+        <LoginScreen onSuccess={handleProviderSubmit} onError={handleAuthError} />
         {authError && (
           <div className="fixed top-4 right-4 bg-red-600 text-white px-6 py-3 rounded-lg shadow-lg z-50">
             {authError}
@@ -741,21 +1800,43 @@ const App: React.FC = () => {
             selectedFile={selectedFile}
             onSelectFile={handleSelectFile}
             onProcessAll={handleProcessAll}
+            onStopBatch={handleStopBatch}
             processingStatus={processingStatus}
+            retryWaits={retryWaits}
             isProcessingQueueActive={isProcessingQueueActive}
-            processingQueueLength={processingQueue.length}
+            isEstimating={isEstimating}
+            processingQueue={processingQueue}
+            queuePriority={queuePriority}
+            queueDependencyOrder={queueDependencyOrder}
+            onQueueDependencyOrderChange={handleQueueDependencyOrderChange}
+            onMoveInQueue={handleMoveInQueue}
+            onRemoveFromQueue={handleRemoveFromQueue}
             remainingFilesToProcess={remainingFilesToProcess}
             fileSummaries={fileSummaries}
             summaryStatus={summaryStatus}
             projectSummary={projectSummary}
             isProjectSummaryLoading={isProjectSummaryLoading}
+            onCancelSummaries={handleCancelSummaries}
+            areSummariesCancelled={areSummariesCancelled}
+            deferredSummaryTokens={deferredSummaryTokens}
+            summaryTokenLimit={summaryTokenLimit}
+            onGenerateSummaries={handleGenerateDeferredSummaries}
             onLogout={handleLogout}
             history={history}
             activeHistoryId={activeHistoryId}
             onSelectHistory={handleSelectHistory}
             onClearHistory={handleClearHistory}
             explanationLevel={explanationLevel}
+            levels={levelOptions}
+            outputLanguage={outputLanguage}
             explanationsCache={explanationsCache}
+            reviews={reviews}
+            reviewStatus={reviewStatus}
+            onReviewAll={handleReviewAll}
+            onCancelReview={handleCancelReview}
+            onOpenFinding={handleOpenCitation}
+            onExportAnnotated={handleExportAnnotated}
+            quizResults={quizResults}
           />
         </Suspense>
       </aside>
@@ -767,14 +1848,22 @@ const App: React.FC = () => {
           <div className="bg-gray-800 border-b border-gray-700 px-6 py-3 flex items-center justify-between gap-3">
             <button
               onClick={() => {
+                abortAllRequests();
                 setFileTree(null);
                 setSelectedFile(null);
                 setExplanationsCache(new Map());
                 setProcessingStatus(new Map());
                 setProcessingQueue([]);
+                setFailedFiles(new Map());
+                setReviews(new Map());
+                setReviewFailures(new Map());
+                setQuizResults([]);
+                setGlossary(null);
                 setFileSummaries(new Map());
                 setProjectSummary('');
                 setSummaryStatus(new Map());
+                setDeferredSummaryTokens(null);
+                setPendingProcessAll(null);
               }}
               className="px-4 py-2 text-sm text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors flex items-center gap-2"
             >
@@ -786,10 +1875,10 @@ const App: React.FC = () => {
 
             <div className="flex items-center gap-3">
               <span className="text-sm text-gray-400 font-medium">Explanation Level:</span>
-              <div className="flex gap-2">
-                {(['beginner', 'intermediate', 'expert'] as ExplanationLevel[]).map((level) => {
+              <div className="flex flex-wrap gap-2">
+                {levelOptions.map(({ id: level, name }) => {
                   const levelMap = selectedFile ? explanationsCache.get(selectedFile.path) : null;
-                  const isCached = levelMap?.has(level) ?? false;
+                  const isCached = levelMap?.has(explanationKey(level, outputLanguage)) ?? false;
                   const isActive = explanationLevel === level;
 
                   return (
@@ -804,11 +1893,66 @@ const App: React.FC = () => {
                             : 'bg-gray-700 text-gray-400 hover:bg-gray-600 hover:text-white'
                       }`}
                     >
-                      {level.charAt(0).toUpperCase() + level.slice(1)}
+                      {name}
                     </button>
                   );
                 })}
               </div>
+              <select
+                value={outputLanguage}
+                onChange={(e) => handleLanguageChange(e.target.value)}
+                className="px-3 py-2 bg-gray-700 border border-gray-600 rounded-md text-sm text-gray-200 focus:outline-none focus:border-blue-accent"
+                title="Language the explanations and summaries are written in"
+              >
+                {OUTPUT_LANGUAGES.map(language => (
+                  <option key={language} value={language}>{language}</option>
+                ))}
+              </select>
+              <button
+                onClick={() => setIsLevelEditorOpen(true)}
+                className="px-4 py-2 text-sm text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+                title="Add or edit custom levels and their prompt templates"
+              >
+                Levels
+              </button>
+              <button
+                onClick={() => {
+                  setIsProjectChatOpen(prev => !prev);
+                  setIsGlossaryOpen(false);
+                }}
+                className={`px-4 py-2 text-sm rounded-md transition-colors ${
+                  isProjectChatOpen ? 'bg-cyan-accent text-gray-900' : 'text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700'
+                }`}
+                title="Ask questions about the whole project"
+              >
+                Ask
+              </button>
+              <button
+                onClick={() => {
+                  setIsGlossaryOpen(prev => !prev);
+                  setIsProjectChatOpen(false);
+                }}
+                className={`px-4 py-2 text-sm rounded-md transition-colors ${
+                  isGlossaryOpen ? 'bg-cyan-accent text-gray-900' : 'text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700'
+                }`}
+                title="Key terms and identifiers of the project, defined once"
+              >
+                Glossary
+              </button>
+              <button
+                onClick={() => setIsImportGraphOpen(true)}
+                className="px-4 py-2 text-sm text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+                title="How the project's files import each other"
+              >
+                Graph
+              </button>
+              <button
+                onClick={() => setIsModelSettingsOpen(true)}
+                className="px-4 py-2 text-sm text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+                title="Choose the model and temperature for each task"
+              >
+                Models
+              </button>
             </div>
           </div>
         )}
@@ -824,10 +1968,44 @@ const App: React.FC = () => {
             <CodeExplainerView
                 explanation={currentExplanation}
                 isLoading={isExplanationLoading}
+                chunkProgress={chunkProgress.get(selectedFile.path) ?? null}
+                retryWaitSeconds={retryWaits.get(selectedFile.path) ?? null}
+                failure={failedFiles.get(selectedFile.path)?.key === currentKey ? failedFiles.get(selectedFile.path)!.message : null}
+                onRetry={handleRetryFile}
+                onCancel={handleCancelExplanation}
                 fileName={selectedFile.name}
                 code={selectedFile.content || ''}
                 onDeepDive={handleDeepDive}
                 deepDiveStatus={deepDiveStatus}
+                onCancelDeepDive={handleCancelDeepDive}
+                onFollowUp={handleFollowUp}
+                followUpStatus={followUpStatus}
+                onCancelFollowUp={handleCancelFollowUp}
+                onClearFollowUp={handleClearFollowUp}
+                highlightRange={highlightRange}
+                onExplainLines={handleExplainLines}
+                lineRequestStatus={lineRequestStatus.file === selectedFile.path ? lineRequestStatus : IDLE_LINE_REQUEST}
+                onCancelExplainLines={handleCancelExplainLines}
+                diff={selectedFile.diff}
+                review={reviews.get(selectedFile.path) ?? null}
+                reviewStatus={{
+                    isLoading: reviewStatus.file === selectedFile.path,
+                    isBusy: reviewStatus.file !== null,
+                    chunk: reviewStatus.file === selectedFile.path ? reviewStatus.chunk : null,
+                    failure: reviewFailures.get(selectedFile.path) ?? null,
+                }}
+                onReview={() => handleReviewFiles([selectedFile])}
+                onCancelReview={handleCancelReview}
+                testFramework={selectedTestFramework}
+                testStatus={testStatus.file === selectedFile.path && testStatus.key === currentKey ? testStatus : IDLE_TEST_SUGGESTION}
+                onSuggestTests={handleSuggestTests}
+                onCancelSuggestTests={handleCancelSuggestTests}
+                quizStatus={quizStatus.file === selectedFile.path && quizStatus.key === currentKey ? quizStatus : IDLE_QUIZ}
+                quizAttempts={selectedQuizAttempts}
+                onGenerateQuiz={handleGenerateQuiz}
+                onCancelQuiz={handleCancelQuiz}
+                onSubmitQuiz={handleSubmitQuiz}
+                glossaryTerms={glossary?.terms ?? NO_GLOSSARY_TERMS}
             />
           </Suspense>
         ) : (
@@ -838,6 +2016,85 @@ const App: React.FC = () => {
         </div>
       </main>
     </div>
+
+      {pendingProcessAll && (
+        <CostEstimateDialog
+          estimate={pendingProcessAll.estimate}
+          summaryTokenLimit={summaryTokenLimit}
+          onSummaryTokenLimitChange={setSummaryTokenLimit}
+          onConfirm={handleConfirmProcessAll}
+          onCancel={() => setPendingProcessAll(null)}
+        />
+      )}
+
+      {isProjectChatOpen && fileTree && (
+        <Suspense fallback={null}>
+          <ProjectChatPanel
+            thread={projectChat}
+            isStreaming={isProjectChatLoading}
+            knownPaths={knownPaths}
+            onAsk={handleAskProject}
+            onStop={handleCancelProjectChat}
+            onClear={() => setProjectChat([])}
+            onOpenCitation={handleOpenCitation}
+            onClose={() => setIsProjectChatOpen(false)}
+          />
+        </Suspense>
+      )}
+
+      {isImportGraphOpen && fileTree && importGraph && (
+        <Suspense fallback={null}>
+          <ImportGraphDialog
+            graph={importGraph}
+            projectName={(fileTree.name === 'root' && fileTree.children.length > 0 ? fileTree.children[0].name : fileTree.name) || 'project'}
+            selectedPath={selectedFile?.path ?? null}
+            onOpenFile={path => {
+              const file = getAllFiles(fileTree).find(f => f.path === path);
+              if (file) setSelectedFile(file);
+              setIsImportGraphOpen(false);
+            }}
+            onClose={() => setIsImportGraphOpen(false)}
+          />
+        </Suspense>
+      )}
+
+      {isGlossaryOpen && fileTree && (
+        <Suspense fallback={null}>
+          <GlossaryPanel
+            glossary={glossary}
+            isLoading={glossaryStatus.isLoading}
+            error={glossaryStatus.error}
+            canGenerate={!!projectSummary || fileSummaries.size > 0 || [...explanationsCache.values()].some(levelMap => levelMap.has(currentKey))}
+            isOtherKey={!!glossary && glossary.key !== currentKey}
+            onGenerate={handleGenerateGlossary}
+            onStop={handleCancelGlossary}
+            onExport={handleExportGlossary}
+            onOpenUsage={handleOpenGlossaryUsage}
+            onClose={() => setIsGlossaryOpen(false)}
+          />
+        </Suspense>
+      )}
+
+      {isModelSettingsOpen && (
+        <ModelSettingsDialog
+          settings={modelSettings}
+          levels={levelOptions}
+          defaultModel={providerConfig.model}
+          onSave={handleSaveModelSettings}
+          onCancel={() => setIsModelSettingsOpen(false)}
+        />
+      )}
+
+      {isLevelEditorOpen && (
+        <LevelEditorDialog
+          levels={customLevels}
+          onSave={levels => {
+            setCustomLevels(levels);
+            setIsLevelEditorOpen(false);
+          }}
+          onCancel={() => setIsLevelEditorOpen(false)}
+        />
+      )}
     </>
   );
 };
@@ -2,21 +2,44 @@
 import React, { useState, useRef, useEffect, useMemo, CSSProperties } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-// @ts-ignore
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
-// @ts-ignore
 import { atomDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import type { Explanation } from '../types';
+import type { DiffInfo, Explanation, FileReview, GlossaryTerm, QuizAttempt, ReviewFinding } from '../types';
+import type { ChunkProgress } from '../services/geminiService';
 import SpinnerIcon from './icons/SpinnerIcon';
 import SparklesIcon from './icons/SparklesIcon';
 import CopyIcon from './icons/CopyIcon';
 import CheckIcon from './icons/CheckIcon';
 import DownloadIcon from './icons/DownloadIcon';
 import SearchIcon from './icons/SearchIcon';
+import FollowUpThread from './FollowUpThread';
+import CoverageMinimap, { type LineCoverage, type UnmatchedMarker } from './CoverageMinimap';
+import DiffSideBySide from './DiffSideBySide';
+import { SEVERITY_RANK, SEVERITY_STYLES, SeverityBadge } from './FindingsList';
+import TestSuggestionPanel from './TestSuggestionPanel';
+import QuizPanel from './QuizPanel';
+import { glossaryMarkdownComponents } from './GlossaryTermCard';
+import { locateBlocks, type LineRange } from '../utils/blockLocation';
+import { analyzeCoverage } from '../utils/coverage';
+import { getCommentStyle, getLanguage } from '../utils/languages';
+import { annotateSource } from '../utils/annotatedSource';
+import { downloadBlob } from '../utils/download';
+import { linkGlossaryTerms } from '../utils/glossary';
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLInputElement
+  || target instanceof HTMLSelectElement
+  || target instanceof HTMLTextAreaElement
+  || (target instanceof HTMLElement && target.isContentEditable);
 
 interface CodeExplainerViewProps {
   explanation: Explanation | null;
   isLoading: boolean;
+  chunkProgress: ChunkProgress | null;
+  retryWaitSeconds: number | null;
+  failure: string | null;
+  onRetry: () => void;
+  onCancel: () => void;
   fileName: string;
   code: string;
   onDeepDive: (blockIndex: number) => void;
@@ -25,77 +48,65 @@ interface CodeExplainerViewProps {
       blockIndex: number | null;
       isLoading: boolean;
   };
+  onCancelDeepDive: () => void;
+  onFollowUp: (blockIndex: number, question: string) => void;
+  followUpStatus: {
+      file: string | null;
+      blockIndex: number | null;
+      isLoading: boolean;
+  };
+  onCancelFollowUp: () => void;
+  onClearFollowUp: (blockIndex: number) => void;
+  // Lines to highlight and scroll to, e.g. from a project chat citation.
+  highlightRange: LineRange | null;
+  onExplainLines: (range: LineRange) => void;
+  lineRequestStatus: {
+      range: LineRange | null;
+      isLoading: boolean;
+      error?: string;
+  };
+  onCancelExplainLines: () => void;
+  // Set for files of a diff session; `code` is then the file's unified diff.
+  diff?: DiffInfo;
+  review: FileReview | null;
+  reviewStatus: {
+      isLoading: boolean; // this file is being reviewed
+      isBusy: boolean; // some review is running
+      chunk: ChunkProgress | null;
+      failure: string | null;
+  };
+  onReview: () => void;
+  onCancelReview: () => void;
+  // Framework tests would be written with, or null when the file has none.
+  testFramework: string | null;
+  testStatus: {
+      isLoading: boolean;
+      error?: string;
+  };
+  onSuggestTests: () => void;
+  onCancelSuggestTests: () => void;
+  quizStatus: {
+      isLoading: boolean;
+      error?: string;
+  };
+  // Earlier attempts at this file's quiz.
+  quizAttempts: QuizAttempt[];
+  onGenerateQuiz: () => void;
+  onCancelQuiz: () => void;
+  onSubmitQuiz: (score: number, total: number, missedBlocks: number[]) => void;
+  // Project glossary terms; their mentions in explanations get hover-cards.
+  glossaryTerms: GlossaryTerm[];
 }
 
-const getLanguage = (filename: string): string => {
-  const extension = filename.split('.').pop()?.toLowerCase();
-  switch (extension) {
-    case 'js': case 'jsx': return 'javascript';
-    case 'ts': case 'tsx': return 'typescript';
-    case 'py': return 'python';
-    case 'java': return 'java';
-    case 'html': return 'html';
-    case 'css': return 'css';
-    case 'json': return 'json';
-    case 'md': return 'markdown';
-    case 'yml': case 'yaml': return 'yaml';
-    default: return 'clike';
-  }
-};
+const chunkLabel = (progress: ChunkProgress) => progress.gap
+  ? `(re-requesting skipped lines ${progress.startLine}-${progress.endLine}, ${progress.index + 1} of ${progress.total})`
+  : `(part ${progress.index + 1} of ${progress.total}, lines ${progress.startLine}-${progress.endLine})`;
 
-const findBlock = (source: string, blockFromAI: string, startIndex: number): { index: number; content: string } | null => {
-    if (!blockFromAI) return null;
-
-    // Attempt a direct match first. This is the most common case (Unix/Mac files).
-    let index = source.indexOf(blockFromAI, startIndex);
-    if (index !== -1) {
-        return { index, content: blockFromAI };
-    }
-    
-    // If direct match fails, it might be due to line-ending differences (\n vs \r\n).
-    // The AI will use \n. The source file might have \r\n (e.g., from Windows).
-    const blockWithCRLF = blockFromAI.replace(/\n/g, '\r\n');
-
-    if (blockWithCRLF !== blockFromAI) {
-        index = source.indexOf(blockWithCRLF, startIndex);
-        if (index !== -1) {
-            // We found a match. The content we use for segmentation must be the
-            // version we found in the source, so that `lastIndex` is updated correctly.
-            return { index, content: blockWithCRLF };
-        }
-    }
-    
-    // If still no match, try normalizing whitespace (common with cached explanations)
-    // This handles cases where cached blocks have different whitespace formatting
-    const normalizeWhitespace = (text: string) => text.trim().replace(/\s+/g, ' ');
-    const normalizedBlock = normalizeWhitespace(blockFromAI);
-    
-    // Search through the source for a block with matching normalized content
-    const sourceLines = source.substring(startIndex).split('\n');
-    let currentPos = startIndex;
-    
-    for (let i = 0; i < sourceLines.length; i++) {
-        // Try different window sizes for matching
-        for (let windowSize = 1; windowSize <= Math.min(5, sourceLines.length - i); windowSize++) {
-            const candidateLines = sourceLines.slice(i, i + windowSize);
-            const candidateBlock = candidateLines.join('\n');
-            
-            if (normalizeWhitespace(candidateBlock) === normalizedBlock) {
-                // Found a match! Calculate the actual position
-                const beforeCandidate = sourceLines.slice(0, i).join('\n');
-                const actualIndex = startIndex + (i > 0 ? beforeCandidate.length + 1 : 0);
-                return { index: actualIndex, content: candidateBlock };
-            }
-        }
-        
-        currentPos += sourceLines[i].length + 1; // +1 for newline
-    }
-    
-    return null;
-};
+const formatRange = (range: LineRange) =>
+  range.startLine === range.endLine ? `${range.startLine}` : `${range.startLine}-${range.endLine}`;
 
 
-const CodeExplainerView: React.FC<CodeExplainerViewProps> = ({ explanation, isLoading, fileName, code, onDeepDive, deepDiveStatus }) => {
+const CodeExplainerView: React.FC<CodeExplainerViewProps> = ({ explanation, isLoading, chunkProgress, retryWaitSeconds, failure, onRetry, onCancel, fileName, code, onDeepDive, deepDiveStatus, onCancelDeepDive, onFollowUp, followUpStatus, onCancelFollowUp, onClearFollowUp, highlightRange, onExplainLines, lineRequestStatus, onCancelExplainLines, diff, review, reviewStatus, onReview, onCancelReview, testFramework, testStatus, onSuggestTests, onCancelSuggestTests, quizStatus, quizAttempts, onGenerateQuiz, onCancelQuiz, onSubmitQuiz, glossaryTerms }) => {
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null);
   const [hoverSource, setHoverSource] = useState<'left' | 'right' | null>(null);
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
@@ -103,6 +114,14 @@ const CodeExplainerView: React.FC<CodeExplainerViewProps> = ({ explanation, isLo
   const [currentBlockIndex, setCurrentBlockIndex] = useState<number | null>(null);
   const [collapsedBlocks, setCollapsedBlocks] = useState<Set<number>>(new Set());
   const [showHelp, setShowHelp] = useState<boolean>(false);
+  const [isContextOpen, setIsContextOpen] = useState<boolean>(false);
+  const [selectedGap, setSelectedGap] = useState<LineRange | null>(null);
+  const [diffLayout, setDiffLayout] = useState<'inline' | 'split'>('inline');
+  const [isFindingsOpen, setIsFindingsOpen] = useState<boolean>(true);
+  const [activeFinding, setActiveFinding] = useState<ReviewFinding | null>(null);
+  // Open test panel, with the case to select first.
+  const [testPanel, setTestPanel] = useState<{ focusCase: number | null } | null>(null);
+  const [isQuizOpen, setIsQuizOpen] = useState<boolean>(false);
 
   const rightPaneRef = useRef<HTMLDivElement>(null);
   const streamingIndicatorRef = useRef<HTMLDivElement>(null);
@@ -122,38 +141,130 @@ const CodeExplainerView: React.FC<CodeExplainerViewProps> = ({ explanation, isLo
     inline: 'nearest',
   };
   
+  const blockRanges = useMemo(
+    () => explanation && code ? locateBlocks(code, explanation.blocks) : [],
+    [code, explanation]
+  );
+
   const lineMetadata = useMemo(() => {
     const metadata = new Map<number, { blockIndex: number }>();
     if (!explanation || !code) return metadata;
 
-    let lastIndex = 0;
-    explanation.blocks.forEach((block, blockIndex) => {
-        const blockContentFromAI = block.code_block;
-        if (!blockContentFromAI) return;
-
-        const match = findBlock(code, blockContentFromAI, lastIndex);
-        
-        if (!match) {
-            console.warn("Could not find code block in source. View might be inaccurate.", { block: blockContentFromAI });
+    blockRanges.forEach((range, blockIndex) => {
+        if (!range) {
+            if (explanation.blocks[blockIndex].code_block) {
+                console.warn("Could not find code block in source. View might be inaccurate.", { block: explanation.blocks[blockIndex].code_block });
+            }
             return;
         }
-
-        const { index: currentIndex, content: verbatimContent } = match;
-
-        const startLine = (code.substring(0, currentIndex).match(/\n/g) || []).length + 1;
-        const numLines = (verbatimContent.match(/\n/g) || []).length;
-        const endLine = startLine + numLines;
-
-        for (let i = startLine; i <= endLine; i++) {
+        for (let i = range.startLine; i <= range.endLine; i++) {
             metadata.set(i, { blockIndex });
         }
-
-        lastIndex = currentIndex + verbatimContent.length;
     });
 
     return metadata;
+  }, [code, explanation, blockRanges]);
+
+  const coverage = useMemo(() => {
+    if (!explanation || !code || explanation.blocks.length === 0) return null;
+    return analyzeCoverage(code, explanation.blocks);
   }, [code, explanation]);
 
+  const unmatchedBlocks = useMemo(() => new Set(coverage?.unmatched), [coverage]);
+
+  // Coverage markers only mean something once every block has arrived.
+  const showCoverage = !!coverage && !isLoading;
+
+  const unmatchedMarkers = useMemo((): UnmatchedMarker[] => {
+    if (!coverage) return [];
+    return coverage.unmatched.map(blockIndex => {
+      const previous = blockRanges.slice(0, blockIndex).reverse().find(range => range !== null);
+      return { blockIndex, line: previous ? previous.endLine + 1 : 1 };
+    });
+  }, [coverage, blockRanges]);
+
+  const unmatchedLines = useMemo(() => new Set(unmatchedMarkers.map(marker => marker.line)), [unmatchedMarkers]);
+
+  // The selected gap as it stands now: it closes once blocks fill it.
+  const activeGap = useMemo(() => {
+    if (!selectedGap || !coverage) return null;
+    return coverage.gaps.find(gap => gap.startLine === selectedGap.startLine && gap.endLine === selectedGap.endLine) ?? null;
+  }, [selectedGap, coverage]);
+
+  // A running request keeps its bar open even once blocks start closing the gap.
+  const gapBarRange = lineRequestStatus.isLoading ? lineRequestStatus.range : activeGap;
+  const gapError = activeGap && lineRequestStatus.error && lineRequestStatus.range?.startLine === activeGap.startLine
+    ? lineRequestStatus.error
+    : null;
+
+  useEffect(() => { setSelectedGap(null); setActiveFinding(null); setTestPanel(null); setIsQuizOpen(false); }, [code]);
+
+  const sortedFindings = useMemo(
+    () => [...(review?.findings ?? [])].sort((a, b) => a.startLine - b.startLine || SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity]),
+    [review]
+  );
+
+  // Most severe first, so the gutter shows the worst finding on each line.
+  const findingsByLine = useMemo(() => {
+    const map = new Map<number, ReviewFinding[]>();
+    for (const finding of [...sortedFindings].sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity])) {
+      for (let line = finding.startLine; line <= finding.endLine; line++) {
+        map.set(line, [...(map.get(line) ?? []), finding]);
+      }
+    }
+    return map;
+  }, [sortedFindings]);
+
+  const selectFinding = (finding: ReviewFinding) => {
+    setActiveFinding(prev => prev === finding ? null : finding);
+    lineRefs.current[finding.startLine]?.scrollIntoView(scrollOptions);
+  };
+
+  const selectGapAt = (line: number) => {
+    const gap = coverage?.gaps.find(g => line >= g.startLine && line <= g.endLine);
+    if (!gap) return;
+    setSelectedGap(gap);
+    lineRefs.current[gap.startLine]?.scrollIntoView(scrollOptions);
+  };
+
+  const focusBlock = (blockIndex: number) => {
+    // With the search cleared, segment and block indices line up again.
+    setSearchQuery('');
+    setCurrentBlockIndex(blockIndex);
+    explanationRefs.current[blockIndex]?.scrollIntoView(scrollOptions);
+  };
+
+  const testsByBlock = useMemo(() => {
+    const map = new Map<number, number[]>();
+    explanation?.tests?.cases.forEach((testCase, i) => {
+      if (testCase.blockIndex !== null) map.set(testCase.blockIndex, [...(map.get(testCase.blockIndex) ?? []), i]);
+    });
+    return map;
+  }, [explanation]);
+
+  const openTests = () => {
+    setTestPanel({ focusCase: null });
+    if (!explanation?.tests && !testStatus.isLoading) onSuggestTests();
+  };
+
+  const glossaryComponents = useMemo(() => glossaryMarkdownComponents(glossaryTerms), [glossaryTerms]);
+  // Hovering re-renders every block, so linked text is cached per glossary.
+  // Streaming text adds an entry per chunk, hence the cap.
+  const linkTerms = useMemo(() => {
+    const cache = new Map<string, string>();
+    return (text: string) => {
+      if (glossaryTerms.length === 0) return text;
+      if (cache.size > 500) cache.clear();
+      if (!cache.has(text)) cache.set(text, linkGlossaryTerms(text, glossaryTerms));
+      return cache.get(text)!;
+    };
+  }, [glossaryTerms]);
+
+  const openQuiz = () => {
+    setIsQuizOpen(true);
+    if (!explanation?.quiz && !quizStatus.isLoading) onGenerateQuiz();
+  };
+
   const blockStartLines = useMemo(() => {
     const map = new Map<number, number>();
     if (!lineMetadata) return map;
@@ -180,12 +291,39 @@ const CodeExplainerView: React.FC<CodeExplainerViewProps> = ({ explanation, isLo
     return explanationSegments.filter(segment =>
       segment.code_block.toLowerCase().includes(query) ||
       segment.explanation.toLowerCase().includes(query) ||
-      (segment.deep_dive_explanation && segment.deep_dive_explanation.toLowerCase().includes(query))
+      (segment.deep_dive_explanation && segment.deep_dive_explanation.toLowerCase().includes(query)) ||
+      (segment.follow_up_thread ?? []).some(message => message.text.toLowerCase().includes(query))
     );
   }, [explanationSegments, searchQuery]);
 
   const matchCount = filteredSegments.length;
 
+  // Scrolls to a highlighted range once, then selects its block as soon as the
+  // explanation has it; the file may still be streaming when the range is set.
+  const handledHighlightRef = useRef<{ range: LineRange; blockFocused: boolean } | null>(null);
+  useEffect(() => {
+    if (!highlightRange) return;
+
+    if (handledHighlightRef.current?.range !== highlightRange) {
+      handledHighlightRef.current = { range: highlightRange, blockFocused: false };
+      lineRefs.current[highlightRange.startLine]?.scrollIntoView(scrollOptions);
+    }
+    if (handledHighlightRef.current.blockFocused) return;
+
+    for (let line = highlightRange.startLine; line <= highlightRange.endLine; line++) {
+      const blockIndex = lineMetadata.get(line)?.blockIndex;
+      if (blockIndex === undefined) continue;
+
+      const segmentIndex = filteredSegments.findIndex(segment => segment.blockIndex === blockIndex);
+      if (segmentIndex !== -1) {
+        setCurrentBlockIndex(segmentIndex);
+        explanationRefs.current[blockIndex]?.scrollIntoView(scrollOptions);
+      }
+      handledHighlightRef.current.blockFocused = true;
+      break;
+    }
+  }, [highlightRange, lineMetadata, filteredSegments]);
+
   useEffect(() => {
     if (hoverSource === 'left' && hoveredIndex !== null && rightPaneRef.current) {
       explanationRefs.current[hoveredIndex]?.scrollIntoView(scrollOptions);
@@ -204,8 +342,9 @@ const CodeExplainerView: React.FC<CodeExplainerViewProps> = ({ explanation, isLo
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      // Don't capture keys when user is typing in search input
-      if (document.activeElement === searchInputRef.current) {
+      // Don't capture keys while the user types anywhere: the search box, a
+      // follow-up question, or a field in a dialog open over the view
+      if (isTypingTarget(e.target)) {
         return;
       }
 
@@ -302,7 +441,11 @@ const CodeExplainerView: React.FC<CodeExplainerViewProps> = ({ explanation, isLo
   }, [filteredSegments, currentBlockIndex, showHelp, onDeepDive]);
 
   const codeLines = useMemo(() => code.split('\n'), [code]);
-  const language = getLanguage(fileName);
+
+  const lineCoverage = useMemo((): LineCoverage[] => codeLines.map((text, i) =>
+    lineMetadata.has(i + 1) ? 'covered' : text.trim() === '' ? 'blank' : 'uncovered'
+  ), [codeLines, lineMetadata]);
+  const language = diff ? 'diff' : getLanguage(fileName);
   const showInitialLoading = isLoading && (!explanation || explanation.blocks.length === 0);
 
    const customCodeStyle = {
@@ -323,16 +466,63 @@ const CodeExplainerView: React.FC<CodeExplainerViewProps> = ({ explanation, isLo
       },
   } as { [key: string]: CSSProperties };
 
+  // Review findings go on top of the explanation's own line styling: an inner
+  // stripe in the colour of the worst finding, and the titles as a tooltip.
   const lineProps = (lineNumber: number): React.HTMLProps<HTMLElement> => {
+      const props = explanationLineProps(lineNumber);
+      const findings = findingsByLine.get(lineNumber);
+      if (!findings) return props;
+
+      const isActive = activeFinding !== null && findings.includes(activeFinding);
+      return {
+          ...props,
+          style: {
+              ...props.style,
+              boxShadow: `inset 3px 0 0 ${SEVERITY_STYLES[findings[0].severity].color}`,
+              ...(isActive ? { backgroundColor: 'rgba(248, 113, 113, 0.12)', opacity: 1 } : {}),
+          },
+          title: [...findings.map(finding => `[${finding.severity}] ${finding.title}`), props.title].filter(Boolean).join('\n'),
+      };
+  };
+
+  const explanationLineProps = (lineNumber: number): React.HTMLProps<HTMLElement> => {
       const meta = lineMetadata.get(lineNumber);
       const style: CSSProperties = { display: 'block', width: '100%', transition: 'background-color 0.2s' };
       const lineContent = codeLines[lineNumber - 1]?.trim();
+      const isHighlighted = highlightRange !== null && lineNumber >= highlightRange.startLine && lineNumber <= highlightRange.endLine;
+
+      if (isHighlighted) {
+          style.backgroundColor = 'rgba(51, 196, 227, 0.15)'; // cyan-accent with opacity
+      }
+
+      // Gutter marker: explained, skipped, or where a block that could not be found belongs.
+      if (showCoverage) {
+          const state = lineCoverage[lineNumber - 1];
+          style.borderLeft = `3px solid ${
+              unmatchedLines.has(lineNumber) ? '#f87171'
+                  : state === 'covered' ? 'rgba(158, 206, 106, 0.4)' // green-accent
+                  : state === 'uncovered' ? '#d4a373' // orange-accent
+                  : 'transparent'
+          }`;
+      }
 
       if (!meta) {
-          if (lineContent !== '') {
+          const isInSelectedGap = activeGap !== null && lineNumber >= activeGap.startLine && lineNumber <= activeGap.endLine;
+          if (isInSelectedGap) {
+            style.backgroundColor = 'rgba(212, 163, 115, 0.12)'; // orange-accent with opacity
+          } else if (lineContent !== '' && !isHighlighted) {
             style.opacity = 0.5;
           }
-          return { style };
+          if (showCoverage && lineContent !== '') {
+            style.cursor = 'pointer';
+            return {
+              ref: (el) => { if (el) lineRefs.current[lineNumber] = el; },
+              style,
+              title: 'Not explained. Click to explain these lines.',
+              onClick: () => selectGapAt(lineNumber),
+            };
+          }
+          return { ref: (el) => { if (el) lineRefs.current[lineNumber] = el; }, style };
       }
 
       const blockIndex = meta.blockIndex;
@@ -390,35 +580,119 @@ const CodeExplainerView: React.FC<CodeExplainerViewProps> = ({ explanation, isLo
           block.deep_dive_explanation,
           ''
         ] : []),
+        ...(block.follow_up_thread?.length ? [
+          '### Follow-up',
+          '',
+          ...block.follow_up_thread.filter(message => !message.error).flatMap(message => [
+            message.role === 'user' ? `> ${message.text.replace(/\n/g, '\n> ')}` : message.text,
+            ''
+          ])
+        ] : []),
         '---',
         ''
       ])
     ].join('\n');
 
-    const blob = new Blob([markdown], { type: 'text/markdown' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${fileName.replace(/\.[^/.]+$/, '')}-explanation-${new Date().toISOString().split('T')[0]}.md`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    downloadBlob(new Blob([markdown], { type: 'text/markdown' }), `${fileName.replace(/\.[^/.]+$/, '')}-explanation-${new Date().toISOString().split('T')[0]}.md`);
+  };
+
+  const canAnnotate = !diff && getCommentStyle(language) !== null;
+
+  // The file itself, with each explanation as a comment above its block.
+  const exportAnnotated = () => {
+    if (!explanation || explanation.blocks.length === 0) return;
+    downloadBlob(new Blob([annotateSource(code, explanation.blocks, blockRanges, language)], { type: 'text/plain' }), fileName);
   };
 
   return (
     <div className="grid grid-cols-2 h-full font-mono">
-      <div className="col-span-1 h-full overflow-auto bg-gray-900">
-        <SyntaxHighlighter
-            language={language}
-            style={customCodeStyle}
-            showLineNumbers
-            wrapLines={true}
-            lineProps={lineProps}
-            PreTag="div"
-        >
-            {code}
-        </SyntaxHighlighter>
+      <div className="col-span-1 h-full flex overflow-hidden bg-gray-900">
+        <div className="flex-1 min-w-0 h-full overflow-auto">
+          <div className="sticky top-0 z-10">
+            {diff && (
+              <div className="flex items-center gap-3 px-4 py-2 bg-gray-800/95 border-b border-gray-700 font-sans text-sm text-gray-400">
+                <span className="min-w-0 truncate">
+                  <span className="font-semibold text-blue-light capitalize">{diff.status}</span>
+                  {diff.oldPath && <> from <span className="font-mono">{diff.oldPath}</span></>}
+                </span>
+                <div className="ml-auto flex flex-shrink-0 rounded-md overflow-hidden border border-gray-600">
+                  {(['inline', 'split'] as const).map(layout => (
+                    <button
+                      key={layout}
+                      onClick={() => setDiffLayout(layout)}
+                      className={`px-3 py-1 transition-colors ${diffLayout === layout ? 'bg-gray-600 text-white' : 'hover:text-white'}`}
+                    >
+                      {layout === 'inline' ? 'Inline' : 'Side by side'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            {gapBarRange && (
+              <div className="flex items-center gap-3 px-4 py-2 bg-gray-800/95 border-b border-orange-accent/40 font-sans text-sm text-gray-300">
+                {lineRequestStatus.isLoading ? (
+                  <>
+                    <SpinnerIcon className="w-4 h-4 text-blue-accent" />
+                    <span>Explaining lines {gapBarRange.startLine}-{gapBarRange.endLine}...</span>
+                    <button
+                      onClick={onCancelExplainLines}
+                      className="ml-auto px-3 py-1 text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <span className="min-w-0">
+                      {gapError
+                        ? <span className="text-red-300">Could not explain lines {gapBarRange.startLine}-{gapBarRange.endLine}.</span>
+                        : <>Lines {gapBarRange.startLine}-{gapBarRange.endLine} are not explained.</>}
+                    </span>
+                    <button
+                      onClick={() => onExplainLines(gapBarRange)}
+                      className="ml-auto flex-shrink-0 px-3 py-1 font-semibold text-gray-900 bg-cyan-accent hover:bg-cyan-accent/80 rounded-md transition-colors"
+                      title={gapError ? gapError.replace(/\*\*/g, '') : undefined}
+                    >
+                      {gapError ? 'Try again' : 'Explain these lines'}
+                    </button>
+                    <button
+                      onClick={() => setSelectedGap(null)}
+                      className="flex-shrink-0 px-2 py-1 text-gray-400 hover:text-white transition-colors"
+                      title="Dismiss"
+                    >
+                      ✕
+                    </button>
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+          {diff && diffLayout === 'split' ? (
+            <DiffSideBySide content={code} lineProps={lineProps} />
+          ) : (
+            <SyntaxHighlighter
+                language={language}
+                style={customCodeStyle}
+                showLineNumbers
+                wrapLines={true}
+                lineProps={lineProps}
+                PreTag="div"
+            >
+                {code}
+            </SyntaxHighlighter>
+          )}
+        </div>
+        {showCoverage && (
+          <CoverageMinimap
+            lines={lineCoverage}
+            unmatched={unmatchedMarkers}
+            onSelectLine={line => {
+              if (lineCoverage[line - 1] === 'uncovered') selectGapAt(line);
+              else lineRefs.current[line]?.scrollIntoView(scrollOptions);
+            }}
+            onSelectBlock={focusBlock}
+          />
+        )}
       </div>
       
       <div ref={rightPaneRef} className="col-span-1 h-full overflow-y-auto bg-gray-800 border-l border-gray-700">
@@ -426,20 +700,179 @@ const CodeExplainerView: React.FC<CodeExplainerViewProps> = ({ explanation, isLo
             <div className="pb-4 mb-4 border-b border-gray-700">
                 <div className="flex items-start justify-between mb-3">
                   <div>
-                    <h2 className="text-xl font-bold text-blue-light">Code Explanations</h2>
+                    <h2 className="text-xl font-bold text-blue-light">{diff ? 'Change Explanations' : 'Code Explanations'}</h2>
                     <p className="text-sm text-gray-500">Hover over code on the left or an explanation below.</p>
+                    {explanation?.model && (
+                      <p className="text-xs text-gray-600 mt-1">Generated by {explanation.model}</p>
+                    )}
+                    {coverage && !isLoading && (
+                      <p
+                        className={`text-xs mt-1 ${coverage.percent < 100 ? 'text-orange-accent' : 'text-gray-600'}`}
+                        title="Share of non-blank lines that some block explains"
+                      >
+                        Coverage {coverage.percent}%
+                        {coverage.gaps.length > 0 && <> · not explained: lines {coverage.gaps.map((gap, i) => (
+                          <React.Fragment key={gap.startLine}>
+                            {i > 0 && ', '}
+                            <button onClick={() => selectGapAt(gap.startLine)} className="underline hover:text-white">{formatRange(gap)}</button>
+                          </React.Fragment>
+                        ))}</>}
+                        {coverage.unmatched.length > 0 && ` · ${coverage.unmatched.length} ${coverage.unmatched.length === 1 ? 'block' : 'blocks'} not found in the source`}
+                      </p>
+                    )}
                   </div>
-                  {explanation && explanation.blocks.length > 0 && (
+                  <div className="flex flex-shrink-0 gap-2">
+                    {!diff && explanation && explanation.blocks.length > 0 && !explanation.incomplete && !isLoading && (
+                      <button
+                        onClick={openQuiz}
+                        className="px-3 py-2 text-sm text-cyan-accent hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+                        title="Check your understanding of these explanations with a short quiz"
+                      >
+                        Quiz
+                      </button>
+                    )}
+                    {!diff && testFramework && explanation && explanation.blocks.length > 0 && !explanation.incomplete && !isLoading && (
+                      <button
+                        onClick={openTests}
+                        className="px-3 py-2 text-sm text-green-accent hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+                        title={`Suggest ${testFramework} tests for this file, linked to the blocks they cover`}
+                      >
+                        {explanation.tests ? `Tests (${explanation.tests.cases.length})` : 'Suggest Tests'}
+                      </button>
+                    )}
+                    {!diff && (
+                      <button
+                        onClick={onReview}
+                        disabled={reviewStatus.isBusy || !code.trim()}
+                        className="px-3 py-2 text-sm text-orange-accent hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+                        title="Review this file for bugs, security, performance and style problems"
+                      >
+                        {review && !review.incomplete ? 'Review Again' : 'Review'}
+                      </button>
+                    )}
+                    {explanation && explanation.blocks.length > 0 && (
+                      <button
+                        onClick={exportAsMarkdown}
+                        className="flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+                        title="Export all explanations as Markdown"
+                      >
+                        <DownloadIcon className="w-4 h-4" />
+                        <span>Export MD</span>
+                      </button>
+                    )}
+                    {canAnnotate && explanation && explanation.blocks.length > 0 && (
+                      <button
+                        onClick={exportAnnotated}
+                        className="flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+                        title="Download the source file with each explanation as a comment above its block"
+                      >
+                        <DownloadIcon className="w-4 h-4" />
+                        <span>Annotated</span>
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {(review || reviewStatus.isLoading || reviewStatus.failure) && (
+                  <div className="mb-3 text-sm">
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setIsFindingsOpen(prev => !prev)}
+                        className="text-gray-400 hover:text-white transition-colors"
+                      >
+                        {isFindingsOpen ? '▾' : '▸'} Review findings ({sortedFindings.length})
+                      </button>
+                      {reviewStatus.isLoading && (
+                        <>
+                          <SpinnerIcon className="w-4 h-4 text-orange-accent" />
+                          <span className="text-xs text-gray-500">
+                            Reviewing...{reviewStatus.chunk ? ` (part ${reviewStatus.chunk.index + 1} of ${reviewStatus.chunk.total})` : ''}
+                          </span>
+                          <button
+                            onClick={onCancelReview}
+                            className="ml-auto px-2 py-0.5 text-xs text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+                          >
+                            Stop
+                          </button>
+                        </>
+                      )}
+                      {!reviewStatus.isLoading && review?.incomplete && (
+                        <span className="text-xs text-orange-accent">(stopped before it finished)</span>
+                      )}
+                    </div>
+                    {isFindingsOpen && (
+                      <div className="mt-2 space-y-1">
+                        {reviewStatus.failure && !reviewStatus.isLoading && (
+                          <div className="p-3 rounded-md border border-red-500/40 bg-red-900/20 prose prose-invert max-w-none prose-sm prose-p:text-red-300 prose-strong:text-red-200">
+                            <ReactMarkdown remarkPlugins={[remarkGfm]}>{reviewStatus.failure}</ReactMarkdown>
+                          </div>
+                        )}
+                        {review && !review.incomplete && !reviewStatus.isLoading && sortedFindings.length === 0 && (
+                          <p className="text-xs text-gray-500">No problems found.</p>
+                        )}
+                        {review?.invalid ? (
+                          <p className="text-xs text-orange-accent">
+                            {review.invalid} {review.invalid === 1 ? 'finding was' : 'findings were'} malformed and left out.
+                          </p>
+                        ) : null}
+                        {sortedFindings.map((finding, i) => {
+                          const isActive = activeFinding === finding;
+                          return (
+                            <div key={i} className={`rounded-md border ${isActive ? 'border-gray-600 bg-gray-900/40' : 'border-transparent'}`}>
+                              <button
+                                onClick={() => selectFinding(finding)}
+                                className="w-full flex items-center gap-2 px-2 py-1 text-left hover:bg-gray-700/50 rounded-md transition-colors"
+                              >
+                                <SeverityBadge severity={finding.severity} />
+                                <span className="text-xs text-gray-500 capitalize">{finding.category}</span>
+                                <span className="min-w-0 flex-1 text-gray-300 truncate">{finding.title}</span>
+                                <span className="flex-shrink-0 font-mono text-xs text-gray-500">{formatRange(finding)}</span>
+                              </button>
+                              {isActive && (
+                                <div className="px-3 pb-3 prose prose-invert max-w-none prose-sm prose-p:text-blue-light/90 prose-p:my-2 prose-strong:text-orange-accent">
+                                  <ReactMarkdown remarkPlugins={[remarkGfm]}>{finding.rationale}</ReactMarkdown>
+                                  {finding.suggestedFix && (
+                                    <>
+                                      <p className="text-xs font-semibold text-cyan-accent">Suggested fix</p>
+                                      <ReactMarkdown remarkPlugins={[remarkGfm]}>{finding.suggestedFix}</ReactMarkdown>
+                                    </>
+                                  )}
+                                </div>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                )}
+                {explanation?.context && explanation.context.length > 0 && (
+                  <div className="mb-3 text-sm">
                     <button
-                      onClick={exportAsMarkdown}
-                      className="flex items-center gap-2 px-3 py-2 text-sm text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
-                      title="Export all explanations as Markdown"
+                      onClick={() => setIsContextOpen(prev => !prev)}
+                      className="text-gray-400 hover:text-white transition-colors"
+                      title="Summaries and exported signatures of imported files that were sent with the request"
                     >
-                      <DownloadIcon className="w-4 h-4" />
-                      <span>Export MD</span>
+                      {isContextOpen ? '▾' : '▸'} Context used ({explanation.context.length} imported {explanation.context.length === 1 ? 'file' : 'files'})
                     </button>
-                  )}
-                </div>
+                    {isContextOpen && (
+                      <div className="mt-2 space-y-3 p-3 rounded-md bg-gray-900/40 border border-gray-700">
+                        {explanation.context.map(entry => (
+                          <div key={entry.path}>
+                            <p className="font-mono text-xs text-cyan-accent">{entry.path}</p>
+                            {entry.summary && <p className="text-xs text-gray-400 mt-1">{entry.summary}</p>}
+                            {entry.signatures.length > 0 && (
+                              <ul className="mt-1 space-y-0.5">
+                                {entry.signatures.map((signature, i) => (
+                                  <li key={i} className="font-mono text-xs text-gray-500 truncate" title={signature}>{signature}</li>
+                                ))}
+                              </ul>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
                 {explanation && explanation.blocks.length > 0 && (
                   <div className="relative">
                     <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
@@ -469,6 +902,18 @@ const CodeExplainerView: React.FC<CodeExplainerViewProps> = ({ explanation, isLo
                     <SpinnerIcon className="w-12 h-12 text-blue-accent" />
                     <p className="mt-4 text-lg font-sans">Analyzing {fileName}...</p>
                     <p className="text-sm font-sans">Explanations will appear here as they're generated.</p>
+                    {chunkProgress && (
+                      <p className="text-sm font-sans mt-2 text-gray-400">{chunkLabel(chunkProgress)}</p>
+                    )}
+                    {retryWaitSeconds !== null && (
+                      <p className="text-sm font-sans mt-2 text-orange-accent">Waiting {retryWaitSeconds}s for rate limit...</p>
+                    )}
+                    <button
+                      onClick={onCancel}
+                      className="mt-4 px-4 py-2 text-sm font-sans text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+                    >
+                      Cancel
+                    </button>
                 </div>
             )}
 
@@ -493,8 +938,18 @@ const CodeExplainerView: React.FC<CodeExplainerViewProps> = ({ explanation, isLo
                           : 'bg-transparent border-transparent'
                     }`}
                  >
+                    {segment.error && (
+                      <div className="mb-3 p-3 rounded-md border border-red-500/40 bg-red-900/20 text-sm text-red-300 whitespace-pre-wrap break-words">
+                        <span className="font-semibold">Invalid block from the model:</span> {segment.error}
+                      </div>
+                    )}
+                    {unmatchedBlocks.has(blockIndex) && (
+                      <div className="mb-3 p-3 rounded-md border border-orange-accent/40 bg-gray-900/30 text-sm text-orange-accent">
+                        This block's code is not in the file. The model changed or invented it.
+                      </div>
+                    )}
                     <div className="prose prose-invert max-w-none prose-sm prose-p:text-blue-light prose-p:mb-6 prose-headings:text-cyan-accent prose-strong:text-orange-accent prose-code:text-orange-accent prose-code:before:content-[''] prose-code:after:content-[''] prose-li:text-blue-light prose-li:my-3 prose-ul:my-6 prose-ol:my-6">
-                      <ReactMarkdown remarkPlugins={[remarkGfm]}>{blockExplanation.trim()}</ReactMarkdown>
+                      <ReactMarkdown remarkPlugins={[remarkGfm]} components={glossaryComponents}>{linkTerms(blockExplanation.trim())}</ReactMarkdown>
                     </div>
                     <div className="mt-3 flex items-center gap-2">
                         {segment.deep_dive_explanation && !isCollapsed ? (
@@ -502,9 +957,20 @@ const CodeExplainerView: React.FC<CodeExplainerViewProps> = ({ explanation, isLo
                                 <h4 className="font-bold text-sm text-cyan-accent flex items-center mb-2">
                                     <SparklesIcon className="w-4 h-4 mr-2" />
                                     Deep Dive
+                                    {segment.deep_dive_incomplete && (
+                                      <span className="ml-2 text-xs font-normal text-orange-accent">(cancelled, incomplete)</span>
+                                    )}
+                                    {isDeepDiving && (
+                                      <button
+                                        onClick={onCancelDeepDive}
+                                        className="ml-auto text-xs font-normal text-gray-400 hover:text-white py-0.5 px-2 rounded-md bg-gray-700/50 hover:bg-gray-700 transition-colors"
+                                      >
+                                        Stop
+                                      </button>
+                                    )}
                                 </h4>
                                 <div className="prose prose-invert max-w-none prose-sm prose-p:text-blue-light/90 prose-p:mb-6 prose-strong:text-orange-accent prose-li:text-blue-light prose-li:my-3 prose-ul:my-6 prose-ol:my-6">
-                                    <ReactMarkdown remarkPlugins={[remarkGfm]}>{segment.deep_dive_explanation}</ReactMarkdown>
+                                    <ReactMarkdown remarkPlugins={[remarkGfm]} components={glossaryComponents}>{linkTerms(segment.deep_dive_explanation)}</ReactMarkdown>
                                     {isDeepDiving && <span className="inline-block w-2 h-4 bg-blue-light animate-pulse ml-1"></span>}
                                 </div>
                             </div>
@@ -536,6 +1002,14 @@ const CodeExplainerView: React.FC<CodeExplainerViewProps> = ({ explanation, isLo
                             </button>
                           )
                         )}
+                        {isDeepDiving && !segment.deep_dive_explanation && (
+                          <button
+                              onClick={onCancelDeepDive}
+                              className="text-sm text-gray-400 hover:text-white font-semibold py-1 px-2 rounded-md bg-gray-700/50 hover:bg-gray-700 transition-colors"
+                          >
+                              Stop
+                          </button>
+                        )}
                         {blockExplanation.trim() && (
                           <button
                               onClick={() => copyToClipboard(blockIndex, segment.code_block, blockExplanation)}
@@ -546,13 +1020,72 @@ const CodeExplainerView: React.FC<CodeExplainerViewProps> = ({ explanation, isLo
                           </button>
                         )}
                     </div>
+                    {testsByBlock.has(blockIndex) && (
+                      <div className="mt-2 flex flex-wrap items-center gap-1.5 text-xs">
+                        <span className="text-gray-500">Tested by</span>
+                        {testsByBlock.get(blockIndex)!.map(caseIndex => (
+                          <button
+                            key={caseIndex}
+                            onClick={() => setTestPanel({ focusCase: caseIndex })}
+                            className="px-2 py-0.5 rounded-md bg-gray-700/50 hover:bg-gray-700 text-green-accent hover:text-white transition-colors truncate max-w-[16rem]"
+                            title={explanation!.tests!.cases[caseIndex].description}
+                          >
+                            {explanation!.tests!.cases[caseIndex].name}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {blockExplanation.trim() && !segment.error && (
+                      <FollowUpThread
+                        thread={segment.follow_up_thread ?? []}
+                        isStreaming={followUpStatus.isLoading && followUpStatus.blockIndex === blockIndex}
+                        isBusy={followUpStatus.isLoading}
+                        onAsk={question => onFollowUp(blockIndex, question)}
+                        onStop={onCancelFollowUp}
+                        onClear={() => onClearFollowUp(blockIndex)}
+                      />
+                    )}
                  </div>
                );
             })}
              {isLoading && !showInitialLoading && (
                 <div ref={streamingIndicatorRef} className="flex items-center p-4 text-gray-500">
                     <SpinnerIcon className="w-5 h-5 mr-3" />
-                    <span>Generating explanation...</span>
+                    <span>
+                      {retryWaitSeconds !== null
+                        ? `Waiting ${retryWaitSeconds}s for rate limit...`
+                        : `Generating explanation...${chunkProgress ? ` ${chunkLabel(chunkProgress)}` : ''}`}
+                    </span>
+                    <button
+                      onClick={onCancel}
+                      className="ml-auto px-3 py-1 text-sm text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+                    >
+                      Cancel
+                    </button>
+                </div>
+            )}
+            {!isLoading && explanation?.incomplete && (
+                <div className="flex items-center justify-between gap-3 p-4 rounded-lg border border-orange-accent/40 bg-gray-900/30 text-sm text-gray-400">
+                    <span>Cancelled before it finished. Only part of the file is explained.</span>
+                    <button
+                      onClick={onRetry}
+                      className="flex-shrink-0 px-3 py-1 text-sm font-semibold text-gray-900 bg-cyan-accent hover:bg-cyan-accent/80 rounded-md transition-colors"
+                    >
+                      Regenerate
+                    </button>
+                </div>
+            )}
+            {!isLoading && failure && (
+                <div className="p-4 rounded-lg border border-red-500/40 bg-red-900/20">
+                    <div className="prose prose-invert max-w-none prose-sm prose-p:text-red-300 prose-strong:text-red-200">
+                      <ReactMarkdown remarkPlugins={[remarkGfm]}>{failure}</ReactMarkdown>
+                    </div>
+                    <button
+                      onClick={onRetry}
+                      className="mt-3 px-4 py-2 text-sm font-semibold text-gray-900 bg-cyan-accent hover:bg-cyan-accent/80 rounded-md transition-colors"
+                    >
+                      Retry
+                    </button>
                 </div>
             )}
             {!isLoading && explanation?.blocks.length === 0 && !showInitialLoading &&(
@@ -562,6 +1095,42 @@ const CodeExplainerView: React.FC<CodeExplainerViewProps> = ({ explanation, isLo
             )}
          </div>
 
+         {testPanel && testFramework && (
+           <TestSuggestionPanel
+             suggestion={explanation?.tests ?? null}
+             framework={testFramework}
+             isLoading={testStatus.isLoading}
+             error={testStatus.error}
+             focusCase={testPanel.focusCase}
+             onSelectBlock={blockIndex => {
+               setTestPanel(null);
+               focusBlock(blockIndex);
+             }}
+             onRegenerate={onSuggestTests}
+             onStop={onCancelSuggestTests}
+             onClose={() => setTestPanel(null)}
+           />
+         )}
+
+         {isQuizOpen && (
+           <QuizPanel
+             quiz={explanation?.quiz ?? null}
+             fileName={fileName}
+             language={language}
+             isLoading={quizStatus.isLoading}
+             error={quizStatus.error}
+             attempts={quizAttempts}
+             onSubmit={onSubmitQuiz}
+             onSelectBlock={blockIndex => {
+               setIsQuizOpen(false);
+               focusBlock(blockIndex);
+             }}
+             onRegenerate={onGenerateQuiz}
+             onStop={onCancelQuiz}
+             onClose={() => setIsQuizOpen(false)}
+           />
+         )}
+
          {showHelp && (
            <div
              className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
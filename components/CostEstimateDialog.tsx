@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import type { ProcessAllEstimate } from '../utils/costEstimate';
+import { formatTokens, formatPrice } from '../utils/costEstimate';
+
+interface CostEstimateDialogProps {
+  estimate: ProcessAllEstimate;
+  summaryTokenLimit: number;
+  onSummaryTokenLimitChange: (limit: number) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const CostEstimateDialog: React.FC<CostEstimateDialogProps> = ({ estimate, summaryTokenLimit, onSummaryTokenLimitChange, onConfirm, onCancel }) => {
+  const [limitInput, setLimitInput] = useState(String(summaryTokenLimit));
+  const model = estimate.levels.find(level => level.level === estimate.level)?.model;
+
+  const commitLimit = () => {
+    const parsed = Number(limitInput);
+    if (Number.isFinite(parsed) && parsed > 0) {
+      onSummaryTokenLimitChange(Math.round(parsed));
+    } else {
+      setLimitInput(String(summaryTokenLimit));
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+      onClick={onCancel}
+    >
+      <div
+        className="bg-gray-800 border border-gray-700 rounded-lg p-6 w-full max-w-lg shadow-2xl font-sans"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-bold text-cyan-accent mb-1">Analyze {estimate.files.length} Files?</h3>
+        <p className="text-xs text-gray-500 mb-4">
+          {model} · {estimate.isExact ? 'input counted by the model' : 'approximate, about 4 characters per token'} · output is a rough guess
+        </p>
+
+        <div className="grid grid-cols-3 gap-3 mb-4 text-center">
+          <div className="p-3 bg-gray-900/50 rounded-md">
+            <div className="text-xs text-gray-500">Input</div>
+            <div className="text-lg font-bold text-blue-light">{formatTokens(estimate.inputTokens)}</div>
+          </div>
+          <div className="p-3 bg-gray-900/50 rounded-md">
+            <div className="text-xs text-gray-500">Output (est.)</div>
+            <div className="text-lg font-bold text-blue-light">{formatTokens(estimate.outputTokens)}</div>
+          </div>
+          <div className="p-3 bg-gray-900/50 rounded-md">
+            <div className="text-xs text-gray-500">Price (est.)</div>
+            <div className="text-lg font-bold text-orange-accent">{formatPrice(estimate.price)}</div>
+          </div>
+        </div>
+
+        <div className="mb-4">
+          <h4 className="text-xs font-semibold text-gray-400 mb-1">By level</h4>
+          <div className="space-y-1 text-sm">
+            {estimate.levels.map(level => (
+              <div key={level.level} className={`flex justify-between ${level.level === estimate.level ? 'text-cyan-accent' : 'text-gray-400'}`}>
+                <span>{level.name} <span className="text-gray-500">({level.model})</span></span>
+                <span>{formatTokens(level.inputTokens)} in · {formatTokens(level.outputTokens)} out · {formatPrice(level.price)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="mb-4">
+          <h4 className="text-xs font-semibold text-gray-400 mb-1">By file</h4>
+          <div className="max-h-40 overflow-y-auto space-y-1 text-xs text-gray-400">
+            {estimate.files.map(file => (
+              <div key={file.path} className="flex justify-between gap-3">
+                <span className="truncate">{file.path}</span>
+                <span className="flex-shrink-0">{formatTokens(file.inputTokens)} in · {formatTokens(file.outputTokens)} out</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <label className="flex items-center justify-between gap-3 pt-4 border-t border-gray-700 text-xs text-gray-400">
+          <span>Only auto-generate summaries for projects under</span>
+          <span className="flex items-center gap-1">
+            <input
+              type="number"
+              min={1}
+              value={limitInput}
+              onChange={(e) => setLimitInput(e.target.value)}
+              onBlur={commitLimit}
+              className="w-24 px-2 py-1 bg-gray-700 border border-gray-600 rounded text-gray-200 focus:outline-none focus:border-blue-accent"
+            />
+            tokens
+          </span>
+        </label>
+
+        <div className="mt-4 flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className="flex-1 px-4 py-2 bg-green-accent hover:bg-opacity-80 text-gray-900 font-semibold rounded transition-colors"
+          >
+            Analyze
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CostEstimateDialog;
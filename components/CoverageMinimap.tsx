@@ -0,0 +1,65 @@
+import React, { useMemo } from 'react';
+
+export type LineCoverage = 'covered' | 'uncovered' | 'blank';
+
+// A block whose code was not found, drawn where it would have been: right
+// after the last block before it that was found.
+export interface UnmatchedMarker {
+  line: number;
+  blockIndex: number;
+}
+
+interface CoverageMinimapProps {
+  lines: LineCoverage[];
+  unmatched: UnmatchedMarker[];
+  onSelectLine: (line: number) => void;
+  onSelectBlock: (blockIndex: number) => void;
+}
+
+const RUN_COLORS: Record<LineCoverage, string> = {
+  covered: 'bg-green-accent/40',
+  uncovered: 'bg-orange-accent',
+  blank: 'bg-transparent',
+};
+
+// The whole file scaled to the height of the pane, one run per stretch of
+// lines in the same state.
+const CoverageMinimap: React.FC<CoverageMinimapProps> = ({ lines, unmatched, onSelectLine, onSelectBlock }) => {
+  const runs = useMemo(() => {
+    const result: { state: LineCoverage; startLine: number; endLine: number }[] = [];
+    lines.forEach((state, i) => {
+      const last = result[result.length - 1];
+      if (last && last.state === state) last.endLine = i + 1;
+      else result.push({ state, startLine: i + 1, endLine: i + 1 });
+    });
+    return result;
+  }, [lines]);
+
+  const total = Math.max(lines.length, 1);
+  const top = (line: number) => `${((line - 1) / total) * 100}%`;
+
+  return (
+    <div className="relative w-3 flex-shrink-0 h-full bg-gray-800/60 border-l border-gray-700" aria-label="Explanation coverage">
+      {runs.filter(run => run.state !== 'blank').map(run => (
+        <button
+          key={run.startLine}
+          onClick={() => onSelectLine(run.startLine)}
+          className={`absolute left-0.5 right-0.5 ${RUN_COLORS[run.state]} hover:brightness-150`}
+          style={{ top: top(run.startLine), height: `max(2px, ${((run.endLine - run.startLine + 1) / total) * 100}%)` }}
+          title={`Lines ${run.startLine}-${run.endLine}: ${run.state === 'covered' ? 'explained' : 'not explained'}`}
+        />
+      ))}
+      {unmatched.map(marker => (
+        <button
+          key={`unmatched-${marker.blockIndex}`}
+          onClick={() => onSelectBlock(marker.blockIndex)}
+          className="absolute left-0 right-0 h-1 bg-red-400"
+          style={{ top: top(marker.line) }}
+          title={`Block ${marker.blockIndex + 1} could not be found in the file`}
+        />
+      ))}
+    </div>
+  );
+};
+
+export default CoverageMinimap;
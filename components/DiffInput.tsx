@@ -0,0 +1,247 @@
+import React, { useRef, useState } from 'react';
+import type { FileNode } from '../types';
+import { validateAndFilterFiles, validatePastedContent, FILE_LIMITS } from '../utils/fileValidation';
+import { buildDiffTree, compareFileSets, compareVersions, parsePatch, type FileDiff } from '../utils/diff';
+
+interface DiffInputProps {
+  onProjectReady: (files: FileNode) => void;
+  onCancel: () => void;
+}
+
+type DiffSource = 'versions' | 'patch';
+
+// One side of a before/after comparison: pasted text, or files read from an upload.
+interface VersionSide {
+  text: string;
+  files: Map<string, string> | null;
+  label: string;
+}
+
+const EMPTY_SIDE: VersionSide = { text: '', files: null, label: '' };
+
+// Turns a file input into a folder picker. React's input props don't declare
+// these attributes, so they are spread in rather than written as JSX props.
+const FOLDER_INPUT_ATTRIBUTES = { webkitdirectory: '', directory: '' };
+
+const readFiles = async (fileList: FileList): Promise<{ files: Map<string, string>; label: string } | null> => {
+  const validation = await validateAndFilterFiles(fileList);
+  if (validation.errors.length > 0) {
+    alert(`Upload Error:\n\n${validation.errors.join('\n')}`);
+    return null;
+  }
+
+  const files = new Map<string, string>();
+  await Promise.all(validation.files.map(async file => {
+    const path = file.webkitRelativePath || file.name;
+    files.set(path, await file.text());
+  }));
+
+  // Folder uploads start every path with the folder's name, which differs
+  // between the two versions, so it is dropped to line the files up.
+  const paths = [...files.keys()];
+  const top = paths[0]?.split('/')[0];
+  const isFolder = paths.length > 0 && paths.every(path => path.includes('/') && path.split('/')[0] === top);
+  if (!isFolder) return { files, label: paths.length === 1 ? paths[0] : `${paths.length} files` };
+
+  const stripped = new Map([...files].map(([path, content]) => [path.slice(top.length + 1), content]));
+  return { files: stripped, label: `${top}/ (${stripped.size} files)` };
+};
+
+const inputClass = 'w-full px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:border-blue-accent';
+
+const DiffInput: React.FC<DiffInputProps> = ({ onProjectReady, onCancel }) => {
+  const [source, setSource] = useState<DiffSource>('versions');
+  const [fileName, setFileName] = useState('file.txt');
+  const [before, setBefore] = useState<VersionSide>(EMPTY_SIDE);
+  const [after, setAfter] = useState<VersionSide>(EMPTY_SIDE);
+  const [patch, setPatch] = useState('');
+
+  const fileInputRefs = {
+    before: useRef<HTMLInputElement>(null),
+    after: useRef<HTMLInputElement>(null),
+    beforeFolder: useRef<HTMLInputElement>(null),
+    afterFolder: useRef<HTMLInputElement>(null),
+    patch: useRef<HTMLInputElement>(null),
+  };
+
+  const handleSideUpload = (side: 'before' | 'after') => async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const fileList = event.target.files;
+    if (fileList && fileList.length > 0) {
+      const result = await readFiles(fileList);
+      if (result) {
+        const update = side === 'before' ? setBefore : setAfter;
+        // A single file fills the text box so it can still be edited.
+        if (result.files.size === 1 && !result.label.includes('/')) {
+          const [[path, content]] = [...result.files];
+          update({ text: content, files: null, label: '' });
+          setFileName(path);
+        } else {
+          update({ text: '', files: result.files, label: result.label });
+        }
+      }
+    }
+    event.target.value = '';
+  };
+
+  const handlePatchUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) setPatch(await file.text());
+    event.target.value = '';
+  };
+
+  const buildDiffs = (): { diffs: FileDiff[]; name: string } | null => {
+    if (source === 'patch') {
+      const diffs = parsePatch(patch);
+      if (diffs.length === 0) {
+        alert('No file changes found. Paste a unified diff or git patch with ---/+++ headers and @@ hunks.');
+        return null;
+      }
+      return { diffs, name: diffs.length === 1 ? diffs[0].path : 'patch' };
+    }
+
+    if (before.files || after.files) {
+      if (!before.files || !after.files) {
+        alert('Upload both versions as files or folders, or paste both as text.');
+        return null;
+      }
+      return { diffs: compareFileSets(before.files, after.files), name: after.label.split('/')[0] || 'project' };
+    }
+
+    const path = fileName.trim() || 'file.txt';
+    const diff = compareVersions(path, before.text, after.text);
+    return { diffs: diff.hunks.length > 0 ? [diff] : [], name: path };
+  };
+
+  const handleSubmit = () => {
+    for (const text of [before.text, after.text, patch]) {
+      const validation = validatePastedContent(text);
+      if (!validation.isValid) {
+        alert(`Validation Error:\n\n${validation.error}`);
+        return;
+      }
+    }
+
+    const result = buildDiffs();
+    if (!result) return;
+    if (result.diffs.length === 0) {
+      alert('The two versions are identical.');
+      return;
+    }
+    if (result.diffs.length > FILE_LIMITS.MAX_FILES) {
+      alert(`Error: Too many changed files (${result.diffs.length}). This tool supports up to ${FILE_LIMITS.MAX_FILES} files at once.`);
+      return;
+    }
+
+    onProjectReady(buildDiffTree(result.diffs, `Diff: ${result.name}`));
+  };
+
+  const canSubmit = source === 'patch'
+    ? patch.trim() !== ''
+    : (before.text.trim() !== '' || before.files !== null) && (after.text.trim() !== '' || after.files !== null);
+
+  const renderSide = (side: 'before' | 'after', value: VersionSide, update: (side: VersionSide) => void) => (
+    <div className="text-left flex-1 min-w-0">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-gray-300">{side === 'before' ? 'Before' : 'After'}</span>
+        <div className="flex gap-2 text-xs">
+          <button onClick={() => fileInputRefs[side].current?.click()} className="text-gray-400 hover:text-white">Upload file</button>
+          <button onClick={() => fileInputRefs[side === 'before' ? 'beforeFolder' : 'afterFolder'].current?.click()} className="text-gray-400 hover:text-white">Upload folder</button>
+        </div>
+      </div>
+      <input type="file" ref={fileInputRefs[side]} onChange={handleSideUpload(side)} className="hidden" />
+      <input
+        type="file"
+        ref={fileInputRefs[side === 'before' ? 'beforeFolder' : 'afterFolder']}
+        onChange={handleSideUpload(side)}
+        className="hidden"
+        {...FOLDER_INPUT_ATTRIBUTES}
+      />
+      {value.files ? (
+        <div className="flex items-center justify-between px-3 py-2 bg-gray-800 border border-gray-600 rounded-lg text-sm text-gray-300">
+          <span className="truncate">{value.label}</span>
+          <button onClick={() => update(EMPTY_SIDE)} className="ml-2 text-gray-400 hover:text-white" title="Clear">✕</button>
+        </div>
+      ) : (
+        <textarea
+          value={value.text}
+          onChange={(e) => update({ ...EMPTY_SIDE, text: e.target.value })}
+          placeholder={`Paste the ${side} version...`}
+          rows={12}
+          className={`${inputClass} font-mono text-sm resize-vertical`}
+        />
+      )}
+    </div>
+  );
+
+  return (
+    <div className="w-full space-y-4">
+      <div className="flex justify-center gap-2 text-sm">
+        {(['versions', 'patch'] as DiffSource[]).map(option => (
+          <button
+            key={option}
+            onClick={() => setSource(option)}
+            className={`px-4 py-1.5 rounded-md transition-colors ${source === option ? 'bg-blue-accent text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+          >
+            {option === 'versions' ? 'Before and after' : 'Unified diff or patch'}
+          </button>
+        ))}
+      </div>
+
+      {source === 'versions' ? (
+        <>
+          {!before.files && !after.files && (
+            <div className="text-left">
+              <label htmlFor="diff-filename" className="block text-sm font-medium text-gray-300 mb-2">Filename:</label>
+              <input
+                id="diff-filename"
+                type="text"
+                value={fileName}
+                onChange={(e) => setFileName(e.target.value)}
+                placeholder="e.g., src/app.ts"
+                className={inputClass}
+              />
+            </div>
+          )}
+          <div className="flex flex-col sm:flex-row gap-3">
+            {renderSide('before', before, setBefore)}
+            {renderSide('after', after, setAfter)}
+          </div>
+        </>
+      ) : (
+        <div className="text-left">
+          <div className="flex items-center justify-between mb-2">
+            <label htmlFor="diff-patch" className="text-sm font-medium text-gray-300">Unified diff or git patch:</label>
+            <button onClick={() => fileInputRefs.patch.current?.click()} className="text-xs text-gray-400 hover:text-white">Upload .diff / .patch</button>
+          </div>
+          <input type="file" ref={fileInputRefs.patch} onChange={handlePatchUpload} accept=".diff,.patch,.txt" className="hidden" />
+          <textarea
+            id="diff-patch"
+            value={patch}
+            onChange={(e) => setPatch(e.target.value)}
+            placeholder={'Output of git diff, git show or git format-patch:\n\ndiff --git a/src/app.ts b/src/app.ts\n--- a/src/app.ts\n+++ b/src/app.ts\n@@ -1,3 +1,3 @@\n ...'}
+            rows={16}
+            className={`${inputClass} font-mono text-sm resize-vertical`}
+          />
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-3 justify-center">
+        <button
+          onClick={handleSubmit}
+          disabled={!canSubmit}
+          className="px-6 py-3 bg-blue-accent hover:bg-opacity-80 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold rounded-lg transition-all duration-300 shadow-lg shadow-blue-accent/20"
+        >
+          Explain Changes
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-6 py-3 bg-gray-700 hover:bg-gray-600 text-white font-bold rounded-lg transition-all duration-300"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DiffInput;
@@ -0,0 +1,57 @@
+import React, { useMemo } from 'react';
+import { numberUnifiedLines, toSideBySideRows } from '../utils/diff';
+
+interface DiffSideBySideProps {
+  // Unified content of one file: its hunks with their @@ headers.
+  content: string;
+  // Props for the element showing a line of the unified content, so hover,
+  // highlighting and scrolling work as they do in the inline view.
+  lineProps: (lineNumber: number) => React.HTMLProps<HTMLElement>;
+}
+
+const CELL_COLORS: Record<string, string> = {
+  '-': 'rgba(248, 113, 113, 0.12)',
+  '+': 'rgba(158, 206, 106, 0.12)', // green-accent
+};
+
+const DiffSideBySide: React.FC<DiffSideBySideProps> = ({ content, lineProps }) => {
+  const lines = useMemo(() => content.split('\n'), [content]);
+  const rows = useMemo(() => toSideBySideRows(content), [content]);
+  const numbers = useMemo(() => numberUnifiedLines(content), [content]);
+
+  const renderCell = (lineNumber: number | undefined, side: 'old' | 'new') => {
+    if (lineNumber === undefined) return <div className="bg-gray-800/40" />;
+
+    const text = lines[lineNumber - 1];
+    const { style, ...props } = lineProps(lineNumber) as React.HTMLProps<HTMLDivElement>;
+    return (
+      <div
+        {...props}
+        className="flex min-w-0"
+        style={{ ...style, backgroundColor: style?.backgroundColor ?? CELL_COLORS[text[0]] }}
+      >
+        <span className="w-12 flex-shrink-0 pr-3 text-right text-gray-600 select-none">{numbers[lineNumber - 1][side]}</span>
+        <span className={`whitespace-pre overflow-hidden text-ellipsis ${text[0] === '-' ? 'text-red-300' : text[0] === '+' ? 'text-green-accent' : 'text-gray-300'}`}>
+          {text.slice(1) || ' '}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="py-4 text-sm" style={{ fontFamily: "'Fira Code', monospace" }}>
+      {rows.map((row, i) => row.kind === 'header' ? (
+        <div key={i} {...(lineProps(row.line) as React.HTMLProps<HTMLDivElement>)} className="px-3 py-1 my-1 text-cyan-accent bg-gray-800/60">
+          {lines[row.line - 1]}
+        </div>
+      ) : (
+        <div key={i} className="grid grid-cols-2 gap-px">
+          {renderCell(row.left, 'old')}
+          {renderCell(row.right, 'new')}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default DiffSideBySide;
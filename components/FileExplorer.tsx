@@ -2,43 +2,104 @@
 import React, { useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import type { FileNode, HistoryEntry, Explanation } from '../types';
+import type { DiffStatus, FileNode, HistoryEntry, Explanation, FileReview, QuizAttempt, QueuePriority } from '../types';
 import FileIcon from './icons/FileIcon';
 import FolderIcon from './icons/FolderIcon';
 import SpinnerIcon from './icons/SpinnerIcon';
 import CheckIcon from './icons/CheckIcon';
-import type { SummaryStatus } from '../App';
+import DownloadIcon from './icons/DownloadIcon';
+import type { ReviewStatus, SummaryStatus } from '../App';
 import type { ExplanationLevel } from '../services/geminiService';
+import { formatTokens } from '../utils/costEstimate';
+import type { LevelOption } from '../utils/explanationLevels';
+import { explanationKey } from '../utils/outputLanguage';
+import type { LineRange } from '../utils/blockLocation';
+import { toSarif } from '../utils/sarif';
+import { downloadBlob } from '../utils/download';
+import FindingsList from './FindingsList';
+import ProcessingQueue from './ProcessingQueue';
+import { formatScore, parseQuizAttempts, summarizeQuizProgress } from '../utils/quizProgress';
 
-export type ProcessingStatus = 'idle' | 'processing' | 'done';
+export type ProcessingStatus = 'idle' | 'processing' | 'done' | 'failed';
+
+// Git-style status letters for the files of a diff session.
+const DIFF_BADGES: Record<DiffStatus, { letter: string; className: string }> = {
+    added: { letter: 'A', className: 'text-green-accent' },
+    modified: { letter: 'M', className: 'text-orange-accent' },
+    deleted: { letter: 'D', className: 'text-red-400' },
+    renamed: { letter: 'R', className: 'text-cyan-accent' },
+};
 
 interface FileExplorerProps {
   node: FileNode;
   selectedFile: FileNode | null;
   onSelectFile: (file: FileNode) => void;
   onProcessAll: () => void;
+  onStopBatch: () => void;
   processingStatus: Map<string, ProcessingStatus>;
+  retryWaits: Map<string, number>;
   isProcessingQueueActive: boolean;
-  processingQueueLength: number;
+  isEstimating: boolean;
+  // Files waiting to be explained; the first is in progress.
+  processingQueue: FileNode[];
+  queuePriority: Map<string, QueuePriority>;
+  queueDependencyOrder: boolean;
+  onQueueDependencyOrderChange: (enabled: boolean) => void;
+  onMoveInQueue: (from: number, to: number) => void;
+  onRemoveFromQueue: (path: string) => void;
   remainingFilesToProcess: number;
   fileSummaries: Map<string, string>;
   summaryStatus: Map<string, SummaryStatus>;
   projectSummary: string;
   isProjectSummaryLoading: boolean;
+  onCancelSummaries: () => void;
+  areSummariesCancelled: boolean;
+  deferredSummaryTokens: number | null;
+  summaryTokenLimit: number;
+  onGenerateSummaries: () => void;
   onLogout?: () => void;
   history: HistoryEntry[];
   activeHistoryId: string | null;
   onSelectHistory: (entry: HistoryEntry) => void;
   onClearHistory: () => void;
   explanationLevel: ExplanationLevel;
-  explanationsCache: Map<string, Map<ExplanationLevel, Explanation>>;
+  levels: LevelOption[];
+  outputLanguage: string;
+  explanationsCache: Map<string, Map<string, Explanation>>;
+  reviews: Map<string, FileReview>;
+  reviewStatus: ReviewStatus;
+  onReviewAll: () => void;
+  onCancelReview: () => void;
+  onOpenFinding: (path: string, range: LineRange) => void;
+  // Downloads every file, annotated where it has an explanation at the current level.
+  onExportAnnotated: () => void;
+  quizResults: QuizAttempt[];
 }
 
+const getAllFileCount = (node: FileNode): number =>
+    (node.content !== null ? 1 : 0) + node.children.reduce((count, child) => count + getAllFileCount(child), 0);
+
+const findFile = (node: FileNode, path: string): FileNode | null =>
+    node.content !== null && node.path === path
+        ? node
+        : node.children.reduce<FileNode | null>((found, child) => found ?? findFile(child, path), null);
+
+// Average quiz score of a saved project, for its history row.
+const historyQuizLabel = (entry: HistoryEntry) => {
+    const average = summarizeQuizProgress(parseQuizAttempts(entry.quizResults)).average;
+    return average === null ? '' : ` • quiz ${formatScore(average)}`;
+};
+
+// Green from 80%, orange below half.
+const scoreClass = (fraction: number) =>
+    fraction >= 0.8 ? 'text-green-accent' : fraction >= 0.5 ? 'text-gray-300' : 'text-orange-accent';
+
 interface FileExplorerContentProps {
   node: FileNode;
   selectedFile: FileNode | null;
   onSelectFile: (file: FileNode) => void;
   processingStatus: Map<string, ProcessingStatus>;
+  retryWaits: Map<string, number>;
   fileSummaries: Map<string, string>;
   summaryStatus: Map<string, SummaryStatus>;
   depth?: number;
@@ -46,11 +107,13 @@ interface FileExplorerContentProps {
   activeHistoryId?: string | null;
   onSelectHistory?: (entry: HistoryEntry) => void;
   explanationLevel: ExplanationLevel;
-  explanationsCache: Map<string, Map<ExplanationLevel, Explanation>>;
+  levels: LevelOption[];
+  outputLanguage: string;
+  explanationsCache: Map<string, Map<string, Explanation>>;
 }
 
 
-const FileExplorerContent: React.FC<FileExplorerContentProps> = ({ node, selectedFile, onSelectFile, processingStatus, fileSummaries, summaryStatus, depth = 0, history, activeHistoryId, onSelectHistory, explanationLevel, explanationsCache }) => {
+const FileExplorerContent: React.FC<FileExplorerContentProps> = ({ node, selectedFile, onSelectFile, processingStatus, retryWaits, fileSummaries, summaryStatus, depth = 0, history, activeHistoryId, onSelectHistory, explanationLevel, levels, outputLanguage, explanationsCache }) => {
     const [isOpen, setIsOpen] = useState(depth < 2);
     const isDirectory = node.children && node.children.length > 0;
 
@@ -89,6 +152,7 @@ const FileExplorerContent: React.FC<FileExplorerContentProps> = ({ node, selecte
                                 selectedFile={selectedFile}
                                 onSelectFile={onSelectFile}
                                 processingStatus={processingStatus}
+                                retryWaits={retryWaits}
                                 fileSummaries={fileSummaries}
                                 summaryStatus={summaryStatus}
                                 depth={depth + 1}
@@ -96,6 +160,8 @@ const FileExplorerContent: React.FC<FileExplorerContentProps> = ({ node, selecte
                                 activeHistoryId={activeHistoryId}
                                 onSelectHistory={onSelectHistory}
                                 explanationLevel={explanationLevel}
+                                levels={levels}
+                                outputLanguage={outputLanguage}
                                 explanationsCache={explanationsCache}
                             />
                         ))}
@@ -108,17 +174,23 @@ const FileExplorerContent: React.FC<FileExplorerContentProps> = ({ node, selecte
     // It's a file
     const isSelected = selectedFile?.path === node.path;
 
-    // Check if this file has been analyzed for the current level
+    // Check if this file has been analyzed for the current level and language
     const levelMap = explanationsCache.get(node.path);
-    const hasExplanationForLevel = levelMap?.has(explanationLevel) ?? false;
+    const levelKey = (level: ExplanationLevel) => explanationKey(level, outputLanguage);
+    const isIncomplete = levelMap?.get(levelKey(explanationLevel))?.incomplete ?? false;
+    const coverage = levelMap?.get(levelKey(explanationLevel))?.coverage;
+    const hasExplanationForLevel = (levelMap?.has(levelKey(explanationLevel)) ?? false) && !isIncomplete;
     const isProcessing = processingStatus.get(node.path) === 'processing';
+    const retryWait = retryWaits.get(node.path);
 
     // Determine status based on current level
     const explanationStatus: ProcessingStatus = isProcessing
       ? 'processing'
       : hasExplanationForLevel
         ? 'done'
-        : 'idle';
+        : processingStatus.get(node.path) === 'failed'
+          ? 'failed'
+          : 'idle';
 
     const summaryStatusVal = summaryStatus.get(node.path);
     const summary = fileSummaries.get(node.path);
@@ -132,17 +204,58 @@ const FileExplorerContent: React.FC<FileExplorerContentProps> = ({ node, selecte
                 <div className="flex items-center space-x-2 overflow-hidden">
                     <FileIcon className="w-5 h-5 text-cyan-accent flex-shrink-0" />
                     <span className="truncate">{node.name}</span>
+                    {node.diff && (
+                        <span
+                            className={`flex-shrink-0 text-xs font-bold ${DIFF_BADGES[node.diff.status].className}`}
+                            title={`${node.diff.status}${node.diff.oldPath ? ` from ${node.diff.oldPath}` : ''}`}
+                        >
+                            {DIFF_BADGES[node.diff.status].letter}
+                        </span>
+                    )}
                 </div>
                 
-                <div className="flex-shrink-0 w-4 h-4 flex items-center justify-center">
-                    {explanationStatus === 'processing' && <SpinnerIcon className="w-4 h-4 text-blue-accent" />}
+                {levelMap && levelMap.size > 0 && (
+                    <div className="flex-shrink-0 flex items-center gap-0.5 ml-auto">
+                        {levels.filter(level => levelMap.has(levelKey(level.id))).map(level => (
+                            <span
+                                key={level.id}
+                                title={`${level.name}${levelMap.get(levelKey(level.id))?.incomplete ? ' (incomplete)' : ''}`}
+                                className={`w-1.5 h-1.5 rounded-full ${
+                                    levelMap.get(levelKey(level.id))?.incomplete
+                                        ? 'bg-orange-accent'
+                                        : level.id === explanationLevel ? 'bg-cyan-accent' : 'bg-gray-500'
+                                }`}
+                            />
+                        ))}
+                    </div>
+                )}
+
+                {explanationStatus === 'done' && coverage !== undefined && coverage < 100 && (
+                    <span className="flex-shrink-0 text-xs text-orange-accent" title={`The explanation covers ${coverage}% of the file's lines`}>
+                        {coverage}%
+                    </span>
+                )}
+
+                <div className="flex-shrink-0 min-w-[1rem] h-4 flex items-center justify-center">
+                    {explanationStatus === 'processing' && retryWait !== undefined && (
+                        <span className="text-xs font-semibold text-orange-accent whitespace-nowrap" title={`Waiting ${retryWait}s for rate limit`}>
+                            {retryWait}s
+                        </span>
+                    )}
+                    {explanationStatus === 'processing' && retryWait === undefined && <SpinnerIcon className="w-4 h-4 text-blue-accent" />}
+                    {explanationStatus === 'failed' && (
+                        <span className="text-xs font-bold text-red-400" title="Analysis failed. Select the file to retry.">!</span>
+                    )}
                     {explanationStatus === 'done' && <CheckIcon className="w-4 h-4 text-green-accent" />}
+                    {explanationStatus === 'idle' && isIncomplete && (
+                        <span className="text-xs font-bold text-orange-accent" title="Cancelled before it finished. Select the file to regenerate.">~</span>
+                    )}
                     {explanationStatus === 'idle' && summaryStatusVal === 'summarizing' && <SpinnerIcon className="w-4 h-4 text-orange-accent" />}
                 </div>
 
-                {summaryStatusVal === 'done' && summary && (
+                {(summaryStatusVal === 'done' || summaryStatusVal === 'error') && summary && (
                     <div className="absolute left-6 top-full mt-2 w-72 p-3 bg-gray-900 border border-gray-700 rounded-md shadow-lg text-sm invisible group-hover:visible z-50 transition-opacity duration-200 opacity-0 group-hover:opacity-100">
-                        <p className="text-blue-light/90 whitespace-pre-wrap">{summary}</p>
+                        <p className={`whitespace-pre-wrap ${summaryStatusVal === 'error' ? 'text-red-400' : 'text-blue-light/90'}`}>{summary}</p>
                     </div>
                 )}
             </div>
@@ -151,16 +264,30 @@ const FileExplorerContent: React.FC<FileExplorerContentProps> = ({ node, selecte
 }
 
 const FileExplorer: React.FC<FileExplorerProps> = (props) => {
-    const { node, selectedFile, onSelectFile, onProcessAll, processingStatus, isProcessingQueueActive, processingQueueLength, remainingFilesToProcess, fileSummaries, summaryStatus, projectSummary, isProjectSummaryLoading, onLogout, history, activeHistoryId, onSelectHistory, onClearHistory, explanationLevel, explanationsCache } = props;
+    const { node, selectedFile, onSelectFile, onProcessAll, onStopBatch, processingStatus, retryWaits, isProcessingQueueActive, isEstimating, processingQueue, queuePriority, queueDependencyOrder, onQueueDependencyOrderChange, onMoveInQueue, onRemoveFromQueue, remainingFilesToProcess, fileSummaries, summaryStatus, projectSummary, isProjectSummaryLoading, onCancelSummaries, areSummariesCancelled, deferredSummaryTokens, summaryTokenLimit, onGenerateSummaries, onLogout, history, activeHistoryId, onSelectHistory, onClearHistory, explanationLevel, levels, outputLanguage, explanationsCache, reviews, reviewStatus, onReviewAll, onCancelReview, onOpenFinding, onExportAnnotated, quizResults } = props;
     const [isHistoryExpanded, setIsHistoryExpanded] = useState(false);
+    const [isFindingsExpanded, setIsFindingsExpanded] = useState(false);
+    const [isQuizExpanded, setIsQuizExpanded] = useState(false);
+
+    const findingCount = [...reviews.values()].reduce((count, review) => count + review.findings.length, 0);
+    const quizProgress = summarizeQuizProgress(quizResults);
+
+    const exportSarif = () => {
+        const blob = new Blob([JSON.stringify(toSarif(reviews), null, 2)], { type: 'application/sarif+json' });
+        downloadBlob(blob, `${node.name === 'root' ? 'project' : node.name}-review-${new Date().toISOString().split('T')[0]}.sarif`);
+    };
     
     const getButtonText = () => {
         if (remainingFilesToProcess === 0) {
             return 'All Files Analyzed';
         }
+
+        if (isEstimating) {
+            return 'Estimating Cost...';
+        }
         
         // True queue processing means there are files actually in the processing queue
-        const hasActiveQueue = processingQueueLength > 0;
+        const hasActiveQueue = processingQueue.length > 0;
         
         if (hasActiveQueue) {
             // Queue is active (multiple files being processed via queue)
@@ -201,6 +328,12 @@ const FileExplorer: React.FC<FileExplorerProps> = (props) => {
                         <div className="flex items-center space-x-2 text-sm text-gray-500">
                             <SpinnerIcon className="w-4 h-4" />
                             <span>Generating...</span>
+                            <button
+                                onClick={onCancelSummaries}
+                                className="ml-auto text-xs font-semibold text-gray-400 hover:text-white py-1 px-2 rounded-md bg-gray-700/50 hover:bg-gray-700 transition-colors"
+                            >
+                                Stop
+                            </button>
                         </div>
                     )}
                     {!isProjectSummaryLoading && projectSummary && (
@@ -208,22 +341,75 @@ const FileExplorer: React.FC<FileExplorerProps> = (props) => {
                             <ReactMarkdown remarkPlugins={[remarkGfm]}>{projectSummary}</ReactMarkdown>
                         </div>
                     )}
-                     {!isProjectSummaryLoading && !projectSummary && (
+                    {!isProjectSummaryLoading && !projectSummary && (deferredSummaryTokens !== null || areSummariesCancelled) && (
+                        <div className="space-y-2">
+                            <p className="text-sm text-gray-500">
+                                {areSummariesCancelled
+                                    ? 'Summaries stopped before they finished.'
+                                    : `Summaries skipped: this project is about ${formatTokens(deferredSummaryTokens!)} tokens, over the ${formatTokens(summaryTokenLimit)} auto-summary limit.`}
+                            </p>
+                            <button
+                                onClick={onGenerateSummaries}
+                                className="text-xs font-semibold text-cyan-accent hover:text-white py-1 px-2 rounded-md bg-gray-700/50 hover:bg-gray-700 transition-colors"
+                            >
+                                Generate Summaries
+                            </button>
+                        </div>
+                    )}
+                     {!isProjectSummaryLoading && !projectSummary && deferredSummaryTokens === null && !areSummariesCancelled && (
                         <p className="text-sm text-gray-600">Upload files to generate a summary.</p>
                     )}
                 </div>
+                <div className="flex gap-2">
                 <button
                     onClick={onProcessAll}
-                    disabled={remainingFilesToProcess === 0}
-                    className={`w-full font-bold py-2 px-4 rounded-lg transition-all duration-300 text-sm flex items-center justify-center space-x-2 ${
+                    disabled={remainingFilesToProcess === 0 || isEstimating}
+                    className={`flex-1 font-bold py-2 px-4 rounded-lg transition-all duration-300 text-sm flex items-center justify-center space-x-2 ${
                         remainingFilesToProcess === 0 
                             ? 'bg-gray-600 text-gray-400 cursor-not-allowed' 
                             : 'bg-green-accent hover:bg-opacity-80 text-gray-900'
                     }`}
                 >
-                    {isProcessingQueueActive ? <SpinnerIcon className="w-4 h-4" /> : null}
+                    {isProcessingQueueActive || isEstimating ? <SpinnerIcon className="w-4 h-4" /> : null}
                     <span>{getButtonText()}</span>
                 </button>
+                <button
+                    onClick={onExportAnnotated}
+                    disabled={remainingFilesToProcess === getAllFileCount(node)}
+                    className="py-2 px-3 rounded-lg text-sm bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white disabled:text-gray-600 disabled:hover:bg-gray-700 disabled:cursor-not-allowed transition-colors"
+                    title="Download a zip of the project with the explanations at this level written into each file as comments"
+                >
+                    <DownloadIcon className="w-4 h-4" />
+                </button>
+                {processingQueue.length > 0 && (
+                    <button
+                        onClick={onStopBatch}
+                        className="font-bold py-2 px-3 rounded-lg text-sm bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white transition-colors"
+                        title="Stop after cancelling the current file. Finished files keep their explanations."
+                    >
+                        Stop
+                    </button>
+                )}
+                </div>
+                <label
+                    className="mt-2 flex items-center gap-2 text-xs text-gray-400 cursor-pointer"
+                    title="Explain the files a file imports before the file itself, starting with the open file and its imports"
+                >
+                    <input
+                        type="checkbox"
+                        checked={queueDependencyOrder}
+                        onChange={(e) => onQueueDependencyOrderChange(e.target.checked)}
+                    />
+                    Dependencies first
+                </label>
+                {processingQueue.length > 1 && (
+                    <ProcessingQueue
+                        queue={processingQueue}
+                        priority={queuePriority}
+                        onMove={onMoveInQueue}
+                        onRemove={onRemoveFromQueue}
+                    />
+                )}
             </div>
             <div className="flex-grow overflow-y-auto p-2">
                  <FileExplorerContent
@@ -231,16 +417,145 @@ const FileExplorer: React.FC<FileExplorerProps> = (props) => {
                     selectedFile={selectedFile}
                     onSelectFile={onSelectFile}
                     processingStatus={processingStatus}
+                    retryWaits={retryWaits}
                     fileSummaries={fileSummaries}
                     summaryStatus={summaryStatus}
                     history={history}
                     activeHistoryId={activeHistoryId}
                     onSelectHistory={onSelectHistory}
                     explanationLevel={explanationLevel}
+                    levels={levels}
+                    outputLanguage={outputLanguage}
                     explanationsCache={explanationsCache}
                  />
             </div>
 
+            {/* Findings Section */}
+            <div className="border-t border-gray-700">
+                <button
+                    onClick={() => setIsFindingsExpanded(!isFindingsExpanded)}
+                    className="w-full p-3 flex items-center justify-between hover:bg-gray-700/50 transition-colors"
+                >
+                    <div className="flex items-center space-x-2">
+                        <svg className="w-4 h-4 text-orange-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01M5.07 19h13.86c1.54 0 2.5-1.67 1.73-3L13.73 4c-.77-1.33-2.69-1.33-3.46 0L3.34 16c-.77 1.33.19 3 1.73 3z" />
+                        </svg>
+                        <span className="text-sm font-medium text-gray-300">Review Findings</span>
+                        <span className="text-xs text-gray-500">({findingCount})</span>
+                        {reviewStatus.file && <SpinnerIcon className="w-3.5 h-3.5 text-orange-accent" />}
+                    </div>
+                    <svg
+                        className={`w-4 h-4 text-gray-400 transition-transform ${isFindingsExpanded ? 'rotate-180' : ''}`}
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                    >
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                </button>
+
+                {isFindingsExpanded && (
+                    <div className="border-t border-gray-700">
+                        <div className="flex items-center gap-2 p-2">
+                            {reviewStatus.file ? (
+                                <>
+                                    <span className="min-w-0 flex-1 text-xs text-gray-400 truncate" title={reviewStatus.file}>
+                                        Reviewing {reviewStatus.file.split('/').pop()}{reviewStatus.remaining > 1 ? ` (${reviewStatus.remaining} left)` : ''}
+                                    </span>
+                                    <button
+                                        onClick={onCancelReview}
+                                        className="text-xs font-semibold text-gray-400 hover:text-white py-1 px-2 rounded-md bg-gray-700/50 hover:bg-gray-700 transition-colors"
+                                    >
+                                        Stop
+                                    </button>
+                                </>
+                            ) : (
+                                <button
+                                    onClick={onReviewAll}
+                                    className="flex-1 text-xs font-semibold text-orange-accent hover:text-white py-1 px-2 rounded-md bg-gray-700/50 hover:bg-gray-700 transition-colors"
+                                    title="Review every file that has no finished review yet"
+                                >
+                                    Review All Files
+                                </button>
+                            )}
+                            <button
+                                onClick={exportSarif}
+                                disabled={reviews.size === 0}
+                                className="text-xs font-semibold text-gray-300 hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed py-1 px-2 rounded-md bg-gray-700/50 hover:bg-gray-700 transition-colors"
+                                title="Download the findings as SARIF 2.1.0 for code scanning tools"
+                            >
+                                Export SARIF
+                            </button>
+                        </div>
+                        <div className="max-h-64 overflow-y-auto">
+                            <FindingsList reviews={reviews} onOpenFinding={onOpenFinding} />
+                        </div>
+                    </div>
+                )}
+            </div>
+
+            {/* Quiz Progress Section */}
+            <div className="border-t border-gray-700">
+                <button
+                    onClick={() => setIsQuizExpanded(!isQuizExpanded)}
+                    className="w-full p-3 flex items-center justify-between hover:bg-gray-700/50 transition-colors"
+                >
+                    <div className="flex items-center space-x-2">
+                        <svg className="w-4 h-4 text-cyan-accent" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                        </svg>
+                        <span className="text-sm font-medium text-gray-300">Quiz Progress</span>
+                        <span className="text-xs text-gray-500">
+                            {quizProgress.average !== null ? `(${formatScore(quizProgress.average)} avg)` : '(0)'}
+                        </span>
+                    </div>
+                    <svg
+                        className={`w-4 h-4 text-gray-400 transition-transform ${isQuizExpanded ? 'rotate-180' : ''}`}
+                        fill="none"
+                        stroke="currentColor"
+                        viewBox="0 0 24 24"
+                    >
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                    </svg>
+                </button>
+
+                {isQuizExpanded && (
+                    <div className="max-h-64 overflow-y-auto border-t border-gray-700">
+                        {quizProgress.files.length === 0 ? (
+                            <div className="p-4 text-center text-gray-500 text-sm">
+                                <p>No quizzes taken yet</p>
+                                <p className="text-xs mt-1">Open an explained file and choose Quiz</p>
+                            </div>
+                        ) : (
+                            <>
+                                <p className="px-3 py-1.5 text-xs text-gray-500">
+                                    {quizProgress.files.length} of {getAllFileCount(node)} files quizzed · {quizProgress.attempts} {quizProgress.attempts === 1 ? 'attempt' : 'attempts'}
+                                </p>
+                                {quizProgress.files.map(file => (
+                                    <button
+                                        key={file.path}
+                                        onClick={() => {
+                                            const target = findFile(node, file.path);
+                                            if (target) onSelectFile(target);
+                                        }}
+                                        className="w-full px-3 py-1.5 text-left hover:bg-gray-700/50 transition-colors"
+                                        title={file.missedBlocks.length > 0 ? `Missed in the last attempt: blocks ${file.missedBlocks.map(block => block + 1).join(', ')}` : 'No mistakes in the last attempt'}
+                                    >
+                                        <div className="flex items-center gap-2 text-sm">
+                                            <span className="min-w-0 flex-1 truncate text-gray-300">{file.path}</span>
+                                            <span className={`flex-shrink-0 font-mono text-xs ${scoreClass(file.last)}`}>{formatScore(file.last)}</span>
+                                        </div>
+                                        <div className="text-xs text-gray-500">
+                                            best {formatScore(file.best)} · {file.attempts} {file.attempts === 1 ? 'attempt' : 'attempts'} · {new Date(file.lastTaken).toLocaleDateString()}
+                                        </div>
+                                    </button>
+                                ))}
+                            </>
+                        )}
+                    </div>
+                )}
+            </div>
+
             {/* History Section */}
             <div className="border-t border-gray-700">
                 <button
@@ -283,7 +598,7 @@ const FileExplorer: React.FC<FileExplorerProps> = (props) => {
                                     >
                                         <div className="text-sm font-medium text-gray-300 truncate">{entry.projectName}</div>
                                         <div className="text-xs text-gray-500 mt-0.5">
-                                            {new Date(entry.timestamp).toLocaleDateString()} • {Object.keys(entry.explanationsCache || {}).length} files
+                                            {new Date(entry.timestamp).toLocaleDateString()} • {Object.keys(entry.explanationsCache || {}).length} files{historyQuizLabel(entry)}
                                         </div>
                                     </button>
                                 ))}
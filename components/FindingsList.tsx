@@ -0,0 +1,86 @@
+import React, { useMemo, useState } from 'react';
+import type { FileReview, FindingSeverity, ReviewFinding } from '../types';
+import type { LineRange } from '../utils/blockLocation';
+
+export const SEVERITY_RANK: Record<FindingSeverity, number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+export const SEVERITY_STYLES: Record<FindingSeverity, { className: string; color: string }> = {
+  critical: { className: 'bg-red-500/20 text-red-300', color: '#f87171' },
+  high: { className: 'bg-orange-accent/20 text-orange-accent', color: '#d4a373' },
+  medium: { className: 'bg-yellow-500/20 text-yellow-300', color: '#facc15' },
+  low: { className: 'bg-gray-600/40 text-gray-300', color: '#9ca3af' },
+};
+
+export const SeverityBadge: React.FC<{ severity: FindingSeverity }> = ({ severity }) => (
+  <span className={`flex-shrink-0 px-1.5 rounded text-[10px] font-bold uppercase ${SEVERITY_STYLES[severity].className}`}>
+    {severity}
+  </span>
+);
+
+type SortKey = 'severity' | 'file' | 'category';
+
+interface FindingsListProps {
+  reviews: Map<string, FileReview>;
+  onOpenFinding: (path: string, range: LineRange) => void;
+}
+
+interface ProjectFinding extends ReviewFinding {
+  path: string;
+}
+
+const COMPARATORS: Record<SortKey, (a: ProjectFinding, b: ProjectFinding) => number> = {
+  severity: (a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity],
+  file: (a, b) => a.path.localeCompare(b.path) || a.startLine - b.startLine,
+  category: (a, b) => a.category.localeCompare(b.category),
+};
+
+// Every finding in the project, one row each. Ties under the chosen sort
+// fall back to severity, then file and line.
+const FindingsList: React.FC<FindingsListProps> = ({ reviews, onOpenFinding }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('severity');
+
+  const findings = useMemo(() => [...reviews]
+    .flatMap(([path, review]) => review.findings.map(finding => ({ ...finding, path })))
+    .sort((a, b) => COMPARATORS[sortKey](a, b) || COMPARATORS.severity(a, b) || COMPARATORS.file(a, b)),
+    [reviews, sortKey]);
+
+  if (findings.length === 0) {
+    return <p className="p-4 text-center text-gray-500 text-sm">No findings in the reviewed files.</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 px-3 py-1.5 text-xs text-gray-500">
+        <span>Sort by</span>
+        {(['severity', 'file', 'category'] as SortKey[]).map(key => (
+          <button
+            key={key}
+            onClick={() => setSortKey(key)}
+            className={`capitalize transition-colors ${sortKey === key ? 'text-cyan-accent' : 'hover:text-white'}`}
+          >
+            {key}
+          </button>
+        ))}
+      </div>
+      {findings.map((finding, i) => (
+        <button
+          key={`${finding.path}-${finding.startLine}-${i}`}
+          onClick={() => onOpenFinding(finding.path, { startLine: finding.startLine, endLine: finding.endLine })}
+          className="w-full px-3 py-1.5 text-left hover:bg-gray-700/50 transition-colors border-b border-gray-700/50"
+          title={finding.rationale}
+        >
+          <div className="flex items-center gap-2">
+            <SeverityBadge severity={finding.severity} />
+            <span className="text-xs text-gray-500 capitalize">{finding.category}</span>
+            <span className="text-sm text-gray-300 truncate">{finding.title}</span>
+          </div>
+          <div className="text-xs text-gray-500 font-mono truncate mt-0.5">
+            {finding.path}:{finding.startLine}{finding.endLine !== finding.startLine ? `-${finding.endLine}` : ''}
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default FindingsList;
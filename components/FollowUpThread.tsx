@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import type { ChatMessage } from '../types';
+
+interface FollowUpThreadProps {
+  thread: ChatMessage[];
+  isStreaming: boolean;
+  // Another block's reply is streaming; only one runs at a time.
+  isBusy: boolean;
+  onAsk: (question: string) => void;
+  onStop: () => void;
+  onClear: () => void;
+}
+
+const FollowUpThread: React.FC<FollowUpThreadProps> = ({ thread, isStreaming, isBusy, onAsk, onStop, onClear }) => {
+  const [isOpen, setIsOpen] = useState(thread.length > 0);
+  const [question, setQuestion] = useState('');
+
+  const submit = () => {
+    const trimmed = question.trim();
+    if (!trimmed || isBusy) return;
+    onAsk(trimmed);
+    setQuestion('');
+  };
+
+  if (!isOpen && thread.length === 0) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="mt-2 text-sm text-gray-400 hover:text-white font-semibold py-1 px-2 rounded-md bg-gray-700/50 hover:bg-gray-700 opacity-0 group-hover:opacity-100 transition-all duration-300"
+      >
+        Ask a follow-up
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-4 p-4 border-l-2 border-blue-accent/50 bg-gray-900/30 rounded-r-lg space-y-3">
+      <h4 className="font-bold text-sm text-blue-light flex items-center">
+        Follow-up
+        {thread.length > 0 && !isStreaming && (
+          <button
+            onClick={onClear}
+            className="ml-auto text-xs font-normal text-gray-400 hover:text-white py-0.5 px-2 rounded-md bg-gray-700/50 hover:bg-gray-700 transition-colors"
+          >
+            Clear
+          </button>
+        )}
+      </h4>
+
+      {thread.map((message, index) => {
+        const isLast = index === thread.length - 1;
+        return message.role === 'user' ? (
+          <div key={index} className="text-sm text-gray-200 bg-gray-700/50 rounded-md px-3 py-2 whitespace-pre-wrap break-words">
+            {message.text}
+          </div>
+        ) : (
+          <div
+            key={index}
+            className={`prose prose-invert max-w-none prose-sm prose-p:mb-4 prose-strong:text-orange-accent prose-code:text-orange-accent prose-li:text-blue-light ${
+              message.error ? 'prose-p:text-red-300' : 'prose-p:text-blue-light/90'
+            }`}
+          >
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>{message.text}</ReactMarkdown>
+            {isStreaming && isLast && <span className="inline-block w-2 h-4 bg-blue-light animate-pulse ml-1"></span>}
+            {message.incomplete && (
+              <p className="text-xs text-orange-accent">(stopped, incomplete)</p>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              submit();
+            }
+          }}
+          rows={2}
+          placeholder="Ask about this block, e.g. why not use a reducer here?"
+          className="flex-grow px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm font-sans text-gray-200 placeholder-gray-500 resize-none focus:outline-none focus:border-blue-accent"
+        />
+        {isStreaming ? (
+          <button
+            onClick={onStop}
+            className="px-3 py-2 text-sm text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={submit}
+            disabled={isBusy || !question.trim()}
+            className="px-3 py-2 text-sm font-semibold text-gray-900 bg-cyan-accent hover:bg-opacity-80 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed rounded-md transition-colors"
+          >
+            Ask
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FollowUpThread;
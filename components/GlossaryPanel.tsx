@@ -0,0 +1,172 @@
+import React, { useMemo, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import type { Glossary } from '../types';
+import SpinnerIcon from './icons/SpinnerIcon';
+import DownloadIcon from './icons/DownloadIcon';
+import SearchIcon from './icons/SearchIcon';
+
+interface GlossaryPanelProps {
+  glossary: Glossary | null;
+  isLoading: boolean;
+  error?: string;
+  // False until some file has a summary or an explanation to draw terms from.
+  canGenerate: boolean;
+  // Set when the glossary was built from explanations at another level or language.
+  isOtherKey: boolean;
+  onGenerate: () => void;
+  onStop: () => void;
+  onExport: () => void;
+  // blockIndex is null for a file that mentions the term outside its explanation.
+  onOpenUsage: (path: string, blockIndex: number | null) => void;
+  onClose: () => void;
+}
+
+const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ glossary, isLoading, error, canGenerate, isOtherKey, onGenerate, onStop, onExport, onOpenUsage, onClose }) => {
+  const [query, setQuery] = useState('');
+
+  const terms = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return [...glossary?.terms ?? []]
+      .filter(term => !needle || [term.term, ...term.aliases, term.definition].some(text => text.toLowerCase().includes(needle)))
+      .sort((a, b) => a.term.localeCompare(b.term, undefined, { sensitivity: 'base' }));
+  }, [glossary, query]);
+
+  return (
+    <div
+      className="fixed top-0 right-0 h-full w-full max-w-xl bg-gray-800 border-l border-gray-700 shadow-2xl z-40 flex flex-col font-sans"
+      // Keys pressed in the panel, in the filter or on its buttons, are not explainer shortcuts.
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      <div className="px-4 py-3 border-b border-gray-700 flex items-center gap-2">
+        <div className="min-w-0">
+          <h3 className="text-lg font-bold text-cyan-accent">Glossary</h3>
+          {glossary && (
+            <p className="text-xs text-gray-500 truncate">
+              {glossary.terms.length} {glossary.terms.length === 1 ? 'term' : 'terms'} · {new Date(glossary.timestamp).toLocaleDateString()}
+              {glossary.model && <> · generated by {glossary.model}</>}
+            </p>
+          )}
+        </div>
+        <div className="ml-auto flex flex-shrink-0 gap-2">
+          {isLoading ? (
+            <button
+              onClick={onStop}
+              className="px-3 py-1 text-xs text-gray-400 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={onGenerate}
+              disabled={!canGenerate}
+              className="px-3 py-1 text-xs text-cyan-accent hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+              title={canGenerate ? 'Collect key terms and identifiers from the summaries and explanations' : 'Explain or summarize some files first'}
+            >
+              {glossary ? 'Regenerate' : 'Generate'}
+            </button>
+          )}
+          <button
+            onClick={onExport}
+            disabled={!glossary || glossary.terms.length === 0}
+            className="flex items-center gap-1 px-3 py-1 text-xs text-gray-400 hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+            title="Download the glossary as Markdown"
+          >
+            <DownloadIcon className="w-3.5 h-3.5" />
+            <span>Export</span>
+          </button>
+          <button
+            onClick={onClose}
+            className="px-3 py-1 text-xs text-gray-400 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      {glossary && glossary.terms.length > 0 && (
+        <div className="px-4 py-2 border-b border-gray-700 flex items-center gap-2">
+          <SearchIcon className="w-4 h-4 text-gray-500" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Filter terms"
+            className="flex-grow bg-transparent text-sm text-gray-200 placeholder-gray-500 focus:outline-none"
+          />
+        </div>
+      )}
+
+      <div className="flex-grow overflow-y-auto p-4 space-y-4">
+        {error && !isLoading && (
+          <div className="p-3 rounded-md border border-red-500/40 bg-red-900/20 prose prose-invert max-w-none prose-sm prose-p:text-red-300 prose-strong:text-red-200">
+            <ReactMarkdown remarkPlugins={[remarkGfm]}>{error}</ReactMarkdown>
+          </div>
+        )}
+        {!glossary && !isLoading && !error && (
+          <p className="text-sm text-gray-500">
+            Build a glossary of the project's domain terms and important identifiers from its summaries and explanations. Each term is defined once, lists the files that use it, and shows its definition when you hover over it in an explanation.
+          </p>
+        )}
+        {isOtherKey && !isLoading && (
+          <p className="text-xs text-orange-accent">Built from explanations at another level or in another language; block links point at those.</p>
+        )}
+        {glossary?.incomplete && !isLoading && (
+          <p className="text-xs text-orange-accent">Stopped before it finished.</p>
+        )}
+        {glossary?.invalid ? (
+          <p className="text-xs text-orange-accent">
+            {glossary.invalid} malformed {glossary.invalid === 1 ? 'term was' : 'terms were'} left out.
+          </p>
+        ) : null}
+
+        {terms.map(term => (
+          <div key={term.term} className="space-y-1">
+            <div className="flex items-baseline gap-2">
+              <span className={`font-semibold text-gray-100 ${term.kind === 'identifier' ? 'font-mono text-sm' : ''}`}>{term.term}</span>
+              <span className="text-[10px] uppercase text-gray-500">{term.kind}</span>
+            </div>
+            {term.aliases.length > 0 && (
+              <p className="text-xs text-gray-500">also: {term.aliases.join(', ')}</p>
+            )}
+            <p className="text-sm text-blue-light/90">{term.definition}</p>
+            {term.usages.length > 0 ? (
+              <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                {term.usages.map(usage => (
+                  <span key={usage.path} className="text-gray-400">
+                    <button onClick={() => onOpenUsage(usage.path, null)} className="font-mono hover:text-white underline">
+                      {usage.path}
+                    </button>
+                    {usage.blocks.map(block => (
+                      <button
+                        key={block}
+                        onClick={() => onOpenUsage(usage.path, block)}
+                        className="ml-1 px-1 rounded bg-blue-accent/20 text-cyan-accent hover:bg-blue-accent/40"
+                        title={`Open block ${block + 1} of ${usage.path}`}
+                      >
+                        {block + 1}
+                      </button>
+                    ))}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-gray-600">Not found in the sources or explanations</p>
+            )}
+          </div>
+        ))}
+        {glossary && glossary.terms.length > 0 && terms.length === 0 && (
+          <p className="text-sm text-gray-500">No term matches "{query}".</p>
+        )}
+
+        {isLoading && (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <SpinnerIcon className="w-4 h-4 text-blue-accent" />
+            <span>Collecting terms...</span>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryPanel;
@@ -0,0 +1,44 @@
+import React from 'react';
+import type { GlossaryTerm } from '../types';
+import { parseGlossaryHref } from '../utils/glossary';
+
+interface GlossaryTermCardProps {
+  term: GlossaryTerm;
+  children?: React.ReactNode;
+}
+
+// A term mention with its definition on hover. The group is named because
+// explanation blocks are hover groups of their own.
+const GlossaryTermCard: React.FC<GlossaryTermCardProps> = ({ term, children }) => {
+  const fileCount = term.usages.length;
+  return (
+    <span className="relative group/term cursor-help underline decoration-dotted decoration-cyan-accent/60 underline-offset-2">
+      {children}
+      <span className="absolute left-0 top-full mt-1 w-72 p-3 bg-gray-900 border border-gray-700 rounded-md shadow-lg text-sm font-normal not-italic invisible group-hover/term:visible z-50 transition-opacity duration-200 opacity-0 group-hover/term:opacity-100">
+        <span className="flex items-center gap-2">
+          <span className={`font-semibold text-cyan-accent ${term.kind === 'identifier' ? 'font-mono' : ''}`}>{term.term}</span>
+          <span className="text-[10px] uppercase text-gray-500">{term.kind}</span>
+        </span>
+        <span className="block mt-1 text-gray-300 leading-snug">{term.definition}</span>
+        {fileCount > 0 && (
+          <span className="block mt-1 text-xs text-gray-500">Used in {fileCount} {fileCount === 1 ? 'file' : 'files'}</span>
+        )}
+      </span>
+    </span>
+  );
+};
+
+/**
+ * ReactMarkdown components for text passed through linkGlossaryTerms: glossary
+ * links become hover-cards, other links open in a new tab.
+ */
+export const glossaryMarkdownComponents = (terms: GlossaryTerm[]) => ({
+  a: ({ href, children }: { href?: string; children?: React.ReactNode }) => {
+    const index = href ? parseGlossaryHref(href) : null;
+    const term = index !== null ? terms[index] : undefined;
+    if (!term) return <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>;
+    return <GlossaryTermCard term={term}>{children}</GlossaryTermCard>;
+  },
+});
+
+export default GlossaryTermCard;
@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import CopyIcon from './icons/CopyIcon';
+import CheckIcon from './icons/CheckIcon';
+import DownloadIcon from './icons/DownloadIcon';
+import { edgeKey, hasEdges, layoutImportGraph, toMermaid, type ImportGraph } from '../utils/importGraph';
+import { downloadBlob } from '../utils/download';
+
+interface ImportGraphDialogProps {
+  graph: ImportGraph;
+  projectName: string;
+  selectedPath: string | null;
+  onOpenFile: (path: string) => void;
+  onClose: () => void;
+}
+
+const NODE_WIDTH = 190;
+const NODE_HEIGHT = 26;
+const COLUMN_GAP = 70;
+const ROW_HEIGHT = 36;
+const PADDING = 20;
+
+const basename = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+// Importers on the left, the files they depend on to their right.
+const ImportGraphDialog: React.FC<ImportGraphDialogProps> = ({ graph, projectName, selectedPath, onOpenFile, onClose }) => {
+  const [showIsolated, setShowIsolated] = useState(false);
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const nodes = useMemo(
+    () => showIsolated ? graph.nodes : graph.nodes.filter(path => hasEdges(graph, path)),
+    [graph, showIsolated]
+  );
+  const layout = useMemo(() => layoutImportGraph(graph, nodes), [graph, nodes]);
+  const edgeCount = nodes.reduce((count, path) => count + (graph.imports.get(path) ?? []).filter(target => layout.column.has(target)).length, 0);
+
+  const lastColumn = layout.columns.length - 1;
+  const positions = useMemo(() => new Map(layout.columns.flatMap((column, c) => column.map((path, row) => [path, {
+    x: PADDING + (lastColumn - c) * (NODE_WIDTH + COLUMN_GAP),
+    y: PADDING + row * ROW_HEIGHT,
+  }] as const))), [layout, lastColumn]);
+  const position = (path: string) => positions.get(path)!;
+  const width = PADDING * 2 + layout.columns.length * NODE_WIDTH + Math.max(0, lastColumn) * COLUMN_GAP;
+  const height = PADDING * 2 + Math.max(0, ...layout.columns.map(column => column.length)) * ROW_HEIGHT;
+
+  // The hovered file with everything it imports and everything importing it.
+  const neighbourhood = useMemo(() => hovered
+    ? new Set([hovered, ...graph.imports.get(hovered) ?? [], ...graph.importedBy.get(hovered) ?? []])
+    : null, [graph, hovered]);
+
+  const mermaid = () => toMermaid(graph, nodes);
+
+  const copyMermaid = async () => {
+    try {
+      await navigator.clipboard.writeText(mermaid());
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+    }
+  };
+
+  const exportMermaid = () => {
+    downloadBlob(new Blob([mermaid()], { type: 'text/plain' }), `${projectName}-imports.mmd`);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 font-sans" onClick={onClose}>
+      <div
+        className="bg-gray-800 border border-gray-700 rounded-lg shadow-2xl w-[92vw] max-w-7xl h-[88vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-5 py-3 border-b border-gray-700">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-cyan-accent">Import Graph</h3>
+            <p className="text-xs text-gray-500">
+              {nodes.length} files · {edgeCount} imports
+              {layout.cyclicEdges.size > 0 && <span className="text-orange-accent"> · {layout.cyclicEdges.size} in cycles (dashed)</span>}
+              {' '}· TS/JS, Python and Go imports that resolve inside the project
+            </p>
+          </div>
+          <div className="ml-auto flex flex-shrink-0 items-center gap-2 text-sm">
+            <label className="flex items-center gap-2 px-2 text-xs text-gray-400 cursor-pointer">
+              <input type="checkbox" checked={showIsolated} onChange={(e) => setShowIsolated(e.target.checked)} />
+              Files without imports
+            </label>
+            <button
+              onClick={copyMermaid}
+              disabled={nodes.length === 0}
+              className="flex items-center gap-2 px-3 py-1.5 text-gray-300 hover:text-white disabled:text-gray-600 bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+              title="Copy the graph as a Mermaid flowchart"
+            >
+              {copied ? <CheckIcon className="w-4 h-4" /> : <CopyIcon className="w-4 h-4" />}
+              <span>{copied ? 'Copied!' : 'Copy Mermaid'}</span>
+            </button>
+            <button
+              onClick={exportMermaid}
+              disabled={nodes.length === 0}
+              className="flex items-center gap-2 px-3 py-1.5 text-gray-300 hover:text-white disabled:text-gray-600 bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+            >
+              <DownloadIcon className="w-4 h-4" />
+              <span>.mmd</span>
+            </button>
+            <button onClick={onClose} className="px-2 py-1.5 text-gray-400 hover:text-white transition-colors" title="Close">✕</button>
+          </div>
+        </div>
+
+        <div className="flex-grow overflow-auto bg-gray-900">
+          {nodes.length === 0 ? (
+            <p className="p-8 text-center text-sm text-gray-500">No imports between the project's files were found.</p>
+          ) : (
+            <svg width={width} height={height} className="block text-gray-500">
+              <defs>
+                <marker id="import-arrow" viewBox="0 0 8 8" refX="8" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+                  <path d="M0,0 L8,4 L0,8 z" fill="currentColor" />
+                </marker>
+              </defs>
+              {nodes.flatMap(path => (graph.imports.get(path) ?? []).filter(target => layout.column.has(target)).map(target => {
+                const from = position(path);
+                const to = position(target);
+                const x1 = from.x + NODE_WIDTH;
+                const y1 = from.y + NODE_HEIGHT / 2;
+                const x2 = to.x;
+                const y2 = to.y + NODE_HEIGHT / 2;
+                const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+                const isCyclic = layout.cyclicEdges.has(edgeKey(path, target));
+                const isActive = hovered === path || hovered === target;
+                return (
+                  <path
+                    key={edgeKey(path, target)}
+                    d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth={isActive ? 1.8 : 1}
+                    strokeDasharray={isCyclic ? '4 3' : undefined}
+                    markerEnd="url(#import-arrow)"
+                    className={isActive ? 'text-cyan-accent' : isCyclic ? 'text-orange-accent/70' : neighbourhood ? 'text-gray-700' : 'text-gray-500'}
+                  />
+                );
+              }))}
+              {nodes.map(path => {
+                const { x, y } = position(path);
+                const dimmed = neighbourhood && !neighbourhood.has(path);
+                const imports = graph.imports.get(path)?.length ?? 0;
+                const importers = graph.importedBy.get(path)?.length ?? 0;
+                return (
+                  <g
+                    key={path}
+                    transform={`translate(${x},${y})`}
+                    onClick={() => onOpenFile(path)}
+                    onMouseEnter={() => setHovered(path)}
+                    onMouseLeave={() => setHovered(null)}
+                    className="cursor-pointer"
+                    opacity={dimmed ? 0.35 : 1}
+                  >
+                    <title>{`${path}\nimports ${imports} · imported by ${importers}`}</title>
+                    <rect
+                      width={NODE_WIDTH}
+                      height={NODE_HEIGHT}
+                      rx={5}
+                      className={`${path === selectedPath ? 'fill-blue-accent/30 stroke-cyan-accent' : hovered === path ? 'fill-gray-700 stroke-cyan-accent' : 'fill-gray-800 stroke-gray-600'}`}
+                    />
+                    <text x={8} y={NODE_HEIGHT / 2 + 4} className="fill-gray-200 text-xs font-mono">
+                      {basename(path).length > 24 ? `${basename(path).slice(0, 23)}…` : basename(path)}
+                    </text>
+                  </g>
+                );
+              })}
+            </svg>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportGraphDialog;
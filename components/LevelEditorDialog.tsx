@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import type { BuiltInLevel, CustomLevel } from '../types';
+import { BASE_RULES_PLACEHOLDER, BUILT_IN_TEMPLATES } from '../services/geminiService';
+import { BUILT_IN_LEVELS, createCustomLevelId, getLevelName } from '../utils/explanationLevels';
+
+interface LevelEditorDialogProps {
+  levels: CustomLevel[];
+  onSave: (levels: CustomLevel[]) => void;
+  onCancel: () => void;
+}
+
+const BLANK_TEMPLATE = `You are a code tutor. Describe who the explanations are for and what they should focus on.
+
+${BASE_RULES_PLACEHOLDER}
+
+**EXPLANATION STYLE:**
+- `;
+
+const LevelEditorDialog: React.FC<LevelEditorDialogProps> = ({ levels, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<CustomLevel[]>(levels);
+  const [selectedId, setSelectedId] = useState<string | null>(levels[0]?.id ?? null);
+  const [startFrom, setStartFrom] = useState<BuiltInLevel | 'blank'>('intermediate');
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = draft.find(level => level.id === selectedId) ?? null;
+
+  const updateSelected = (update: Partial<CustomLevel>) => {
+    setDraft(prev => prev.map(level => level.id === selectedId ? { ...level, ...update } : level));
+    setError(null);
+  };
+
+  const addLevel = () => {
+    const level: CustomLevel = {
+      id: createCustomLevelId(),
+      name: 'New level',
+      template: startFrom === 'blank' ? BLANK_TEMPLATE : BUILT_IN_TEMPLATES[startFrom],
+    };
+    setDraft(prev => [...prev, level]);
+    setSelectedId(level.id);
+    setError(null);
+  };
+
+  const deleteSelected = () => {
+    const remaining = draft.filter(level => level.id !== selectedId);
+    setDraft(remaining);
+    setSelectedId(remaining[0]?.id ?? null);
+    setError(null);
+  };
+
+  const handleSave = () => {
+    const names = new Set<string>(BUILT_IN_LEVELS.map(level => getLevelName(level).toLowerCase()));
+    for (const level of draft) {
+      const name = level.name.trim();
+      if (!name) {
+        setError('Every level needs a name.');
+        return;
+      }
+      if (names.has(name.toLowerCase())) {
+        setError(`There is already a level called "${name}".`);
+        return;
+      }
+      names.add(name.toLowerCase());
+      if (!level.template.trim()) {
+        setError(`"${name}" needs a prompt template.`);
+        return;
+      }
+    }
+    onSave(draft.map(level => ({ ...level, name: level.name.trim() })));
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+      onClick={onCancel}
+      // Keys pressed in the dialog are not shortcuts for the explainer behind it.
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      <div
+        className="bg-gray-800 border border-gray-700 rounded-lg p-6 w-full max-w-3xl shadow-2xl font-sans"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-bold text-cyan-accent mb-1">Custom Levels</h3>
+        <p className="text-xs text-gray-500 mb-4">
+          Each template is the level's part of the system prompt. The shared response-format rules go where {BASE_RULES_PLACEHOLDER} appears, or at the end if it is left out.
+        </p>
+
+        <div className="flex gap-4">
+          <div className="w-48 flex-shrink-0 space-y-1">
+            {draft.length === 0 && (
+              <p className="text-sm text-gray-600">No custom levels yet.</p>
+            )}
+            {draft.map(level => (
+              <button
+                key={level.id}
+                onClick={() => setSelectedId(level.id)}
+                className={`w-full text-left px-3 py-2 text-sm rounded-md truncate transition-colors ${
+                  level.id === selectedId ? 'bg-cyan-accent text-gray-900' : 'bg-gray-700/50 text-gray-300 hover:bg-gray-700'
+                }`}
+              >
+                {level.name || 'Untitled'}
+              </button>
+            ))}
+            <div className="pt-3 space-y-2 border-t border-gray-700">
+              <select
+                value={startFrom}
+                onChange={(e) => setStartFrom(e.target.value as BuiltInLevel | 'blank')}
+                className="w-full px-2 py-1 bg-gray-700 border border-gray-600 rounded text-xs text-gray-200 focus:outline-none focus:border-blue-accent"
+              >
+                {BUILT_IN_LEVELS.map(level => (
+                  <option key={level} value={level}>Start from {getLevelName(level)}</option>
+                ))}
+                <option value="blank">Start blank</option>
+              </select>
+              <button
+                onClick={addLevel}
+                className="w-full px-3 py-1.5 text-sm font-semibold text-cyan-accent hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+              >
+                Add Level
+              </button>
+            </div>
+          </div>
+
+          <div className="flex-grow min-w-0">
+            {selected ? (
+              <div className="space-y-3">
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={selected.name}
+                    onChange={(e) => updateSelected({ name: e.target.value })}
+                    placeholder="Level name, e.g. Security reviewer"
+                    className="flex-grow px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:border-blue-accent"
+                  />
+                  <button
+                    onClick={deleteSelected}
+                    className="px-3 py-2 text-sm text-red-400 hover:text-white bg-gray-700/50 hover:bg-red-600 rounded-md transition-colors"
+                  >
+                    Delete
+                  </button>
+                </div>
+                <textarea
+                  value={selected.template}
+                  onChange={(e) => updateSelected({ template: e.target.value })}
+                  spellCheck={false}
+                  className="w-full h-80 px-3 py-2 bg-gray-900 border border-gray-600 rounded text-xs font-mono text-gray-200 focus:outline-none focus:border-blue-accent"
+                />
+              </div>
+            ) : (
+              <div className="h-full flex items-center justify-center text-sm text-gray-600">
+                Add a level to edit its template.
+              </div>
+            )}
+          </div>
+        </div>
+
+        {error && <p className="mt-3 text-sm text-red-400">{error}</p>}
+
+        <div className="mt-6 flex gap-3">
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex-1 px-4 py-2 bg-green-accent hover:bg-opacity-80 text-gray-900 font-semibold rounded transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LevelEditorDialog;
@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import SpinnerIcon from './icons/SpinnerIcon';
 import { getAssetPath } from '../utils/paths';
+import { PROVIDER_OPTIONS, getProviderOption, defaultProviderConfig, saveProviderConfig, type ProviderConfig, type ProviderKind } from '../services/providers';
 
 interface LoginScreenProps {
-  onSuccess: (geminiKey: string, githubToken?: string) => void;
+  onSuccess: (config: ProviderConfig, githubToken?: string) => void;
   onError: (error: string) => void;
 }
 
@@ -13,6 +14,26 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onSuccess, onError }) => {
   const [showManualEntry, setShowManualEntry] = useState(false);
   const [manualApiKey, setManualApiKey] = useState('');
   const [manualGithubToken, setManualGithubToken] = useState('');
+  const [providerKind, setProviderKind] = useState<ProviderKind>('gemini');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [model, setModel] = useState(getProviderOption('gemini').defaultModel);
+
+  const providerOption = getProviderOption(providerKind);
+  const canSubmit = !providerOption.requiresApiKey || !!manualApiKey.trim();
+
+  const handleProviderChange = (kind: ProviderKind) => {
+    const option = getProviderOption(kind);
+    setProviderKind(kind);
+    setBaseUrl(option.defaultBaseUrl);
+    setModel(option.defaultModel);
+  };
+
+  const buildConfig = (): ProviderConfig => ({
+    kind: providerKind,
+    apiKey: manualApiKey.trim(),
+    baseUrl: baseUrl.trim() || providerOption.defaultBaseUrl,
+    model: model.trim() || providerOption.defaultModel,
+  });
 
   useEffect(() => {
     // Load Firebase
@@ -44,7 +65,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onSuccess, onError }) => {
       if (keys && keys.geminiKey) {
         setStatus('Keys found! Signing you in...');
         setTimeout(() => {
-          onSuccess(keys.geminiKey, keys.githubToken || undefined);
+          onSuccess(defaultProviderConfig('gemini', keys.geminiKey), keys.githubToken || undefined);
         }, 500);
       } else {
         // First time - need to enter keys
@@ -63,11 +84,12 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onSuccess, onError }) => {
   const handleManualSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    if (!manualApiKey.trim()) {
+    if (!canSubmit) {
       onError('Please enter a valid Gemini API key');
       return;
     }
 
+    const config = buildConfig();
     setIsLoading(true);
     setStatus('Saving keys...');
 
@@ -75,7 +97,8 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onSuccess, onError }) => {
       const { getCurrentUser, saveKeys } = await import('../lib/firebase-auth.js');
       const user = getCurrentUser();
 
-      if (user) {
+      // Only the Gemini key is synced. Keys for self-hosted endpoints stay in this browser.
+      if (user && config.kind === 'gemini') {
         // Save to Firebase
         await saveKeys({
           geminiKey: manualApiKey.trim(),
@@ -84,23 +107,23 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onSuccess, onError }) => {
         setStatus('Keys saved and synced!');
       } else {
         // Fallback to localStorage
-        localStorage.setItem('gemini_api_key', manualApiKey.trim());
+        saveProviderConfig(config);
         if (manualGithubToken.trim()) {
           localStorage.setItem('github_token', manualGithubToken.trim());
         }
       }
 
       setTimeout(() => {
-        onSuccess(manualApiKey.trim(), manualGithubToken.trim() || undefined);
+        onSuccess(config, manualGithubToken.trim() || undefined);
       }, 500);
     } catch (err: any) {
       console.error('Save error:', err);
       // Save to localStorage as fallback
-      localStorage.setItem('gemini_api_key', manualApiKey.trim());
+      saveProviderConfig(config);
       if (manualGithubToken.trim()) {
         localStorage.setItem('github_token', manualGithubToken.trim());
       }
-      onSuccess(manualApiKey.trim(), manualGithubToken.trim() || undefined);
+      onSuccess(config, manualGithubToken.trim() || undefined);
     }
   };
 
@@ -168,11 +191,45 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onSuccess, onError }) => {
           <form onSubmit={handleManualSubmit} className="max-w-md mx-auto space-y-4">
             <p className="text-sm text-gray-400 mb-4">{status || 'Enter your API keys'}</p>
 
+            <select
+              value={providerKind}
+              onChange={(e) => handleProviderChange(e.target.value as ProviderKind)}
+              className="w-full bg-gray-800 border-2 text-blue-light rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-blue-accent transition-colors border-gray-700"
+            >
+              {PROVIDER_OPTIONS.map(option => (
+                <option key={option.kind} value={option.kind}>{option.label}</option>
+              ))}
+            </select>
+
+            {providerKind !== 'gemini' && providerKind !== 'mock' && (
+              <input
+                type="text"
+                value={baseUrl}
+                onChange={(e) => setBaseUrl(e.target.value)}
+                placeholder={`Base URL (${providerOption.defaultBaseUrl})`}
+                className="w-full bg-gray-800 border-2 text-blue-light rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-blue-accent transition-colors border-gray-700"
+              />
+            )}
+
+            <input
+              type="text"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              placeholder={`Model (${providerOption.defaultModel})`}
+              className="w-full bg-gray-800 border-2 text-blue-light rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-blue-accent transition-colors border-gray-700"
+            />
+
+            {providerKind === 'mock' && (
+              <p className="text-xs text-gray-400 text-left">
+                Replays recorded fixtures, no network needed. Add scenarios to the model name to test failure handling, e.g. <code>mock:slow,malformed,rate-limit,fail</code>.
+              </p>
+            )}
+
             <input
               type="password"
               value={manualApiKey}
               onChange={(e) => setManualApiKey(e.target.value)}
-              placeholder="Gemini API Key (required)"
+              placeholder={providerOption.requiresApiKey ? `${providerOption.label} API Key (required)` : 'API Key (optional)'}
               className="w-full bg-gray-800 border-2 text-blue-light rounded-lg px-4 py-3 focus:outline-none focus:ring-2 focus:ring-blue-accent transition-colors border-gray-700"
               autoFocus
             />
@@ -187,7 +244,7 @@ const LoginScreen: React.FC<LoginScreenProps> = ({ onSuccess, onError }) => {
 
             <button
               type="submit"
-              disabled={!manualApiKey.trim()}
+              disabled={!canSubmit}
               className="w-full bg-blue-accent hover:bg-opacity-80 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 shadow-lg shadow-blue-accent/20"
             >
               Continue
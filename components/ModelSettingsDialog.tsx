@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { defaultModelSettings, getExplainSetting, type ModelSettings, type TaskModelSetting } from '../utils/modelSettings';
+import type { LevelOption } from '../utils/explanationLevels';
+
+interface ModelSettingsDialogProps {
+  settings: ModelSettings;
+  levels: LevelOption[];
+  defaultModel: string;
+  onSave: (settings: ModelSettings) => void;
+  onCancel: () => void;
+}
+
+interface TaskRowProps {
+  label: string;
+  setting: TaskModelSetting;
+  defaultModel: string;
+  onChange: (setting: TaskModelSetting) => void;
+}
+
+const TaskRow: React.FC<TaskRowProps> = ({ label, setting, defaultModel, onChange }) => (
+  <div className="grid grid-cols-[8rem_1fr_5rem] items-center gap-2">
+    <span className="text-sm text-gray-300 truncate" title={label}>{label}</span>
+    <input
+      type="text"
+      value={setting.model}
+      placeholder={defaultModel}
+      onChange={(e) => onChange({ ...setting, model: e.target.value })}
+      className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:border-blue-accent"
+    />
+    <input
+      type="number"
+      min={0}
+      max={2}
+      step={0.1}
+      value={setting.temperature ?? ''}
+      placeholder="default"
+      onChange={(e) => {
+        const parsed = parseFloat(e.target.value);
+        onChange({ ...setting, temperature: Number.isFinite(parsed) ? parsed : null });
+      }}
+      className="px-2 py-1 bg-gray-700 border border-gray-600 rounded text-sm text-gray-200 placeholder-gray-500 focus:outline-none focus:border-blue-accent"
+    />
+  </div>
+);
+
+const ModelSettingsDialog: React.FC<ModelSettingsDialogProps> = ({ settings, levels, defaultModel, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<ModelSettings>(settings);
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-50"
+      onClick={onCancel}
+      // Keys pressed in the dialog are not shortcuts for the explainer behind it.
+      onKeyDown={(e) => e.stopPropagation()}
+    >
+      <div
+        className="bg-gray-800 border border-gray-700 rounded-lg p-6 w-full max-w-lg shadow-2xl font-sans"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3 className="text-lg font-bold text-cyan-accent mb-1">Model Settings</h3>
+        <p className="text-xs text-gray-500 mb-4">
+          Leave a field blank to use {defaultModel} and the task's default temperature.
+        </p>
+
+        <div className="grid grid-cols-[8rem_1fr_5rem] gap-2 mb-2 text-xs font-semibold text-gray-400">
+          <span>Task</span>
+          <span>Model</span>
+          <span>Temperature</span>
+        </div>
+        <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+          {levels.map(level => (
+            <TaskRow
+              key={level.id}
+              label={`Explain: ${level.name}`}
+              setting={getExplainSetting(draft, level.id)}
+              defaultModel={defaultModel}
+              onChange={setting => setDraft(prev => ({ ...prev, explain: { ...prev.explain, [level.id]: setting } }))}
+            />
+          ))}
+          <TaskRow
+            label="Deep dive"
+            setting={draft.deepDive}
+            defaultModel={defaultModel}
+            onChange={setting => setDraft(prev => ({ ...prev, deepDive: setting }))}
+          />
+          <TaskRow
+            label="Code review"
+            setting={draft.review}
+            defaultModel={defaultModel}
+            onChange={setting => setDraft(prev => ({ ...prev, review: setting }))}
+          />
+          <TaskRow
+            label="Test suggestions"
+            setting={draft.tests}
+            defaultModel={defaultModel}
+            onChange={setting => setDraft(prev => ({ ...prev, tests: setting }))}
+          />
+          <TaskRow
+            label="Quizzes"
+            setting={draft.quiz}
+            defaultModel={defaultModel}
+            onChange={setting => setDraft(prev => ({ ...prev, quiz: setting }))}
+          />
+          <TaskRow
+            label="Glossary"
+            setting={draft.glossary}
+            defaultModel={defaultModel}
+            onChange={setting => setDraft(prev => ({ ...prev, glossary: setting }))}
+          />
+          <TaskRow
+            label="Follow-up chat"
+            setting={draft.followUp}
+            defaultModel={defaultModel}
+            onChange={setting => setDraft(prev => ({ ...prev, followUp: setting }))}
+          />
+          <TaskRow
+            label="Project Q&A"
+            setting={draft.projectChat}
+            defaultModel={defaultModel}
+            onChange={setting => setDraft(prev => ({ ...prev, projectChat: setting }))}
+          />
+          <TaskRow
+            label="File summaries"
+            setting={draft.fileSummaries}
+            defaultModel={defaultModel}
+            onChange={setting => setDraft(prev => ({ ...prev, fileSummaries: setting }))}
+          />
+          <TaskRow
+            label="Project summary"
+            setting={draft.projectSummary}
+            defaultModel={defaultModel}
+            onChange={setting => setDraft(prev => ({ ...prev, projectSummary: setting }))}
+          />
+        </div>
+
+        <div className="mt-6 flex gap-3">
+          <button
+            onClick={() => setDraft(defaultModelSettings())}
+            className="px-4 py-2 text-gray-400 hover:text-white font-semibold rounded transition-colors"
+          >
+            Reset
+          </button>
+          <button
+            onClick={onCancel}
+            className="flex-1 px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            className="flex-1 px-4 py-2 bg-green-accent hover:bg-opacity-80 text-gray-900 font-semibold rounded transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettingsDialog;
@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import type { FileNode, QueuePriority } from '../types';
+import SpinnerIcon from './icons/SpinnerIcon';
+
+interface ProcessingQueueProps {
+  queue: FileNode[];
+  priority: Map<string, QueuePriority>;
+  // Indices into `queue`: the file at `from` goes above the row at `to`, or
+  // last when `to` is the queue length. The first file is being explained and
+  // never moves.
+  onMove: (from: number, to: number) => void;
+  onRemove: (path: string) => void;
+}
+
+const PRIORITY_BADGES: Record<QueuePriority, { label: string; title: string }> = {
+  selected: { label: 'selected', title: 'The file you have open' },
+  import: { label: 'import', title: 'Imported by the file you have open' },
+};
+
+// The files waiting to be explained, in the order they will run. Rows after
+// the first can be dragged to a new place or taken out of the queue.
+const ProcessingQueue: React.FC<ProcessingQueueProps> = ({ queue, priority, onMove, onRemove }) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <ol className="mt-2 max-h-48 overflow-y-auto rounded-md bg-gray-900/50 py-1 text-xs">
+      {queue.map((file, index) => {
+        const isCurrent = index === 0;
+        const badge = priority.get(file.path);
+        return (
+          <li
+            key={file.path}
+            draggable={!isCurrent}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDragIndex(index);
+            }}
+            onDragOver={(e) => {
+              if (dragIndex === null || isCurrent) return;
+              e.preventDefault();
+              setDropIndex(index);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragIndex !== null && !isCurrent) onMove(dragIndex, index);
+              endDrag();
+            }}
+            onDragEnd={endDrag}
+            className={`group flex items-center gap-2 px-2 py-1 ${isCurrent ? 'text-gray-200' : 'text-gray-400 cursor-grab'} ${
+              dragIndex === index ? 'opacity-40' : ''
+            } ${dropIndex === index && dragIndex !== index ? 'border-t border-cyan-accent' : 'border-t border-transparent'}`}
+            title={file.path}
+          >
+            <span className="w-5 flex-shrink-0 text-right text-gray-600">
+              {isCurrent ? <SpinnerIcon className="ml-auto w-3 h-3 text-blue-accent" /> : index + 1}
+            </span>
+            <span className="min-w-0 flex-1 truncate font-mono">{file.path}</span>
+            {badge && (
+              <span className="flex-shrink-0 px-1 rounded bg-blue-accent/20 text-[10px] uppercase text-cyan-accent" title={PRIORITY_BADGES[badge].title}>
+                {PRIORITY_BADGES[badge].label}
+              </span>
+            )}
+            {!isCurrent && (
+              <button
+                onClick={() => onRemove(file.path)}
+                className="flex-shrink-0 text-gray-600 hover:text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Take out of the queue"
+              >
+                ✕
+              </button>
+            )}
+          </li>
+        );
+      })}
+      {dragIndex !== null && (
+        <li
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDropIndex(queue.length);
+          }}
+          onDrop={(e) => {
+            e.preventDefault();
+            onMove(dragIndex, queue.length);
+            endDrag();
+          }}
+          className={`h-3 border-t ${dropIndex === queue.length ? 'border-cyan-accent' : 'border-transparent'}`}
+        />
+      )}
+    </ol>
+  );
+};
+
+export default ProcessingQueue;
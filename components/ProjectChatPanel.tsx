@@ -0,0 +1,160 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import type { ChatMessage } from '../types';
+import type { LineRange } from '../utils/blockLocation';
+
+interface ProjectChatPanelProps {
+  thread: ChatMessage[];
+  isStreaming: boolean;
+  knownPaths: string[];
+  onAsk: (question: string) => void;
+  onStop: () => void;
+  onClear: () => void;
+  onOpenCitation: (path: string, range: LineRange) => void;
+  onClose: () => void;
+}
+
+const CITATION_PATTERN = /\[([^\[\]\n]+?):(\d+)(?:\s*[-–]\s*(\d+))?\](?!\()/g;
+const CITATION_PREFIX = '#cite=';
+
+// Turns [path:12-30] citations for files that exist into links the panel
+// handles itself. Fenced code is left alone.
+const linkCitations = (text: string, knownPaths: Set<string>) =>
+  text.split(/(```[\s\S]*?(?:```|$))/).map((part, i) => i % 2 === 1 ? part : part.replace(
+    CITATION_PATTERN,
+    (match, path: string, start: string, end: string | undefined) => knownPaths.has(path)
+      ? `[${path}:${start}${end ? `-${end}` : ''}](${CITATION_PREFIX}${encodeURIComponent(`${path}:${start}:${end ?? start}`)})`
+      : match
+  )).join('');
+
+const parseCitationHref = (href: string): { path: string; range: LineRange } | null => {
+  if (!href.startsWith(CITATION_PREFIX)) return null;
+  const match = decodeURIComponent(href.slice(CITATION_PREFIX.length)).match(/^(.+):(\d+):(\d+)$/);
+  if (!match) return null;
+  const startLine = parseInt(match[2], 10);
+  const endLine = Math.max(startLine, parseInt(match[3], 10));
+  return { path: match[1], range: { startLine, endLine } };
+};
+
+const ProjectChatPanel: React.FC<ProjectChatPanelProps> = ({ thread, isStreaming, knownPaths, onAsk, onStop, onClear, onOpenCitation, onClose }) => {
+  const [question, setQuestion] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const pathSet = useMemo(() => new Set(knownPaths), [knownPaths]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth', block: 'end' });
+  }, [thread]);
+
+  const submit = () => {
+    const trimmed = question.trim();
+    if (!trimmed || isStreaming) return;
+    onAsk(trimmed);
+    setQuestion('');
+  };
+
+  const markdownComponents = useMemo(() => ({
+    a: ({ href, children }: { href?: string; children?: React.ReactNode }) => {
+      const citation = href ? parseCitationHref(href) : null;
+      if (!citation) {
+        return <a href={href} target="_blank" rel="noopener noreferrer">{children}</a>;
+      }
+      return (
+        <button
+          onClick={() => onOpenCitation(citation.path, citation.range)}
+          className="inline px-1 rounded bg-blue-accent/20 text-cyan-accent hover:bg-blue-accent/40 font-mono text-xs no-underline"
+          title={`Open ${citation.path} at line ${citation.range.startLine}`}
+        >
+          {children}
+        </button>
+      );
+    },
+  }), [onOpenCitation]);
+
+  return (
+    <div className="fixed top-0 right-0 h-full w-full max-w-xl bg-gray-800 border-l border-gray-700 shadow-2xl z-40 flex flex-col font-sans">
+      <div className="px-4 py-3 border-b border-gray-700 flex items-center gap-2">
+        <h3 className="text-lg font-bold text-cyan-accent">Ask the Project</h3>
+        <div className="ml-auto flex gap-2">
+          {thread.length > 0 && !isStreaming && (
+            <button
+              onClick={onClear}
+              className="px-3 py-1 text-xs text-gray-400 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+            >
+              Clear
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="px-3 py-1 text-xs text-gray-400 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-grow overflow-y-auto p-4 space-y-4">
+        {thread.length === 0 && (
+          <p className="text-sm text-gray-500">
+            Ask about the project as a whole, e.g. "where is the API key validated?". Answers cite files and lines; click a citation to open it.
+          </p>
+        )}
+        {thread.map((message, index) => message.role === 'user' ? (
+          <div key={index} className="text-sm text-gray-200 bg-gray-700/50 rounded-md px-3 py-2 whitespace-pre-wrap break-words">
+            {message.text}
+          </div>
+        ) : (
+          <div
+            key={index}
+            className={`prose prose-invert max-w-none prose-sm prose-p:mb-4 prose-strong:text-orange-accent prose-code:text-orange-accent prose-li:text-blue-light ${
+              message.error ? 'prose-p:text-red-300' : 'prose-p:text-blue-light/90'
+            }`}
+          >
+            <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+              {linkCitations(message.text, pathSet)}
+            </ReactMarkdown>
+            {isStreaming && index === thread.length - 1 && <span className="inline-block w-2 h-4 bg-blue-light animate-pulse ml-1"></span>}
+            {message.incomplete && (
+              <p className="text-xs text-orange-accent">(stopped, incomplete)</p>
+            )}
+          </div>
+        ))}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="p-4 border-t border-gray-700 flex gap-2">
+        <textarea
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              submit();
+            }
+          }}
+          rows={3}
+          placeholder="Where is the API key validated?"
+          className="flex-grow px-3 py-2 bg-gray-700 border border-gray-600 rounded text-sm text-gray-200 placeholder-gray-500 resize-none focus:outline-none focus:border-blue-accent"
+        />
+        {isStreaming ? (
+          <button
+            onClick={onStop}
+            className="px-4 py-2 text-sm text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={submit}
+            disabled={!question.trim()}
+            className="px-4 py-2 text-sm font-semibold text-gray-900 bg-cyan-accent hover:bg-opacity-80 disabled:bg-gray-700 disabled:text-gray-500 disabled:cursor-not-allowed rounded-md transition-colors"
+          >
+            Ask
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProjectChatPanel;
@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { atomDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import type { Quiz, QuizAttempt } from '../types';
+import SpinnerIcon from './icons/SpinnerIcon';
+import { formatScore, summarizeQuizProgress } from '../utils/quizProgress';
+
+interface QuizPanelProps {
+  quiz: Quiz | null;
+  fileName: string;
+  // Prism language of the file, for the code in "predict the output" questions.
+  language: string;
+  isLoading: boolean;
+  error?: string;
+  // Earlier attempts on this file, for the running score in the header.
+  attempts: QuizAttempt[];
+  onSubmit: (score: number, total: number, missedBlocks: number[]) => void;
+  onSelectBlock: (blockIndex: number) => void;
+  onRegenerate: () => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+const inlineMarkdown = 'prose prose-invert max-w-none prose-sm prose-p:my-0 prose-code:text-cyan-accent prose-code:before:content-none prose-code:after:content-none';
+
+const QuizPanel: React.FC<QuizPanelProps> = ({ quiz, fileName, language, isLoading, error, attempts, onSubmit, onSelectBlock, onRegenerate, onStop, onClose }) => {
+  const [answers, setAnswers] = useState<(number | null)[]>([]);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+
+  // A new set of questions starts a fresh attempt.
+  useEffect(() => {
+    if (isLoading) {
+      setAnswers([]);
+      setIsSubmitted(false);
+    }
+  }, [isLoading]);
+
+  const questions = quiz?.questions ?? [];
+  const canSubmit = !isLoading && !quiz?.incomplete && questions.length > 0 && questions.every((_, i) => answers[i] != null);
+  const score = questions.filter((question, i) => answers[i] === question.answer).length;
+  const progress = summarizeQuizProgress(attempts).files[0];
+
+  const submit = () => {
+    const missedBlocks = [...new Set(questions.filter((question, i) => answers[i] !== question.answer).map(question => question.blockIndex))];
+    setIsSubmitted(true);
+    onSubmit(score, questions.length, missedBlocks.sort((a, b) => a - b));
+  };
+
+  const retry = () => {
+    setAnswers([]);
+    setIsSubmitted(false);
+  };
+
+  const choose = (questionIndex: number, choice: number) => {
+    if (isSubmitted) return;
+    setAnswers(prev => {
+      const next = [...prev];
+      next[questionIndex] = choice;
+      return next;
+    });
+  };
+
+  const choiceClass = (questionIndex: number, choice: number) => {
+    const chosen = answers[questionIndex] === choice;
+    if (!isSubmitted) {
+      return chosen ? 'border-cyan-accent bg-cyan-accent/10 text-white' : 'border-gray-700 text-gray-300 hover:bg-gray-700/40';
+    }
+    if (choice === questions[questionIndex].answer) return 'border-green-accent bg-green-accent/10 text-white';
+    return chosen ? 'border-red-500/60 bg-red-900/20 text-red-200' : 'border-gray-700 text-gray-500';
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 font-sans" onClick={onClose}>
+      <div
+        className="bg-gray-800 border border-gray-700 rounded-lg shadow-2xl w-[90vw] max-w-3xl h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-5 py-3 border-b border-gray-700">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-cyan-accent">Comprehension Quiz</h3>
+            <p className="text-xs text-gray-500 truncate">
+              <span className="font-mono">{fileName}</span>
+              {quiz?.model && <> · generated by {quiz.model}</>}
+              {progress && <> · best {formatScore(progress.best)} over {progress.attempts} {progress.attempts === 1 ? 'attempt' : 'attempts'}</>}
+            </p>
+          </div>
+          <div className="ml-auto flex flex-shrink-0 items-center gap-2 text-sm">
+            {isLoading ? (
+              <button onClick={onStop} className="px-3 py-1.5 text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors">
+                Stop
+              </button>
+            ) : (
+              <button onClick={onRegenerate} className="px-3 py-1.5 text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors">
+                {quiz ? 'New Questions' : 'Generate'}
+              </button>
+            )}
+            <button onClick={onClose} className="px-2 py-1.5 text-gray-400 hover:text-white transition-colors" title="Close">✕</button>
+          </div>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-5 space-y-5">
+          {error && !isLoading && (
+            <div className="p-3 rounded-md border border-red-500/40 bg-red-900/20 prose prose-invert max-w-none prose-sm prose-p:text-red-300 prose-strong:text-red-200">
+              <ReactMarkdown remarkPlugins={[remarkGfm]}>{error}</ReactMarkdown>
+            </div>
+          )}
+          {quiz?.incomplete && !isLoading && (
+            <p className="text-xs text-orange-accent">Stopped before it finished. Generate new questions to take the quiz.</p>
+          )}
+          {quiz?.invalid ? (
+            <p className="text-xs text-orange-accent">
+              {quiz.invalid} malformed {quiz.invalid === 1 ? 'question was' : 'questions were'} left out.
+            </p>
+          ) : null}
+
+          {questions.map((question, i) => {
+            const isWrong = isSubmitted && answers[i] !== question.answer;
+            return (
+              <div key={i} className="space-y-2">
+                <div className="flex items-start gap-2">
+                  <span className="flex-shrink-0 text-sm font-semibold text-gray-500">{i + 1}.</span>
+                  <div className={`${inlineMarkdown} text-gray-200`}>
+                    <ReactMarkdown remarkPlugins={[remarkGfm]}>{question.question}</ReactMarkdown>
+                  </div>
+                </div>
+                {question.code && (
+                  <div className="ml-5 rounded-md bg-gray-900 overflow-x-auto">
+                    <SyntaxHighlighter language={language} style={atomDark} customStyle={{ margin: 0, background: 'transparent', fontSize: '13px' }} PreTag="div">
+                      {question.code}
+                    </SyntaxHighlighter>
+                  </div>
+                )}
+                <div className="ml-5 grid gap-1.5">
+                  {question.choices.map((choice, c) => (
+                    <button
+                      key={c}
+                      onClick={() => choose(i, c)}
+                      disabled={isSubmitted}
+                      className={`flex items-start gap-2 px-3 py-2 text-left text-sm rounded-md border transition-colors ${choiceClass(i, c)}`}
+                    >
+                      <span className="flex-shrink-0 font-mono text-xs mt-0.5">{String.fromCharCode(65 + c)}</span>
+                      <span className={inlineMarkdown}><ReactMarkdown remarkPlugins={[remarkGfm]}>{choice}</ReactMarkdown></span>
+                    </button>
+                  ))}
+                </div>
+                {isSubmitted && (
+                  <div className={`ml-5 p-2 rounded-md text-sm ${isWrong ? 'bg-red-900/10' : 'bg-green-accent/5'}`}>
+                    <div className={`${inlineMarkdown} text-gray-300`}>
+                      <ReactMarkdown remarkPlugins={[remarkGfm]}>{question.explanation}</ReactMarkdown>
+                    </div>
+                    {isWrong && (
+                      <button onClick={() => onSelectBlock(question.blockIndex)} className="mt-1 text-xs text-cyan-accent hover:text-white underline">
+                        Read block {question.blockIndex + 1} again
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {isLoading && (
+            <div className="flex items-center gap-2 text-sm text-gray-500">
+              <SpinnerIcon className="w-4 h-4 text-blue-accent" />
+              <span>Writing questions...</span>
+            </div>
+          )}
+        </div>
+
+        {questions.length > 0 && (
+          <div className="flex items-center gap-3 px-5 py-3 border-t border-gray-700 text-sm">
+            {isSubmitted ? (
+              <>
+                <span className={score === questions.length ? 'text-green-accent' : 'text-gray-300'}>
+                  {score} of {questions.length} correct ({formatScore(score / questions.length)})
+                </span>
+                <button onClick={retry} className="ml-auto px-3 py-1.5 text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors">
+                  Try Again
+                </button>
+              </>
+            ) : (
+              <>
+                <span className="text-gray-500">{answers.filter(answer => answer != null).length} of {questions.length} answered</span>
+                <button
+                  onClick={submit}
+                  disabled={!canSubmit}
+                  className="ml-auto px-3 py-1.5 text-cyan-accent hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+                >
+                  Check Answers
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuizPanel;
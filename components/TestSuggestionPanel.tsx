@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { atomDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import type { TestSuggestion } from '../types';
+import SpinnerIcon from './icons/SpinnerIcon';
+import CopyIcon from './icons/CopyIcon';
+import CheckIcon from './icons/CheckIcon';
+import DownloadIcon from './icons/DownloadIcon';
+import { assembleTestFile } from '../utils/testFrameworks';
+import { downloadBlob } from '../utils/download';
+
+interface TestSuggestionPanelProps {
+  suggestion: TestSuggestion | null;
+  framework: string;
+  isLoading: boolean;
+  error?: string;
+  // Case selected when the panel opens, e.g. from a block's test link.
+  focusCase: number | null;
+  onSelectBlock: (blockIndex: number) => void;
+  onRegenerate: () => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+const TestSuggestionPanel: React.FC<TestSuggestionPanelProps> = ({ suggestion, framework, isLoading, error, focusCase, onSelectBlock, onRegenerate, onStop, onClose }) => {
+  const [activeCase, setActiveCase] = useState<number | null>(focusCase);
+  const [copied, setCopied] = useState(false);
+  const lineRefs = useRef<(HTMLElement | null)[]>([]);
+
+  const assembled = useMemo(() => suggestion ? assembleTestFile(suggestion) : null, [suggestion]);
+  const activeRange = activeCase !== null ? assembled?.caseRanges[activeCase] ?? null : null;
+
+  useEffect(() => {
+    if (activeRange) lineRefs.current[activeRange.startLine]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [activeRange]);
+
+  const copy = async () => {
+    if (!assembled) return;
+    try {
+      await navigator.clipboard.writeText(assembled.text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+    }
+  };
+
+  const download = () => {
+    if (!assembled || !suggestion) return;
+    downloadBlob(new Blob([assembled.text], { type: 'text/plain' }), suggestion.fileName);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 font-sans" onClick={onClose}>
+      <div
+        className="bg-gray-800 border border-gray-700 rounded-lg shadow-2xl w-[90vw] max-w-6xl h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 px-5 py-3 border-b border-gray-700">
+          <div className="min-w-0">
+            <h3 className="text-lg font-bold text-cyan-accent">Suggested Tests</h3>
+            <p className="text-xs text-gray-500 truncate">
+              {suggestion ? <><span className="font-mono">{suggestion.fileName}</span> · {suggestion.framework}</> : framework}
+              {suggestion?.model && <> · generated by {suggestion.model}</>}
+            </p>
+          </div>
+          <div className="ml-auto flex flex-shrink-0 items-center gap-2 text-sm">
+            {isLoading ? (
+              <button onClick={onStop} className="px-3 py-1.5 text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors">
+                Stop
+              </button>
+            ) : (
+              <button onClick={onRegenerate} className="px-3 py-1.5 text-gray-300 hover:text-white bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors">
+                {suggestion ? 'Regenerate' : 'Generate'}
+              </button>
+            )}
+            <button
+              onClick={copy}
+              disabled={!assembled}
+              className="flex items-center gap-2 px-3 py-1.5 text-gray-300 hover:text-white disabled:text-gray-600 bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+            >
+              {copied ? <CheckIcon className="w-4 h-4" /> : <CopyIcon className="w-4 h-4" />}
+              <span>{copied ? 'Copied!' : 'Copy'}</span>
+            </button>
+            <button
+              onClick={download}
+              disabled={!assembled}
+              className="flex items-center gap-2 px-3 py-1.5 text-gray-300 hover:text-white disabled:text-gray-600 bg-gray-700/50 hover:bg-gray-700 rounded-md transition-colors"
+            >
+              <DownloadIcon className="w-4 h-4" />
+              <span>Download</span>
+            </button>
+            <button onClick={onClose} className="px-2 py-1.5 text-gray-400 hover:text-white transition-colors" title="Close">✕</button>
+          </div>
+        </div>
+
+        <div className="flex-grow grid grid-cols-[18rem_1fr] min-h-0">
+          <div className="overflow-y-auto border-r border-gray-700 p-3 space-y-1">
+            {error && !isLoading && (
+              <div className="p-3 mb-2 rounded-md border border-red-500/40 bg-red-900/20 prose prose-invert max-w-none prose-sm prose-p:text-red-300 prose-strong:text-red-200">
+                <ReactMarkdown remarkPlugins={[remarkGfm]}>{error}</ReactMarkdown>
+              </div>
+            )}
+            {suggestion?.incomplete && !isLoading && (
+              <p className="mb-2 text-xs text-orange-accent">Stopped before it finished.</p>
+            )}
+            {suggestion?.invalid ? (
+              <p className="mb-2 text-xs text-orange-accent">
+                {suggestion.invalid} malformed {suggestion.invalid === 1 ? 'part was' : 'parts were'} left out.
+              </p>
+            ) : null}
+            {suggestion?.cases.map((testCase, i) => (
+              <div
+                key={i}
+                onClick={() => setActiveCase(i)}
+                className={`p-2 rounded-md cursor-pointer transition-colors ${activeCase === i ? 'bg-gray-700/70 ring-1 ring-cyan-accent/50' : 'hover:bg-gray-700/40'}`}
+              >
+                <p className="text-sm text-gray-200 break-words">{testCase.name}</p>
+                {testCase.description && <p className="text-xs text-gray-400 mt-0.5">{testCase.description}</p>}
+                {testCase.blockIndex !== null ? (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onSelectBlock(testCase.blockIndex!); }}
+                    className="mt-1 text-xs text-cyan-accent hover:text-white underline"
+                  >
+                    Covers block {testCase.blockIndex + 1}
+                  </button>
+                ) : (
+                  <p className="mt-1 text-xs text-gray-600">Not linked to a block</p>
+                )}
+              </div>
+            ))}
+            {isLoading && (
+              <div className="flex items-center gap-2 p-2 text-sm text-gray-500">
+                <SpinnerIcon className="w-4 h-4 text-blue-accent" />
+                <span>Writing tests...</span>
+              </div>
+            )}
+          </div>
+
+          <div className="overflow-auto bg-gray-900">
+            {assembled && (
+              <SyntaxHighlighter
+                language={suggestion!.language}
+                style={atomDark}
+                showLineNumbers
+                wrapLines={true}
+                lineProps={(lineNumber: number) => ({
+                  ref: (el: HTMLElement | null) => { if (el) lineRefs.current[lineNumber] = el; },
+                  style: {
+                    display: 'block',
+                    backgroundColor: activeRange && lineNumber >= activeRange.startLine && lineNumber <= activeRange.endLine
+                      ? 'rgba(51, 196, 227, 0.15)' // cyan-accent with opacity
+                      : undefined,
+                  },
+                })}
+                customStyle={{ margin: 0, background: 'transparent', fontSize: '14px' }}
+                PreTag="div"
+              >
+                {assembled.text}
+              </SyntaxHighlighter>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TestSuggestionPanel;
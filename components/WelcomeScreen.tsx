@@ -3,6 +3,7 @@ import React, { useRef, useState } from 'react';
 import type { FileNode, HistoryEntry } from '../types';
 import { getAssetPath } from '../utils/paths';
 import { validateAndFilterFiles, validatePastedContent, validateFileContent, FILE_LIMITS } from '../utils/fileValidation';
+import DiffInput from './DiffInput';
 
 interface WelcomeScreenProps {
   onProjectReady: (files: FileNode) => void;
@@ -15,6 +16,7 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onProjectReady, setIsLoad
   const fileInputRef = useRef<HTMLInputElement>(null);
   const folderInputRef = useRef<HTMLInputElement>(null);
   const [showPasteArea, setShowPasteArea] = useState(false);
+  const [showDiffInput, setShowDiffInput] = useState(false);
   const [pastedCode, setPastedCode] = useState('');
   const [fileName, setFileName] = useState('pasted-code');
   const [showHistoryDropdown, setShowHistoryDropdown] = useState(false);
@@ -290,7 +292,9 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onProjectReady, setIsLoad
           directory=""
         />
 
-        {!showPasteArea ? (
+        {showDiffInput ? (
+          <DiffInput onProjectReady={onProjectReady} onCancel={() => setShowDiffInput(false)} />
+        ) : !showPasteArea ? (
           <>
             <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
                 <button
@@ -315,6 +319,13 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onProjectReady, setIsLoad
                 </button>
             </div>
 
+            <button
+              onClick={() => setShowDiffInput(true)}
+              className="mt-6 text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              Reviewing a change? <span className="underline">Compare two versions or paste a diff</span>
+            </button>
+
             {/* History Dropdown */}
             {history.length > 0 && onSelectHistory && (
               <div className="mt-8 pt-6 border-t border-gray-700">
@@ -0,0 +1,122 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { ExplanationBlock, FileNode } from '../types';
+import type { MockFixtureLine, MockFixtures, ProviderConfig } from './providers';
+import { estimateProcessAll, generateQuizStream, type QuizEvent } from './geminiService';
+
+// Every request goes to the mock provider, replaying the fixtures a test sets here.
+const fixtures = vi.hoisted(() => ({ current: {} as Partial<MockFixtures> }));
+// The mock has no token counter; a test can give it one here.
+const tokenCounter = vi.hoisted(() => ({ current: null as ((text: string) => Promise<number>) | null }));
+
+vi.mock('./providers', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./providers')>();
+  const empty: MockFixtures = { explain: [], summaries: [], diff: [], review: [], tests: [], quiz: [], glossary: [], 'deep-dive': [], text: [] };
+  return {
+    ...actual,
+    createProvider: (config: ProviderConfig) => ({
+      ...actual.createMockProvider(config, { ...empty, ...fixtures.current }),
+      ...(tokenCounter.current ? { countTokens: tokenCounter.current } : {}),
+    }),
+  };
+});
+
+const MOCK_CONFIG: ProviderConfig = { kind: 'mock', apiKey: '', baseUrl: '', model: 'mock' };
+
+const BLOCKS: ExplanationBlock[] = [
+  { code_block: 'const a = 1;', explanation: 'Declares `a`.' },
+  { code_block: 'export default a;', explanation: 'Exports `a`.' },
+];
+
+// A JSON array with one element per question, as the model streams it.
+const quizFixture = (...questions: unknown[]): MockFixtureLine[] => [
+  { text: '[' },
+  ...questions.map((question, i) => ({ text: (i > 0 ? ',' : '') + JSON.stringify(question) })),
+  { text: ']' },
+];
+
+const collectQuiz = async (...questions: unknown[]): Promise<QuizEvent[]> => {
+  fixtures.current = { quiz: quizFixture(...questions) };
+  const events: QuizEvent[] = [];
+  for await (const event of generateQuizStream('a.ts', 'const a = 1;\nexport default a;', BLOCKS, 'intermediate', MOCK_CONFIG)) {
+    events.push(event);
+  }
+  return events;
+};
+
+const question = (choices: unknown[], answer: number) => ({
+  kind: 'multiple_choice',
+  block: 1,
+  question: 'What does the first block declare?',
+  choices,
+  answer,
+  explanation: 'It declares `a`.',
+});
+
+describe('generateQuizStream', () => {
+  it('keeps the right answer marked after shuffling the choices', async () => {
+    const [event] = await collectQuiz(question(['a constant', 'a function', 'a class'], 0));
+    expect(event.type).toBe('question');
+    if (event.type !== 'question') return;
+    expect([...event.question.choices].sort()).toEqual(['a class', 'a constant', 'a function']);
+    expect(event.question.choices[event.question.answer]).toBe('a constant');
+    expect(event.question.blockIndex).toBe(0);
+  });
+
+  it.each([
+    ['an empty choice', ['', 'a constant', 'a function'], 1],
+    ['a blank choice', ['  ', 'a constant', 'a function'], 1],
+    ['a non-text choice', [42, 'a constant', 'a function'], 1],
+  ])('rejects a question with %s instead of shifting the answer', async (_, choices, answer) => {
+    const [event] = await collectQuiz(question(choices, answer));
+    expect(event.type).toBe('invalid');
+  });
+
+  it('rejects only the bad question in a stream', async () => {
+    const events = await collectQuiz(
+      question(['a constant', 'a function'], 0),
+      question([null, 'a constant', 'a function'], 1),
+      question(['a constant', 'a class'], 0),
+    );
+    expect(events.map(event => event.type)).toEqual(['question', 'invalid', 'question']);
+  });
+});
+
+describe('estimateProcessAll', () => {
+  const FILES: FileNode[] = Array.from({ length: 12 }, (_, i) => ({
+    name: `f${i}.ts`, path: `src/f${i}.ts`, content: `export const f${i} = ${'1 + '.repeat(i * 10)}1;`, children: [],
+  }));
+
+  const estimate = async (countTokens: ((text: string) => Promise<number>) | null) => {
+    tokenCounter.current = countTokens;
+    try {
+      return await estimateProcessAll(FILES, 'intermediate', ['beginner', 'intermediate'], () => MOCK_CONFIG);
+    } finally {
+      tokenCounter.current = null;
+    }
+  };
+
+  it('counts exactly with a few requests in flight at a time', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const result = await estimate(async () => {
+      peak = Math.max(peak, ++inFlight);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      inFlight--;
+      return 100;
+    });
+    expect(result.isExact).toBe(true);
+    expect(result.inputTokens).toBe(FILES.length * 200);
+    expect(peak).toBeGreaterThan(1);
+    expect(peak).toBeLessThanOrEqual(4);
+  });
+
+  it('approximates every count once one fails', async () => {
+    let calls = 0;
+    const result = await estimate(async () => {
+      if (++calls === 5) throw new Error('429 RESOURCE_EXHAUSTED');
+      return 100;
+    });
+    expect(result.isExact).toBe(false);
+    expect(result).toEqual({ ...await estimate(null), isExact: false });
+  });
+});
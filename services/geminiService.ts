@@ -1,32 +1,109 @@
 
-import { GoogleGenAI } from "@google/genai";
-import type { ExplanationBlock, ExplanationLevel } from "../types";
-
-const MODEL_NAME = "gemini-2.5-flash";
+import type { BuiltInLevel, ChatMessage, ContextPackEntry, CustomLevel, DiffInfo, ExplanationBlock, ExplanationLevel, FileNode, FindingCategory, FindingSeverity, GlossaryTerm, QuizQuestion, ReviewFinding, TestCase } from "../types";
+import { createProvider, type ChatTurn, type LLMProvider, type ProviderConfig, type ResponseSchema } from "./providers";
+import { parseJsonStream, type ParsedElement } from "./streamParser";
+import { approximateTokens, estimateOutputTokens, estimatePrice, type ProcessAllEstimate } from "../utils/costEstimate";
+import { needsChunking, splitIntoChunks, type CodeChunk } from "../utils/codeChunker";
+import { formatSummaryNodes, groupDeepestNodes, planSummaryBatches, splitNodesByBudget, type SummaryFile, type SummaryNode } from "../utils/summaryBatches";
+import { getLevelName } from "../utils/explanationLevels";
+import { DEFAULT_LANGUAGE } from "../utils/outputLanguage";
+import type { ProjectContext } from "../utils/projectSearch";
+import type { GlossaryMaterial } from "../utils/glossary";
+import { formatContextPackEntry } from "../utils/contextPack";
+import { analyzeCoverage, gapsToFill, sliceLines } from "../utils/coverage";
+import { locateBlocks, type LineRange } from "../utils/blockLocation";
+import { splitHunks } from "../utils/diff";
+import type { TestFramework } from "../utils/testFrameworks";
+import { withRetries, type RetryInfo } from "./retry";
 
 export type { ExplanationLevel };
+export type { RetryInfo };
 
-// Common utility functions
-const validateApiKey = (apiKey: string) => {
-    if (!apiKey) {
-        throw new Error("Gemini API key is not configured.");
-    }
+// Per-call settings and hooks the UI can pass down to every request.
+export interface RequestOptions {
+    // Overrides the task's built-in temperature.
+    temperature?: number;
+    // Language for the prose in the response. Defaults to English.
+    language?: string;
+    // Called before each backoff wait on a quota or transient error.
+    onRetry?: (info: RetryInfo) => void;
+    // Aborts the request, including any backoff wait. The generator or
+    // promise then rejects with the signal's reason.
+    signal?: AbortSignal;
+}
+
+export interface ExplainOptions extends RequestOptions {
+    // Summaries and signatures of the files this one imports.
+    contextPack?: ContextPackEntry[];
+}
+
+const createRequestProvider = (config: ProviderConfig, options: RequestOptions) =>
+    withRetries(createProvider(config), options.onRetry);
+
+// Appends a language rule to a system instruction. English needs none, which
+// keeps the default prompts exactly as they were.
+const inLanguage = (systemInstruction: string, language: string | undefined, rule: (language: string) => string) =>
+    !language || language === DEFAULT_LANGUAGE
+        ? systemInstruction
+        : `${systemInstruction}\n\n**OUTPUT LANGUAGE:**\n${rule(language)}`;
+
+const explainLanguageRule = (language: string) =>
+    `Write every "explanation" value in ${language}. The "code_block" values must stay exact copies of the source: never translate code, identifiers, comments or string literals.`;
+
+const explanationSchema: ResponseSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            code_block: { type: 'string', description: 'Exact, verbatim snippet copied from the file.' },
+            explanation: { type: 'string', description: 'Markdown explanation of the snippet.' },
+        },
+        required: ['code_block', 'explanation'],
+    },
+};
+
+const summariesSchema: ResponseSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            type: { type: 'string', enum: ['file_summary'] },
+            path: { type: 'string', description: 'File path, exactly as given.' },
+            summary: { type: 'string' },
+        },
+        required: ['type', 'summary'],
+    },
 };
 
-const createAI = (apiKey: string) => {
-    validateApiKey(apiKey);
-    return new GoogleGenAI({ apiKey });
+const isNonEmptyString = (value: unknown): value is string =>
+    typeof value === 'string' && value.trim() !== '';
+
+// Turns one streamed array element into a block. Anything that does not fit
+// becomes a block carrying an `error` instead of being dropped.
+const toExplanationBlock = (element: ParsedElement): ExplanationBlock => {
+    if (element.error) {
+        return { code_block: '', explanation: '', error: `${element.error}\n\n${element.raw}` };
+    }
+
+    const value = element.value as Record<string, unknown> | null;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { code_block: '', explanation: '', error: `Expected an object, got: ${element.raw}` };
+    }
+
+    const missing = ['code_block', 'explanation'].filter(field => !isNonEmptyString(value[field]));
+    return {
+        code_block: isNonEmptyString(value.code_block) ? value.code_block : '',
+        explanation: isNonEmptyString(value.explanation) ? value.explanation : '',
+        ...(missing.length > 0 ? { error: `The model returned a block without ${missing.join(' or ')}.` } : {}),
+    };
 };
 
-const getStreamingSystemInstruction = (level: ExplanationLevel): string => {
-    const baseRules = `**CRITICAL STREAMING FORMAT:**
-You MUST respond by streaming explanations as individual JSON objects, one per line:
-{"code_block": "exact verbatim code snippet", "explanation": "markdown explanation"}
-{"code_block": "next exact verbatim code snippet", "explanation": "markdown explanation"}
-...
+const BASE_RULES = `**CRITICAL RESPONSE FORMAT:**
+You MUST respond with a single JSON array of objects, in source order:
+[{"code_block": "exact verbatim code snippet", "explanation": "markdown explanation"}, {"code_block": "next exact verbatim code snippet", "explanation": "markdown explanation"}, ...]
 
 **CRITICAL RESPONSE FORMAT RULES:**
-1. **ONE JSON OBJECT PER LINE:** Each code block and explanation pair must be a separate JSON object on its own line.
+1. **ONE OBJECT PER BLOCK:** Each code block and explanation pair must be a separate object in the array.
 2. **VERBATIM CODE:** The "code_block" value MUST be an exact, verbatim, character-for-character copy of a snippet from the original file.
 3. **SEQUENTIAL & NON-REPEATING:** Process the file sequentially from top to bottom. Once you explain a code block, DO NOT include it again.
 
@@ -38,10 +115,14 @@ You MUST respond by streaming explanations as individual JSON objects, one per l
 - **Bulleted Lists for Enumerations:** Use bulleted lists (\`* item\`) for multiple items.
 - **Bold for Emphasis:** Use **bold text** to highlight key terms.`;
 
-    if (level === 'beginner') {
-        return `You are a friendly code tutor explaining code to someone new to programming. Your task is to analyze the provided code and generate clear, simple, block-by-block explanations for beginners.
+export const BASE_RULES_PLACEHOLDER = '{base_rules}';
+
+// The built-in levels use the same template format as custom ones, so a custom
+// level can start from a copy of any of them.
+export const BUILT_IN_TEMPLATES: Record<BuiltInLevel, string> = {
+    beginner: `You are a friendly code tutor explaining code to someone new to programming. Your task is to analyze the provided code and generate clear, simple, block-by-block explanations for beginners.
 
-${baseRules}
+{base_rules}
 
 **BEGINNER-LEVEL EXPLANATION STYLE:**
 - Use simple, everyday language (avoid jargon where possible)
@@ -52,14 +133,20 @@ ${baseRules}
 - Don't assume prior knowledge of the language or framework
 
 **EXAMPLE OUTPUT:**
-{"code_block": "const name = 'John';", "explanation": "This creates a **variable** called \`name\` which stores the text 'John'.\\n\\nThink of a variable like a labeled box where you can keep information to use later in your program."}
-{"code_block": "if (age > 18) {\\n  console.log('Adult');\\n}", "explanation": "This is a **conditional statement** that checks if the age is greater than 18.\\n\\nIf the condition is true (the person is older than 18), it prints 'Adult' to the console. The console is like a text output window where developers can see messages."}`;
-    }
+[{"code_block": "const name = 'John';", "explanation": "This creates a **variable** called \`name\` which stores the text 'John'.\\n\\nThink of a variable like a labeled box where you can keep information to use later in your program."},
+{"code_block": "if (age > 18) {\\n  console.log('Adult');\\n}", "explanation": "This is a **conditional statement** that checks if the age is greater than 18.\\n\\nIf the condition is true (the person is older than 18), it prints 'Adult' to the console. The console is like a text output window where developers can see messages."}]`,
 
-    if (level === 'expert') {
-        return `You are a senior software engineer providing detailed technical analysis for experienced developers. Your task is to analyze the provided code with a focus on design patterns, architecture, and advanced concepts.
+    intermediate: `You are an expert software engineer acting as a code tutor. Your task is to analyze the provided code and generate concise, block-by-block explanations.
 
-${baseRules}
+{base_rules}
+
+**EXAMPLE OUTPUT:**
+[{"code_block": "function example(name, options) {\\n  // ...\\n}", "explanation": "This function \`example\` sets up a new component.\\n\\nIt accepts the following parameters:\\n\\n*   **name**: The unique identifier\\n*   **options**: Configuration object"},
+{"code_block": "const result = process(data);", "explanation": "This line processes the input data and stores the result.\\n\\n**Important:** The process function handles validation internally."}]`,
+
+    expert: `You are a senior software engineer providing detailed technical analysis for experienced developers. Your task is to analyze the provided code with a focus on design patterns, architecture, and advanced concepts.
+
+{base_rules}
 
 **EXPERT-LEVEL EXPLANATION STYLE:**
 - Assume strong programming fundamentals
@@ -71,57 +158,758 @@ ${baseRules}
 - Suggest improvements where relevant
 
 **EXAMPLE OUTPUT:**
-{"code_block": "const memoizedSelector = useMemo(() => createSelector(...), [deps]);", "explanation": "Implements **memoization** via React's \`useMemo\` hook to cache the selector creation.\\n\\n**Design Decision:** This prevents unnecessary re-creation of the selector on each render, optimizing performance when \`deps\` remain stable.\\n\\n**Trade-off:** Adds memory overhead for the cached value but eliminates redundant computation. Alternative approaches include \`useCallback\` for function refs or external memoization libraries like Reselect."}`;
-    }
-
-    // Default: intermediate (current behavior)
-    return `You are an expert software engineer acting as a code tutor. Your task is to analyze the provided code and generate concise, block-by-block explanations.
+[{"code_block": "const memoizedSelector = useMemo(() => createSelector(...), [deps]);", "explanation": "Implements **memoization** via React's \`useMemo\` hook to cache the selector creation.\\n\\n**Design Decision:** This prevents unnecessary re-creation of the selector on each render, optimizing performance when \`deps\` remain stable.\\n\\n**Trade-off:** Adds memory overhead for the cached value but eliminates redundant computation. Alternative approaches include \`useCallback\` for function refs or external memoization libraries like Reselect."}]`,
+};
 
-${baseRules}
+// A built-in level by id, or a custom level with its template. Unknown ids
+// (a custom level deleted since) fall back to intermediate.
+export type LevelPrompt = ExplanationLevel | CustomLevel;
 
-**EXAMPLE OUTPUT:**
-{"code_block": "function example(name, options) {\\n  // ...\\n}", "explanation": "This function \`example\` sets up a new component.\\n\\nIt accepts the following parameters:\\n\\n*   **name**: The unique identifier\\n*   **options**: Configuration object"}
-{"code_block": "const result = process(data);", "explanation": "This line processes the input data and stores the result.\\n\\n**Important:** The process function handles validation internally."}`;
+const getStreamingSystemInstruction = (level: LevelPrompt): string => {
+    const template = typeof level === 'object'
+        ? level.template
+        : BUILT_IN_TEMPLATES[level as BuiltInLevel] ?? BUILT_IN_TEMPLATES.intermediate;
+    return template.includes(BASE_RULES_PLACEHOLDER)
+        ? template.split(BASE_RULES_PLACEHOLDER).join(BASE_RULES)
+        : `${template}\n\n${BASE_RULES}`;
 };
 
+const levelId = (level: LevelPrompt): ExplanationLevel => typeof level === 'object' ? level.id : level;
+
+// Goes in front of the code so the model reads what imported helpers do
+// before it meets them, instead of guessing from their names.
+const contextPackPrompt = (pack: ContextPackEntry[] = []) => pack.length > 0
+    ? `This file imports the project files below. What they provide, for reference only. Do not explain them, but use them to say what imported helpers and types actually do:\n\n${pack.map(formatContextPackEntry).join('\n\n')}\n\n`
+    : '';
+
+const explainFilePrompt = (fileName: string, code: string, pack?: ContextPackEntry[]) =>
+    `${contextPackPrompt(pack)}Analyze the following code from the file \`${fileName}\`:\n\n---\n${code}\n---`;
+
 export interface ExplanationChunk {
     text?: string;
 }
 
-// Callers consume this with `for await`, so the empty-file case has to be an
-// async iterable too rather than a plain resolved value.
+const explainChunkPrompt = (fileName: string, chunk: CodeChunk, total: number, context: string[], pack?: ContextPackEntry[]) => {
+    const earlier = context.length > 0
+        ? `Earlier parts of the file were already explained. What they cover, for context only:\n${context.map(c => `- ${c}`).join('\n')}\n\n`
+        : '';
+    return `${contextPackPrompt(pack)}This is part ${chunk.index + 1} of ${total} of the file \`${fileName}\` (lines ${chunk.startLine}-${chunk.endLine}). Explain only this part.\n\n${earlier}---\n${chunk.text}\n---`;
+};
+
+const explainGapPrompt = (fileName: string, code: string, gap: LineRange, pack?: ContextPackEntry[]) =>
+    `${contextPackPrompt(pack)}An earlier explanation of the file \`${fileName}\` skipped lines ${gap.startLine}-${gap.endLine}. Explain only these lines, and copy every one of them into the blocks.\n\n---\n${sliceLines(code, gap)}\n---`;
+
+const MAX_RUNNING_CONTEXT_CHARS = 1500;
+
+// One line per explained block: where it starts and the first sentence of what
+// it does. Oldest lines are dropped once the context passes the cap.
+const addToRunningContext = (context: string[], block: ExplanationBlock) => {
+    const firstLine = block.code_block.split('\n')[0].trim().slice(0, 80);
+    const firstSentence = block.explanation.replace(/\s+/g, ' ').split(/(?<=[.!?])\s/)[0].slice(0, 160);
+    context.push(`\`${firstLine}\`: ${firstSentence}`);
+    while (context.join('\n').length > MAX_RUNNING_CONTEXT_CHARS && context.length > 1) {
+        context.shift();
+    }
+};
+
+export interface ChunkProgress {
+    index: number;
+    total: number;
+    startLine: number;
+    endLine: number;
+    // Set while lines the first pass skipped are being requested again.
+    gap?: boolean;
+}
+
+// `gap` is set on blocks that fill skipped lines. They arrive after the rest
+// of the file, so the caller has to put them back in source order.
+export type ExplainEvent =
+    | { type: 'block', block: ExplanationBlock, gap?: LineRange }
+    | ({ type: 'chunk' } & ChunkProgress);
+
+const MAX_GAP_REQUESTS = 6;
+
+async function* streamBlocks(provider: LLMProvider, contents: string, level: LevelPrompt, options: RequestOptions): AsyncGenerator<ExplainEvent> {
+    const signal = options.signal;
+    const stream = provider.generateStream({
+        contents,
+        systemInstruction: inLanguage(getStreamingSystemInstruction(level), options.language, explainLanguageRule),
+        temperature: options.temperature ?? (levelId(level) === 'expert' ? 0.3 : 0.2),
+        responseSchema: explanationSchema,
+        signal,
+    });
+
+    for await (const element of parseJsonStream(stream)) {
+        // The parser flushes a truncated trailing object when the stream ends,
+        // which after an abort is just the half-written block. Drop it.
+        signal?.throwIfAborted();
+        yield { type: 'block', block: toExplanationBlock(element) };
+    }
+}
+
+/**
+ * Streams a file's explanation block by block. Files over the chunk budget are
+ * explained part by part, in source order; lines the model skipped are
+ * requested again once the whole file is done.
+ */
 export async function* explainFileInBulk(
     fileName: string,
     code: string,
-    apiKey: string,
-    level: ExplanationLevel = 'intermediate'
-): AsyncGenerator<ExplanationChunk> {
-    const ai = createAI(apiKey);
+    config: ProviderConfig,
+    level: LevelPrompt = 'intermediate',
+    options: ExplainOptions = {}
+): AsyncGenerator<ExplainEvent> {
+    const provider = createRequestProvider(config, options);
 
     if (!code.trim()) {
         yield {
-            text: JSON.stringify({
+            type: 'block',
+            block: {
                 code_block: "// This file is empty.",
                 explanation: "There is no code in this file to analyze."
-            })
+            }
         };
         return;
     }
 
-    const stream = await ai.models.generateContentStream({
-        model: MODEL_NAME,
-        contents: `Analyze the following code from the file \`${fileName}\`:\n\n---\n${code}\n---`,
-        config: {
-            systemInstruction: getStreamingSystemInstruction(level),
-            temperature: level === 'expert' ? 0.3 : 0.2,
+    const explained: ExplanationBlock[] = [];
+
+    if (!needsChunking(code)) {
+        for await (const event of streamBlocks(provider, explainFilePrompt(fileName, code, options.contextPack), level, options)) {
+            yield event;
+            if (event.type === 'block') explained.push(event.block);
+        }
+    } else {
+        const chunks = splitIntoChunks(code);
+        const context: string[] = [];
+
+        for (const chunk of chunks) {
+            options.signal?.throwIfAborted();
+            yield { type: 'chunk', index: chunk.index, total: chunks.length, startLine: chunk.startLine, endLine: chunk.endLine };
+
+            for await (const event of streamBlocks(provider, explainChunkPrompt(fileName, chunk, chunks.length, context, options.contextPack), level, options)) {
+                yield event;
+                if (event.type === 'block') {
+                    explained.push(event.block);
+                    if (!event.block.error) addToRunningContext(context, event.block);
+                }
+            }
+        }
+    }
+
+    yield* fillCoverageGaps(provider, fileName, code, explained, level, options);
+}
+
+// The prompt asks for blocks that cover every line, but models still skip
+// some. Each skipped run gets one targeted request. A failed request only
+// leaves its gap open; the rest of the explanation stands.
+async function* fillCoverageGaps(
+    provider: LLMProvider,
+    fileName: string,
+    code: string,
+    blocks: ExplanationBlock[],
+    level: LevelPrompt,
+    options: ExplainOptions
+): AsyncGenerator<ExplainEvent> {
+    const gaps = gapsToFill(code, analyzeCoverage(code, blocks)).slice(0, MAX_GAP_REQUESTS);
+
+    for (const [index, gap] of gaps.entries()) {
+        options.signal?.throwIfAborted();
+        yield { type: 'chunk', index, total: gaps.length, ...gap, gap: true };
+
+        try {
+            for await (const event of streamBlocks(provider, explainGapPrompt(fileName, code, gap, options.contextPack), level, options)) {
+                if (event.type === 'block') yield { ...event, gap };
+            }
+        } catch (error) {
+            if (options.signal?.aborted) throw error;
+            console.warn(`Could not fill lines ${gap.startLine}-${gap.endLine} of ${fileName}:`, error);
         }
+    }
+}
+
+/**
+ * Blocks for one range of lines, for when the user asks for lines the
+ * explanation left out. Uses the same prompt as the automatic gap requests.
+ */
+export async function* explainLinesStream(
+    fileName: string,
+    code: string,
+    range: LineRange,
+    config: ProviderConfig,
+    level: LevelPrompt = 'intermediate',
+    options: ExplainOptions = {}
+): AsyncGenerator<ExplanationBlock> {
+    const provider = createRequestProvider(config, options);
+    for await (const event of streamBlocks(provider, explainGapPrompt(fileName, code, range, options.contextPack), level, options)) {
+        if (event.type === 'block') yield event.block;
+    }
+}
+
+const diffSchema: ResponseSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            hunk: { type: 'integer', description: 'Number of the hunk, as given.' },
+            what_changed: { type: 'string', description: 'Markdown: what the hunk changes.' },
+            why_it_matters: { type: 'string', description: 'Markdown: the likely intent and its effect.' },
+            risks: { type: 'string', description: 'Markdown: what a reviewer should check.' },
+        },
+        required: ['hunk', 'what_changed', 'why_it_matters', 'risks'],
+    },
+};
+
+const diffSystemInstruction = (levelName: string) => `You are an experienced engineer reviewing a code change. You get the hunks of one file's diff in unified format, each under a numbered heading. Explain every hunk, in order, for a reader at the "${levelName}" level.
+
+**CRITICAL RESPONSE FORMAT:**
+You MUST respond with a single JSON array with one object per hunk, in hunk order:
+[{"hunk": 1, "what_changed": "markdown", "why_it_matters": "markdown", "risks": "markdown"}, ...]
+
+- **what_changed:** What the hunk does to the code. Describe the behaviour, not a line-by-line retelling of the + and - lines.
+- **why_it_matters:** The likely intent, and the effect on callers, users or other parts of the system.
+- **risks:** Bugs, regressions, edge cases, missing tests or migration concerns a reviewer should check. Write "None apparent." when there are none.
+
+**MARKDOWN STYLE RULES:**
+- Keep each value short: a few sentences or a short bulleted list.
+- **NO TABLES:** Use bulleted lists instead.
+- Insert a blank line before starting any list.`;
+
+const diffLanguageRule = (language: string) =>
+    `Write every "what_changed", "why_it_matters" and "risks" value in ${language}. Never translate code or identifiers.`;
+
+const DIFF_STATUS_TEXT: Record<DiffInfo['status'], string> = {
+    added: 'was added',
+    modified: 'was modified',
+    deleted: 'was deleted',
+    renamed: 'was renamed',
+};
+
+const explainDiffPrompt = (path: string, diff: DiffInfo, hunks: { number: number; text: string }[]) =>
+    `The file \`${path}\` ${DIFF_STATUS_TEXT[diff.status]}${diff.oldPath ? ` (previously \`${diff.oldPath}\`)` : ''}. Explain these hunks:\n\n` +
+    hunks.map(hunk => `### Hunk ${hunk.number}\n\`\`\`diff\n${hunk.text}\n\`\`\``).join('\n\n');
+
+const DIFF_BATCH_TOKENS = 12_000;
+
+const formatDiffExplanation = (value: Record<string, unknown>) => [
+    `**What changed:** ${value.what_changed}`,
+    `**Why it matters:** ${value.why_it_matters}`,
+    `**Risks:** ${value.risks}`,
+].join('\n\n');
+
+/**
+ * Explains a diff session's file hunk by hunk. Each block's `code_block` is
+ * the hunk itself, so it always maps back onto the unified content. Replies
+ * are put in hunk order, and a hunk the model skipped becomes a flagged block.
+ */
+export async function* explainDiffInBulk(
+    path: string,
+    diff: DiffInfo,
+    content: string,
+    config: ProviderConfig,
+    level: LevelPrompt = 'intermediate',
+    options: RequestOptions = {}
+): AsyncGenerator<ExplainEvent> {
+    const hunks = splitHunks(content);
+    if (hunks.length === 0) {
+        yield { type: 'block', block: { code_block: content, explanation: 'There is no textual change to explain.' } };
+        return;
+    }
+
+    const batches: { number: number; text: string }[][] = [[]];
+    let used = 0;
+    hunks.forEach((text, i) => {
+        const tokens = approximateTokens(text);
+        if (batches[batches.length - 1].length > 0 && used + tokens > DIFF_BATCH_TOKENS) {
+            batches.push([]);
+            used = 0;
+        }
+        batches[batches.length - 1].push({ number: i + 1, text });
+        used += tokens;
     });
 
-    for await (const chunk of stream) {
-        yield { text: chunk.text };
+    // 1-based line of the unified content where hunk `number` starts.
+    const lineOfHunk = (number: number) => hunks.slice(0, number - 1).reduce((line, hunk) => line + hunk.split('\n').length, 1);
+
+    const provider = createRequestProvider(config, options);
+    const signal = options.signal;
+    const systemInstruction = inLanguage(diffSystemInstruction(getLevelName(level)), options.language, diffLanguageRule);
+
+    for (const [index, batch] of batches.entries()) {
+        signal?.throwIfAborted();
+        if (batches.length > 1) {
+            const startLine = lineOfHunk(batch[0].number);
+            const endLine = lineOfHunk(batch[batch.length - 1].number) + hunks[batch[batch.length - 1].number - 1].split('\n').length - 1;
+            yield { type: 'chunk', index, total: batches.length, startLine, endLine };
+        }
+
+        const explained = new Map<number, ExplanationBlock>();
+        let next = batch[0].number;
+        const last = batch[batch.length - 1].number;
+
+        const stream = provider.generateStream({
+            contents: explainDiffPrompt(path, diff, batch),
+            systemInstruction,
+            temperature: options.temperature ?? 0.2,
+            responseSchema: diffSchema,
+            signal,
+        });
+
+        for await (const element of parseJsonStream(stream)) {
+            signal?.throwIfAborted();
+            const value = element.value as Record<string, unknown> | null;
+            const number = value && typeof value === 'object' ? Number(value.hunk) : NaN;
+
+            if (element.error || !value || !(number >= next && number <= last) || explained.has(number)) {
+                yield { type: 'block', block: { code_block: '', explanation: '', error: `${element.error ?? 'Not one of the hunks that were asked for.'}\n\n${element.raw}` } };
+                continue;
+            }
+
+            const missing = ['what_changed', 'why_it_matters', 'risks'].filter(field => !isNonEmptyString(value[field]));
+            explained.set(number, {
+                code_block: hunks[number - 1],
+                explanation: formatDiffExplanation(value),
+                ...(missing.length > 0 ? { error: `The model returned a hunk without ${missing.join(' or ')}.` } : {}),
+            });
+
+            while (explained.has(next)) {
+                yield { type: 'block', block: explained.get(next)! };
+                next++;
+            }
+        }
+
+        for (; next <= last; next++) {
+            yield {
+                type: 'block',
+                block: explained.get(next) ?? { code_block: hunks[next - 1], explanation: '', error: 'The model did not explain this hunk.' },
+            };
+        }
+    }
+}
+
+const FINDING_CATEGORIES: FindingCategory[] = ['bug', 'security', 'performance', 'style'];
+const FINDING_SEVERITIES: FindingSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+const reviewSchema: ResponseSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            category: { type: 'string', enum: FINDING_CATEGORIES },
+            severity: { type: 'string', enum: FINDING_SEVERITIES },
+            start_line: { type: 'integer', description: 'First line of the issue, as numbered in the input.' },
+            end_line: { type: 'integer', description: 'Last line of the issue, as numbered in the input.' },
+            title: { type: 'string', description: 'One-line summary of the issue.' },
+            rationale: { type: 'string', description: 'Markdown: why this is a problem.' },
+            suggested_fix: { type: 'string', description: 'Markdown: how to fix it, usually with a short code fence.' },
+        },
+        required: ['category', 'severity', 'start_line', 'end_line', 'title', 'rationale', 'suggested_fix'],
+    },
+};
+
+const reviewSystemInstruction = `You are a meticulous senior engineer doing a code review. You get one file, or one part of it, with every line prefixed by its line number and a "|". Report the real problems you find in it.
+
+**CRITICAL RESPONSE FORMAT:**
+You MUST respond with a single JSON array of findings, ordered by line:
+[{"category": "bug", "severity": "high", "start_line": 12, "end_line": 14, "title": "...", "rationale": "markdown", "suggested_fix": "markdown"}, ...]
+Respond with [] when you find nothing worth reporting.
+
+- **category:** "bug" for incorrect behaviour, "security" for anything an attacker could exploit or that leaks data, "performance" for needless work or poor scaling, "style" for readability and maintainability problems.
+- **severity:** "critical" breaks the program or is exploitable as written; "high" is likely to cause failures; "medium" fails in edge cases or will hurt later; "low" is a minor improvement.
+- **start_line, end_line:** The numbers from the input of the smallest range that shows the issue. Never count lines yourself.
+- **title:** One line, under 80 characters.
+- **rationale:** Why it is a problem and when it shows up. A few sentences.
+- **suggested_fix:** The change to make, with the corrected code in a short fenced block. Leave out the line-number prefixes.
+
+**RULES:**
+- Report concrete issues in this code only. No praise, no summaries, no generic advice.
+- Do not report the same issue twice.
+- Only use "style" for problems a reviewer would actually ask to change.`;
+
+const reviewLanguageRule = (language: string) =>
+    `Write every "title", "rationale" and "suggested_fix" value in ${language}. Never translate code or identifiers.`;
+
+// Numbers are right-aligned so the code keeps its indentation.
+const numberLines = (code: string, firstLine: number) => {
+    const lines = code.split('\n');
+    const width = String(firstLine + lines.length - 1).length;
+    return lines.map((line, i) => `${String(firstLine + i).padStart(width)}| ${line}`).join('\n');
+};
+
+const reviewPrompt = (fileName: string, chunk: CodeChunk, total: number) => total > 1
+    ? `Review part ${chunk.index + 1} of ${total} of the file \`${fileName}\` (lines ${chunk.startLine}-${chunk.endLine}):\n\n---\n${numberLines(chunk.text, chunk.startLine)}\n---`
+    : `Review the file \`${fileName}\`:\n\n---\n${numberLines(chunk.text, chunk.startLine)}\n---`;
+
+export type ReviewEvent =
+    | { type: 'finding', finding: ReviewFinding }
+    | { type: 'invalid', error: string }
+    | ({ type: 'chunk' } & ChunkProgress);
+
+// Checks one streamed element against the schema. Line numbers are clamped to
+// the lines that were sent, since the model sometimes runs one past the end.
+const toReviewFinding = (element: ParsedElement, range: LineRange): ReviewFinding | string => {
+    if (element.error) return `${element.error}\n\n${element.raw}`;
+
+    const value = element.value as Record<string, unknown> | null;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return `Expected an object, got: ${element.raw}`;
+
+    const category = value.category as FindingCategory;
+    const severity = value.severity as FindingSeverity;
+    const start = Number(value.start_line);
+    const end = Number(value.end_line);
+    if (!FINDING_CATEGORIES.includes(category)) return `Unknown category: ${element.raw}`;
+    if (!FINDING_SEVERITIES.includes(severity)) return `Unknown severity: ${element.raw}`;
+    if (!Number.isInteger(start) || !Number.isInteger(end)) return `Missing line numbers: ${element.raw}`;
+    if (!isNonEmptyString(value.title) || !isNonEmptyString(value.rationale)) return `Missing title or rationale: ${element.raw}`;
+
+    const clamp = (line: number) => Math.min(Math.max(line, range.startLine), range.endLine);
+    const startLine = clamp(Math.min(start, end));
+    return {
+        category,
+        severity,
+        startLine,
+        endLine: Math.max(startLine, clamp(Math.max(start, end))),
+        title: value.title.trim(),
+        rationale: value.rationale,
+        suggestedFix: typeof value.suggested_fix === 'string' ? value.suggested_fix : '',
+    };
+};
+
+/**
+ * Reviews a file for bugs, security, performance and style problems. Large
+ * files are reviewed part by part, like explanations. Elements that fail
+ * validation are reported as `invalid` events rather than dropped silently.
+ */
+export async function* reviewFileStream(
+    fileName: string,
+    code: string,
+    config: ProviderConfig,
+    options: RequestOptions = {}
+): AsyncGenerator<ReviewEvent> {
+    if (!code.trim()) return;
+
+    const provider = createRequestProvider(config, options);
+    const signal = options.signal;
+    const systemInstruction = inLanguage(reviewSystemInstruction, options.language, reviewLanguageRule);
+    const chunks = needsChunking(code) ? splitIntoChunks(code) : [{ index: 0, startLine: 1, endLine: code.split('\n').length, text: code }];
+
+    for (const chunk of chunks) {
+        signal?.throwIfAborted();
+        if (chunks.length > 1) {
+            yield { type: 'chunk', index: chunk.index, total: chunks.length, startLine: chunk.startLine, endLine: chunk.endLine };
+        }
+
+        const stream = provider.generateStream({
+            contents: reviewPrompt(fileName, chunk, chunks.length),
+            systemInstruction,
+            temperature: options.temperature ?? 0.1,
+            responseSchema: reviewSchema,
+            signal,
+        });
+
+        for await (const element of parseJsonStream(stream)) {
+            signal?.throwIfAborted();
+            const finding = toReviewFinding(element, chunk);
+            yield typeof finding === 'string' ? { type: 'invalid', error: finding } : { type: 'finding', finding };
+        }
     }
 }
 
+const testsSchema: ResponseSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            kind: { type: 'string', enum: ['header', 'test', 'footer'] },
+            block: { type: 'integer', description: 'Number of the block the test exercises. Tests only.' },
+            name: { type: 'string', description: 'Name of the test. Tests only.' },
+            description: { type: 'string', description: 'One sentence: the behaviour the test checks. Tests only.' },
+            code: { type: 'string', description: 'Source code of this part of the test file.' },
+        },
+        required: ['kind', 'code'],
+    },
+};
+
+const testsSystemInstruction = (framework: TestFramework) => `You are a senior engineer writing unit tests with ${framework.name}. You get a source file with numbered lines, and a list of numbered blocks: the parts of the file that were explained, with their line ranges and what they do. Write a test file \`${framework.fileName}\` that exercises the file's behaviour.
+
+**CRITICAL RESPONSE FORMAT:**
+You MUST respond with a single JSON array, in file order:
+[{"kind": "header", "code": "imports and shared setup"}, {"kind": "test", "block": 2, "name": "...", "description": "...", "code": "..."}, ..., {"kind": "footer", "code": "..."}]
+
+- **header:** Exactly one, first: imports, fixtures and helpers shared by the tests, and anything the tests must sit inside.
+- **test:** One per test case. "block" is the number of the block it exercises, "code" is the complete test, runnable once placed between the header and footer.
+- **footer:** Exactly one, last: whatever closes what the header opened. Use "" when nothing needs closing.
+
+**RULES:**
+- ${framework.conventions}
+- Cover the important behaviour of every block that has any: normal cases, edge cases and error paths. Skip blocks with nothing to test, such as imports or type declarations.
+- Mock only real external dependencies: network, filesystem, time, randomness.
+- Test names say what behaviour they check.
+- Never use the line numbers in the code.`;
+
+const testsLanguageRule = (language: string) =>
+    `Write every "description" value in ${language}. Test names and code stay as they would be written in the project.`;
+
+// Blocks are referred to by number and line range, not their code again: the
+// source is already in the prompt with its line numbers.
+const suggestTestsPrompt = (path: string, code: string, blocks: ExplanationBlock[]) => {
+    const ranges = locateBlocks(code, blocks);
+    const list = blocks.map((block, i) => {
+        const where = ranges[i] ? `lines ${ranges[i]!.startLine}-${ranges[i]!.endLine}` : 'not found in the source';
+        const summary = block.explanation.replace(/\s+/g, ' ').slice(0, 300);
+        return `${i + 1}. (${where}) ${summary}`;
+    });
+    return `Blocks of \`${path}\`:\n${list.join('\n')}\n\nThe source:\n\n---\n${numberLines(code, 1)}\n---`;
+};
+
+export type TestEvent =
+    | { type: 'header' | 'footer', code: string }
+    | { type: 'case', testCase: TestCase }
+    | { type: 'invalid', error: string };
+
+const toTestEvent = (element: ParsedElement, blockCount: number): TestEvent => {
+    if (element.error) return { type: 'invalid', error: `${element.error}\n\n${element.raw}` };
+
+    const value = element.value as Record<string, unknown> | null;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return { type: 'invalid', error: `Expected an object, got: ${element.raw}` };
+
+    const code = typeof value.code === 'string' ? value.code : '';
+    if (value.kind === 'header' || value.kind === 'footer') return { type: value.kind, code };
+    if (value.kind !== 'test') return { type: 'invalid', error: `Unknown kind: ${element.raw}` };
+    if (!isNonEmptyString(code) || !isNonEmptyString(value.name)) return { type: 'invalid', error: `A test without a name or code: ${element.raw}` };
+
+    const block = Number(value.block);
+    return {
+        type: 'case',
+        testCase: {
+            name: value.name.trim(),
+            description: isNonEmptyString(value.description) ? value.description.trim() : '',
+            code,
+            blockIndex: Number.isInteger(block) && block >= 1 && block <= blockCount ? block - 1 : null,
+        },
+    };
+};
+
+/**
+ * Suggests a test file for `code`, building on its explanation: each case
+ * names the block it covers. Streams the header, cases and footer as they
+ * arrive; elements that fail validation come through as `invalid`.
+ */
+export async function* suggestTestsStream(
+    path: string,
+    code: string,
+    blocks: ExplanationBlock[],
+    framework: TestFramework,
+    config: ProviderConfig,
+    options: RequestOptions = {}
+): AsyncGenerator<TestEvent> {
+    const provider = createRequestProvider(config, options);
+    const signal = options.signal;
+    const stream = provider.generateStream({
+        contents: suggestTestsPrompt(path, code, blocks),
+        systemInstruction: inLanguage(testsSystemInstruction(framework), options.language, testsLanguageRule),
+        temperature: options.temperature ?? 0.2,
+        responseSchema: testsSchema,
+        signal,
+    });
+
+    for await (const element of parseJsonStream(stream)) {
+        signal?.throwIfAborted();
+        yield toTestEvent(element, blocks.length);
+    }
+}
+
+const quizSchema: ResponseSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            kind: { type: 'string', enum: ['multiple_choice', 'predict_output'] },
+            block: { type: 'integer', description: 'Number of the block the question is about.' },
+            question: { type: 'string' },
+            code: { type: 'string', description: 'The line or short snippet whose result is asked for. predict_output only.' },
+            choices: { type: 'array', items: { type: 'string' }, description: '3 or 4 answers, exactly one of them correct.' },
+            answer: { type: 'integer', description: 'Index of the correct choice, starting at 0.' },
+            explanation: { type: 'string', description: 'Why the answer is correct, in one or two sentences.' },
+        },
+        required: ['kind', 'block', 'question', 'choices', 'answer', 'explanation'],
+    },
+};
+
+const quizSystemInstruction = (levelName: string) => `You are a patient mentor checking that a reader at the "${levelName}" level understood a source file. You get the file with numbered lines and the numbered blocks it was explained in, each with its explanation. Write a short quiz on it.
+
+**CRITICAL RESPONSE FORMAT:**
+You MUST respond with a single JSON array of questions:
+[{"kind": "multiple_choice", "block": 1, "question": "...", "choices": ["...", "...", "..."], "answer": 0, "explanation": "..."}, {"kind": "predict_output", "block": 3, "question": "What does this return when ...?", "code": "...", "choices": [...], "answer": 2, "explanation": "..."}]
+
+- **multiple_choice:** A question on what a block does, why it is written that way, or how it fits the rest of the file.
+- **predict_output:** A question on what a specific line or call returns or prints for a given input. Put that line in "code" and state the input in the question.
+
+**RULES:**
+- Write 5 to 8 questions, spread across the blocks that matter. Skip blocks with nothing to ask, such as imports.
+- Every question must be answerable from the code and its explanations alone.
+- Give 3 or 4 choices with exactly one correct. Wrong choices are plausible mistakes a reader could make, not jokes.
+- Never use the line numbers in questions or choices.`;
+
+const quizLanguageRule = (language: string) =>
+    `Write every "question", "choices" and "explanation" value in ${language}. Code stays as it is in the source.`;
+
+// Unlike the tests prompt, the quiz sends the explanations in full: they are
+// what the reader is being checked on.
+const quizPrompt = (path: string, code: string, blocks: ExplanationBlock[]) => {
+    const ranges = locateBlocks(code, blocks);
+    const list = blocks.map((block, i) => {
+        const where = ranges[i] ? `lines ${ranges[i]!.startLine}-${ranges[i]!.endLine}` : 'not found in the source';
+        return `### Block ${i + 1} (${where})\n${block.explanation.trim()}`;
+    });
+    return `Blocks of \`${path}\`:\n\n${list.join('\n\n')}\n\nThe source:\n\n---\n${numberLines(code, 1)}\n---`;
+};
+
+export type QuizEvent =
+    | { type: 'question', question: QuizQuestion }
+    | { type: 'invalid', error: string };
+
+// Models tend to put the right answer first, so the choices are shuffled here.
+const shuffleChoices = (choices: string[], answer: number) => {
+    const order = choices.map((_, i) => i);
+    for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+    }
+    return { choices: order.map(i => choices[i]), answer: order.indexOf(answer) };
+};
+
+const toQuizEvent = (element: ParsedElement, blockCount: number): QuizEvent => {
+    if (element.error) return { type: 'invalid', error: `${element.error}\n\n${element.raw}` };
+
+    const value = element.value as Record<string, unknown> | null;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return { type: 'invalid', error: `Expected an object, got: ${element.raw}` };
+
+    if (value.kind !== 'multiple_choice' && value.kind !== 'predict_output') return { type: 'invalid', error: `Unknown kind: ${element.raw}` };
+    if (!isNonEmptyString(value.question) || !isNonEmptyString(value.explanation)) return { type: 'invalid', error: `A question without its text or explanation: ${element.raw}` };
+
+    // Dropping a bad choice would shift the ones after it away from `answer`, so it fails the question.
+    if (!Array.isArray(value.choices) || !value.choices.every(isNonEmptyString)) return { type: 'invalid', error: `A question with an empty or non-text choice: ${element.raw}` };
+    const choices = value.choices.map(choice => choice.trim());
+    if (choices.length < 2 || new Set(choices).size !== choices.length) return { type: 'invalid', error: `A question needs at least two distinct choices: ${element.raw}` };
+
+    const answer = Number(value.answer);
+    if (!Number.isInteger(answer) || answer < 0 || answer >= choices.length) return { type: 'invalid', error: `The answer is not one of the choices: ${element.raw}` };
+
+    const block = Number(value.block);
+    if (!Number.isInteger(block) || block < 1 || block > blockCount) return { type: 'invalid', error: `The question is not tied to a known block: ${element.raw}` };
+
+    return {
+        type: 'question',
+        question: {
+            kind: value.kind,
+            blockIndex: block - 1,
+            question: value.question.trim(),
+            ...(value.kind === 'predict_output' && isNonEmptyString(value.code) ? { code: value.code.replace(/^\n+|\s+$/g, '') } : {}),
+            ...shuffleChoices(choices, answer),
+            explanation: value.explanation.trim(),
+        },
+    };
+};
+
+/**
+ * Builds a multiple-choice quiz from a file's explanation, each question tied
+ * to the block it checks. Streams questions as they arrive; elements that fail
+ * validation come through as `invalid`.
+ */
+export async function* generateQuizStream(
+    path: string,
+    code: string,
+    blocks: ExplanationBlock[],
+    level: LevelPrompt,
+    config: ProviderConfig,
+    options: RequestOptions = {}
+): AsyncGenerator<QuizEvent> {
+    const provider = createRequestProvider(config, options);
+    const signal = options.signal;
+    const stream = provider.generateStream({
+        contents: quizPrompt(path, code, blocks),
+        systemInstruction: inLanguage(quizSystemInstruction(getLevelName(level)), options.language, quizLanguageRule),
+        temperature: options.temperature ?? 0.4,
+        responseSchema: quizSchema,
+        signal,
+    });
+
+    for await (const element of parseJsonStream(stream)) {
+        signal?.throwIfAborted();
+        yield toQuizEvent(element, blocks.length);
+    }
+}
+
+// Exact counting is one request per text, so only a few run at once.
+const TOKEN_COUNT_CONCURRENCY = 4;
+
+// Counts every text with the provider, or returns null if any count fails.
+const countTokensExactly = async (countTokens: (text: string) => Promise<number>, texts: string[]): Promise<number[] | null> => {
+    const counts: number[] = new Array(texts.length);
+    const tasks = texts.map((text, index) => async () => ({ index, tokens: await countTokens(text) }));
+    try {
+        for await (const { index, tokens } of runPooled(tasks, TOKEN_COUNT_CONCURRENCY)) {
+            counts[index] = tokens;
+        }
+        return counts;
+    } catch (error) {
+        console.warn('Token counting failed, using the local approximation:', error);
+        return null;
+    }
+};
+
+/**
+ * Pre-flight numbers for explaining `files` at each of `levels`. Uses the
+ * provider's token counter when it has one, and the local approximation
+ * otherwise or if any count fails, so the totals never mix the two. Each level
+ * is priced with the model `configForLevel` picks for it; tokens are counted
+ * with the selected level's model.
+ */
+export const estimateProcessAll = async (
+    files: FileNode[],
+    level: ExplanationLevel,
+    levels: LevelPrompt[],
+    configForLevel: (level: ExplanationLevel) => ProviderConfig
+): Promise<ProcessAllEstimate> => {
+    const provider = createProvider(configForLevel(level));
+    const prompts = files.map(file => explainFilePrompt(file.name, file.content || ''));
+    const instructions = levels.map(l => getStreamingSystemInstruction(l));
+    const texts = [...prompts, ...instructions];
+
+    const exact = provider.countTokens ? await countTokensExactly(provider.countTokens.bind(provider), texts) : null;
+    const isExact = exact !== null;
+    const counts = exact ?? texts.map(text => approximateTokens(text));
+    const promptTokens = counts.slice(0, prompts.length);
+    const promptTotal = promptTokens.reduce((sum, tokens) => sum + tokens, 0);
+
+    const levelEstimates = levels.map((l, i) => {
+        const id = levelId(l);
+        const instructionTokens = counts[prompts.length + i];
+        const inputTokens = promptTotal + instructionTokens * files.length;
+        const outputTokens = promptTokens.reduce((sum, tokens) => sum + estimateOutputTokens(tokens, id), 0);
+        const config = configForLevel(id);
+        return { level: id, name: getLevelName(l), model: config.model, inputTokens, outputTokens, price: estimatePrice(config, inputTokens, outputTokens) };
+    });
+
+    const selected = levelEstimates.find(l => l.level === level) ?? levelEstimates[0];
+    const instructionShare = Math.round((selected.inputTokens - promptTotal) / Math.max(files.length, 1));
+
+    return {
+        level,
+        files: files.map((file, i) => ({
+            path: file.path,
+            inputTokens: promptTokens[i] + instructionShare,
+            outputTokens: estimateOutputTokens(promptTokens[i], level),
+        })),
+        levels: levelEstimates,
+        inputTokens: selected.inputTokens,
+        outputTokens: selected.outputTokens,
+        price: selected.price,
+        isExact,
+    };
+};
+
 
 const deepDiveSystemInstruction = `You are a senior software engineer and code architect providing a detailed analysis.
 
@@ -157,116 +945,373 @@ Your task is to provide a "deep dive" analysis. Focus on the "why" and "how else
 `;
 
 
-export const explainSnippetStream = (block: ExplanationBlock, fileName:string, apiKey: string) => {
-    const ai = createAI(apiKey);
+export async function* explainSnippetStream(block: ExplanationBlock, fileName: string, config: ProviderConfig, options: RequestOptions = {}): AsyncGenerator<ExplanationChunk> {
+    const provider = createRequestProvider(config, options);
 
-    return ai.models.generateContentStream({
-        model: MODEL_NAME,
+    const stream = provider.generateStream({
         contents: `Here is the code from \`${fileName}\` that needs a deep dive:\n\n\`\`\`\n${block.code_block}\n\`\`\``,
-        config: {
-            systemInstruction: deepDiveSystemInstruction.replace('{original_explanation}', block.explanation),
-            temperature: 0.4,
+        systemInstruction: inLanguage(
+            deepDiveSystemInstruction.replace('{original_explanation}', block.explanation),
+            options.language,
+            language => `Write the whole analysis in ${language}. Keep code, identifiers and quoted snippets exactly as they are.`
+        ),
+        temperature: options.temperature ?? 0.4,
+        signal: options.signal,
+    });
+
+    for await (const text of stream) {
+        yield { text };
+    }
+}
+
+const followUpSystemInstruction = `You are a senior software engineer answering follow-up questions about one block of code from \`{file_name}\`.
+
+**THE CODE:**
+\`\`\`
+{code_block}
+\`\`\`
+
+**THE EXPLANATION THE USER HAS READ:**
+"""
+{explanation}
+"""
+
+**THE DEEP DIVE THE USER HAS READ:**
+"""
+{deep_dive}
+"""
+
+**HOW TO ANSWER:**
+- Answer the question that was asked, about this code. Refer back to the explanation and deep dive instead of repeating them.
+- When the user proposes an alternative, weigh it honestly against the current code and say when it would be the better choice.
+- Keep answers short: a few paragraphs at most. Use code snippets only when they make the point clearer.
+- Respond in well-formatted Markdown, with a blank line before every list.
+`;
+
+// Failed replies, and the questions that produced them, are left out so the
+// model only sees exchanges that actually happened.
+const toChatHistory = (thread: ChatMessage[]): ChatTurn[] => {
+    const turns: ChatTurn[] = [];
+    for (let i = 0; i < thread.length; i++) {
+        const message = thread[i];
+        if (message.role === 'user' && (!thread[i + 1] || thread[i + 1].error)) {
+            i++;
+            continue;
+        }
+        if (!message.error) turns.push({ role: message.role, text: message.text });
+    }
+    return turns;
+};
+
+/**
+ * Streams the reply to a follow-up question about a block. `thread` holds the
+ * earlier messages, without the new question.
+ */
+export async function* followUpStream(block: ExplanationBlock, fileName: string, thread: ChatMessage[], question: string, config: ProviderConfig, options: RequestOptions = {}): AsyncGenerator<ExplanationChunk> {
+    const provider = createRequestProvider(config, options);
+
+    const systemInstruction = followUpSystemInstruction
+        .replace('{file_name}', fileName)
+        .replace('{code_block}', block.code_block)
+        .replace('{explanation}', block.explanation)
+        .replace('{deep_dive}', block.deep_dive_explanation || '(No deep dive was generated.)');
+
+    const stream = provider.generateStream({
+        contents: question,
+        history: toChatHistory(thread),
+        systemInstruction: inLanguage(
+            systemInstruction,
+            options.language,
+            language => `Answer in ${language}. Keep code, identifiers and quoted snippets exactly as they are.`
+        ),
+        temperature: options.temperature ?? 0.4,
+        signal: options.signal,
+    });
+
+    for await (const text of stream) {
+        yield { text };
+    }
+}
+
+
+const projectChatSystemInstruction = `You are a senior software engineer answering questions about a codebase the user has uploaded. Each question comes with the parts of the project that look relevant to it: file excerpts with line numbers, earlier explanations of code blocks, and summaries.
+
+**HOW TO ANSWER:**
+- Answer only from the provided context. If it does not contain the answer, say so and name the files that would most likely hold it.
+- Back every claim about the code with a citation in exactly this form: [path/to/file.ts:12-30] or [path/to/file.ts:12]. Use the file path exactly as given and the line numbers shown in the excerpts.
+- Never cite lines that were not shown to you.
+- Keep answers focused: a few paragraphs, with short code snippets only when they help.
+- Respond in well-formatted Markdown, with a blank line before every list.
+`;
+
+const formatProjectContext = (context: ProjectContext): string => {
+    const sections: string[] = [];
+    if (context.projectSummary) {
+        sections.push(`## Project summary\n\n${context.projectSummary}`);
+    }
+    sections.push(`## All files\n\n${context.paths.join('\n')}`);
+
+    if (context.files.length === 0) {
+        sections.push('## Relevant files\n\nNo file matched the question.');
+    }
+    for (const file of context.files) {
+        const parts = [`## ${file.path}`];
+        if (file.summary) parts.push(`Summary: ${file.summary}`);
+        for (const excerpt of file.excerpts) {
+            parts.push(`Lines ${excerpt.startLine}-${excerpt.endLine}:\n\`\`\`\n${excerpt.text}\n\`\`\``);
+        }
+        for (const block of file.blocks) {
+            parts.push(`Explanation of lines ${block.startLine}-${block.endLine}:\n${block.explanation}`);
         }
+        sections.push(parts.join('\n\n'));
+    }
+    return sections.join('\n\n');
+};
+
+/**
+ * Streams an answer to a question about the whole project. Only the newest
+ * question carries file context; earlier turns are sent as plain text.
+ */
+export async function* answerProjectQuestionStream(question: string, context: ProjectContext, thread: ChatMessage[], config: ProviderConfig, options: RequestOptions = {}): AsyncGenerator<ExplanationChunk> {
+    const provider = createRequestProvider(config, options);
+
+    const stream = provider.generateStream({
+        contents: `${formatProjectContext(context)}\n\n---\n\n**Question:** ${question}`,
+        history: toChatHistory(thread),
+        systemInstruction: inLanguage(
+            projectChatSystemInstruction,
+            options.language,
+            language => `Answer in ${language}. Keep code, identifiers, file paths and citations exactly as they are.`
+        ),
+        temperature: options.temperature ?? 0.2,
+        signal: options.signal,
     });
+
+    for await (const text of stream) {
+        yield { text };
+    }
+}
+
+
+const glossarySchema: ResponseSchema = {
+    type: 'array',
+    items: {
+        type: 'object',
+        properties: {
+            term: { type: 'string' },
+            kind: { type: 'string', enum: ['concept', 'identifier'] },
+            definition: { type: 'string', description: 'One to three sentences on what the term means in this project.' },
+            aliases: { type: 'array', items: { type: 'string' }, description: 'Other spellings used for the same thing.' },
+        },
+        required: ['term', 'kind', 'definition'],
+    },
 };
 
+const glossarySystemInstruction = `You are a technical writer building the glossary a new team member reads first. You get the summaries of a project's files and the explanations written for their code. Pick the terms a newcomer must know and define each one once.
 
-export const generateAllSummariesStream = async function* (files: { path: string; name: string; content: string }[], apiKey: string): AsyncGenerator<{ type: 'file_summary', path: string, summary: string } | { type: 'project_summary', summary: string } | { type: 'error', message: string }> {
-    if (files.length === 0) return;
-    
-    const ai = createAI(apiKey);
-    const systemInstruction = `You are a code analysis expert. You will receive multiple files from a project and must provide individual file summaries followed by an overall project summary.
+**CRITICAL RESPONSE FORMAT:**
+You MUST respond with a single JSON array:
+[{"term": "history entry", "kind": "concept", "definition": "...", "aliases": ["history entries", "HistoryEntry"]}, {"term": "explanationsCache", "kind": "identifier", "definition": "...", "aliases": []}]
+
+- **concept:** A domain term or idea that recurs across the project, written as the explanations write it.
+- **identifier:** An important name from the code: a type, function, component, variable or setting that several files rely on. Spell it exactly as in the code.
+
+**RULES:**
+- 15 to 40 terms, the most important first. Skip general programming vocabulary every developer knows.
+- Never define the same thing twice: put other spellings, plurals and the identifier behind a concept in "aliases".
+- Definitions say what the term means in this project, in plain prose without markdown.`;
+
+const glossaryLanguageRule = (language: string) =>
+    `Write every "definition" value in ${language}. Identifiers stay exactly as they are in the code; concepts are named as the explanations name them.`;
+
+const formatGlossaryMaterial = (material: GlossaryMaterial): string => {
+    const sections: string[] = [];
+    if (material.projectSummary) sections.push(`## Project summary\n\n${material.projectSummary}`);
+    for (const file of material.files) {
+        const parts = [`## ${file.path}`];
+        if (file.summary) parts.push(`Summary: ${file.summary}`);
+        if (file.explanations.length > 0) parts.push(file.explanations.map(text => `- ${text}`).join('\n'));
+        sections.push(parts.join('\n\n'));
+    }
+    if (material.truncated) sections.push('(Some explanations were left out for length.)');
+    return sections.join('\n\n');
+};
+
+export type GlossaryEvent =
+    | { type: 'term', term: Omit<GlossaryTerm, 'usages'> }
+    | { type: 'invalid', error: string };
+
+const toGlossaryEvent = (element: ParsedElement): GlossaryEvent => {
+    if (element.error) return { type: 'invalid', error: `${element.error}\n\n${element.raw}` };
+
+    const value = element.value as Record<string, unknown> | null;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return { type: 'invalid', error: `Expected an object, got: ${element.raw}` };
+    if (!isNonEmptyString(value.term) || !isNonEmptyString(value.definition)) return { type: 'invalid', error: `A term without its name or definition: ${element.raw}` };
+
+    const term = value.term.trim();
+    const aliases = Array.isArray(value.aliases)
+        ? [...new Set(value.aliases.filter(isNonEmptyString).map(alias => alias.trim()))].filter(alias => alias !== term)
+        : [];
+    return {
+        type: 'term',
+        term: { term, kind: value.kind === 'identifier' ? 'identifier' : 'concept', definition: value.definition.trim(), aliases },
+    };
+};
+
+/**
+ * Streams glossary terms for a project, drawn from its summaries and block
+ * explanations. Where each term is used is left to the caller, which has
+ * the sources.
+ */
+export async function* generateGlossaryStream(material: GlossaryMaterial, config: ProviderConfig, options: RequestOptions = {}): AsyncGenerator<GlossaryEvent> {
+    const provider = createRequestProvider(config, options);
+    const signal = options.signal;
+    const stream = provider.generateStream({
+        contents: formatGlossaryMaterial(material),
+        systemInstruction: inLanguage(glossarySystemInstruction, options.language, glossaryLanguageRule),
+        temperature: options.temperature ?? 0.2,
+        responseSchema: glossarySchema,
+        signal,
+    });
+
+    for await (const element of parseJsonStream(stream)) {
+        signal?.throwIfAborted();
+        yield toGlossaryEvent(element);
+    }
+}
+
+export type SummaryEvent =
+    | { type: 'file_summary', path: string, summary: string, error?: string }
+    | { type: 'invalid', message: string };
+
+const toSummaryEvent = (element: ParsedElement): SummaryEvent => {
+    if (element.error) {
+        return { type: 'invalid', message: `${element.error}\n\n${element.raw}` };
+    }
+
+    const value = (element.value ?? {}) as Record<string, unknown>;
+    if (value.type === 'file_summary') {
+        if (!isNonEmptyString(value.path)) {
+            return { type: 'invalid', message: `File summary without a path: ${element.raw}` };
+        }
+        if (!isNonEmptyString(value.summary)) {
+            return { type: 'file_summary', path: value.path, summary: '', error: 'The model returned no summary for this file.' };
+        }
+        return { type: 'file_summary', path: value.path, summary: value.summary };
+    }
+    return { type: 'invalid', message: `Unexpected summary entry: ${element.raw}` };
+};
+
+// Input tokens per summary request, and how many requests run at once. Small
+// enough for every supported model's context window and most rate limits.
+const SUMMARY_BATCH_TOKEN_BUDGET = 60_000;
+const SUMMARY_CONCURRENCY = 3;
+// File summaries up to this size go to the project summary in one request;
+// above it they are rolled up through directory summaries first.
+const PROJECT_SUMMARY_TOKEN_BUDGET = 20_000;
+
+/**
+ * Runs `tasks` with at most `limit` in flight and yields each result as soon
+ * as it settles, so in completion order rather than task order.
+ */
+async function* runPooled<T>(tasks: (() => Promise<T>)[], limit: number): AsyncGenerator<T> {
+    const running = new Map<number, Promise<{ index: number; result: T }>>();
+    let next = 0;
+    const start = () => {
+        const index = next++;
+        const promise = tasks[index]().then(result => ({ index, result }));
+        // Rejections surface through Promise.race below; this only stops the
+        // ones still running when an earlier one throws from being reported
+        // as unhandled.
+        promise.catch(() => {});
+        running.set(index, promise);
+    };
 
-**CRITICAL STREAMING FORMAT:**
-You MUST respond by streaming summaries in this exact order:
-1. First, provide individual file summaries in JSON format: {"type": "file_summary", "path": "file_path", "summary": "2-3 sentence summary"}
-2. After all file summaries, provide the project summary: {"type": "project_summary", "summary": "overall summary with paragraph breaks"}
+    while (next < tasks.length && running.size < limit) start();
+    while (running.size > 0) {
+        const { index, result } = await Promise.race(running.values());
+        running.delete(index);
+        if (next < tasks.length) start();
+        yield result;
+    }
+}
+
+const fileSummariesSystemInstruction = `You are a code analysis expert. You will receive some of the files from a project and must provide an individual summary for each of them.
+
+**CRITICAL RESPONSE FORMAT:**
+You MUST respond with a single JSON array containing one object per file, in the order the files were given:
+{"type": "file_summary", "path": "file_path", "summary": "2-3 sentence summary"}
 
 **File Summary Rules:**
 - Each file summary must be 2-3 sentences maximum
 - Focus on the file's main purpose and role
 - No markdown formatting
 - Be concise but informative
-
-**Project Summary Rules:**
-- Maximum 3 sentences total
-- Use 2-3 short paragraphs separated by blank lines
-- Synthesize the overall project purpose from all files
-- Focus on high-level architecture and goals
+- Use the path exactly as it appears in the file header
 
 **Example Output Format:**
-{"type": "file_summary", "path": "src/main.ts", "summary": "This is the main entry point that initializes the application. It sets up routing and starts the server."}
-{"type": "file_summary", "path": "src/utils.ts", "summary": "Contains utility functions for data processing and validation. Provides helper methods used throughout the application."}
-{"type": "project_summary", "summary": "This project is a web application backend built with TypeScript.\\n\\nIt provides REST API endpoints for data management and includes comprehensive utility functions.\\n\\nThe architecture follows modern Node.js patterns with clear separation of concerns."}
+[{"type": "file_summary", "path": "src/main.ts", "summary": "This is the main entry point that initializes the application. It sets up routing and starts the server."},
+{"type": "file_summary", "path": "src/utils.ts", "summary": "Contains utility functions for data processing and validation. Provides helper methods used throughout the application."}]
 
-**IMPORTANT:** Output each JSON object on its own line. Do not wrap in markdown or add extra formatting.`;
+**IMPORTANT:** Output only the JSON array. Do not wrap in markdown or add extra formatting.`;
+
+// One batch never fails the whole run: a failed request, and any file the
+// model skipped, come back as file summaries carrying an error.
+const summarizeBatch = async (provider: LLMProvider, batch: SummaryFile[], options: RequestOptions): Promise<SummaryEvent[]> => {
+    const events: SummaryEvent[] = [];
+    const filesContent = batch.map(f => `=== FILE: ${f.path} ===\n${f.content}\n\n`).join('');
 
-    const filesContent = files.map(f => 
-        `=== FILE: ${f.path} ===\n${f.content}\n\n`
-    ).join('');
-    
     try {
-        const stream = await ai.models.generateContentStream({
-            model: MODEL_NAME,
-            contents: `Analyze these project files and provide streaming summaries:\n\n${filesContent}`,
-            config: {
-                systemInstruction,
-                temperature: 0.2,
-            }
+        const stream = provider.generateStream({
+            contents: `Summarize each of these project files:\n\n${filesContent}`,
+            systemInstruction: inLanguage(
+                fileSummariesSystemInstruction,
+                options.language,
+                language => `Write every "summary" value in ${language}. Keep the "type" and "path" values exactly as specified.`
+            ),
+            temperature: options.temperature ?? 0.2,
+            responseSchema: summariesSchema,
+            signal: options.signal,
         });
 
-        let buffer = '';
-        
-        for await (const chunk of stream) {
-            if (chunk.text) {
-                buffer += chunk.text;
-                const lines = buffer.split('\n');
-                buffer = lines.pop() || ''; // Keep the incomplete line in buffer
-                
-                for (const line of lines) {
-                    const trimmedLine = line.trim();
-                    if (trimmedLine && trimmedLine.startsWith('{')) {
-                        try {
-                            const parsed = JSON.parse(trimmedLine);
-                            if (parsed.type === 'file_summary' && parsed.path && parsed.summary) {
-                                yield { type: 'file_summary', path: parsed.path, summary: parsed.summary };
-                            } else if (parsed.type === 'project_summary' && parsed.summary) {
-                                yield { type: 'project_summary', summary: parsed.summary };
-                            }
-                        } catch (e) {
-                            // Partial or malformed line, nothing to yield.
-                        }
-                    }
-                }
-            }
+        for await (const element of parseJsonStream(stream)) {
+            options.signal?.throwIfAborted();
+            events.push(toSummaryEvent(element));
         }
+    } catch (error) {
+        // A cancel is not a failure; let the caller see the abort itself.
+        if (options.signal?.aborted) throw error;
+        console.error("Summary batch failed:", error);
+        return batch.map(f => ({ type: 'file_summary', path: f.path, summary: '', error: 'Failed to generate summary.' }));
+    }
 
-        // Process any remaining content in buffer
-        if (buffer.trim() && buffer.trim().startsWith('{')) {
-            try {
-                const parsed = JSON.parse(buffer.trim());
-                if (parsed.type === 'file_summary' && parsed.path && parsed.summary) {
-                    yield { type: 'file_summary', path: parsed.path, summary: parsed.summary };
-                } else if (parsed.type === 'project_summary' && parsed.summary) {
-                    yield { type: 'project_summary', summary: parsed.summary };
-                }
-            } catch (e) {
-                // Trailing partial line, nothing to yield.
-            }
+    const answered = new Set(events.flatMap(event => event.type === 'file_summary' ? [event.path] : []));
+    for (const f of batch) {
+        if (!answered.has(f.path)) {
+            events.push({ type: 'file_summary', path: f.path, summary: '', error: 'The model returned no summary for this file.' });
         }
+    }
+    return events;
+};
 
-    } catch (error) {
-        console.error("Stream processing failed:", error);
-        yield { type: 'error', message: 'Failed to generate summaries due to streaming error.' };
+/**
+ * File summaries for any number of files. Files are packed into token-budgeted
+ * batches that run a few at a time; each batch's events are yielded as soon as
+ * that batch finishes.
+ */
+export const generateAllSummariesStream = async function* (files: SummaryFile[], config: ProviderConfig, options: RequestOptions = {}): AsyncGenerator<SummaryEvent> {
+    if (files.length === 0) return;
+
+    const provider = createRequestProvider(config, options);
+    const batches = planSummaryBatches(files, SUMMARY_BATCH_TOKEN_BUDGET);
+
+    for await (const events of runPooled(batches.map(batch => () => summarizeBatch(provider, batch, options)), SUMMARY_CONCURRENCY)) {
+        yield* events;
     }
 };
 
 
-export const generateProjectSummary = async (fileSummaries: { path: string; summary: string }[], apiKey: string): Promise<string> => {
-    if (fileSummaries.length === 0) return "";
-    
-    const ai = createAI(apiKey);
-    const systemInstruction = `You are a project architect. You will be given a list of files and their individual summaries. Your task is to synthesize these into a single, high-level project summary.
+const projectSummarySystemInstruction = `You are a project architect. You will be given a list of files and directories and their individual summaries. Your task is to synthesize these into a single, high-level project summary.
 
 **Formatting Rules:**
 - The entire summary MUST be a maximum of 3 sentences total.
@@ -280,15 +1325,69 @@ It includes utilities for determining the runtime context and managing environme
 
 The primary goal is to ensure that data jobs run consistently across different stages like dev, test, and prod.`;
 
-    const summariesText = fileSummaries.map(s => `File: ${s.path}\nSummary: ${s.summary}`).join('\n\n');
-    
-    const response = await ai.models.generateContent({
-        model: MODEL_NAME,
-        contents: `Here are the file summaries for a project:\n\n${summariesText}\n\nBased on these, what is the overall purpose of this project?`,
-        config: {
-            systemInstruction,
-            temperature: 0.3,
+const directorySummarySystemInstruction = `You are a project architect. You will be given the summaries of the files and subdirectories inside one directory of a project. Describe what the directory as a whole is responsible for in 2-3 sentences of plain text, without markdown. Name its most important parts.`;
+
+const summarizeDirectory = async (provider: LLMProvider, path: string, inputs: SummaryNode[], options: RequestOptions): Promise<SummaryNode> => {
+    const summary = await provider.generate({
+        contents: `Directory: ${path || '(project root)'}\n\n${formatSummaryNodes(inputs)}\n\nWhat is this directory responsible for?`,
+        systemInstruction: inLanguage(directorySummarySystemInstruction, options.language, language => `Write the summary in ${language}.`),
+        temperature: options.temperature ?? 0.3,
+        signal: options.signal,
+    });
+    return { path, kind: 'directory', summary: summary.trim() };
+};
+
+/**
+ * One summary per directory in `groups`. A directory too big for one request
+ * is summarized in parts first, and the parts are then summarized together as
+ * if they were subdirectories. Every request, parts included, shares one pool.
+ */
+const summarizeDirectories = async (provider: LLMProvider, groups: Map<string, SummaryNode[]>, options: RequestOptions): Promise<SummaryNode[]> => {
+    let directories = [...groups].map(([path, inputs]) => ({ path, inputs }));
+
+    for (;;) {
+        const parts = directories.map(directory => splitNodesByBudget(directory.inputs, PROJECT_SUMMARY_TOKEN_BUDGET));
+        if (parts.every(split => split.length === 1)) break;
+
+        const partSummaries = parts.map(split => new Array<SummaryNode>(split.length));
+        const tasks = directories.flatMap((directory, i) => parts[i].length === 1 ? [] : parts[i].map((part, j) => async () =>
+            ({ i, j, node: await summarizeDirectory(provider, directory.path, part, options) })));
+        for await (const { i, j, node } of runPooled(tasks, SUMMARY_CONCURRENCY)) {
+            partSummaries[i][j] = node;
         }
+        directories = directories.map((directory, i) => parts[i].length === 1 ? directory : { path: directory.path, inputs: partSummaries[i] });
+    }
+
+    const summaries: SummaryNode[] = [];
+    const tasks = directories.map(({ path, inputs }) => () => summarizeDirectory(provider, path, inputs, options));
+    for await (const directory of runPooled(tasks, SUMMARY_CONCURRENCY)) {
+        summaries.push(directory);
+    }
+    return summaries;
+};
+
+/**
+ * Project summary from file summaries. When they are too long for one request
+ * they are rolled up into directory summaries, deepest directories first,
+ * until what is left fits.
+ */
+export const generateProjectSummary = async (fileSummaries: { path: string; summary: string }[], config: ProviderConfig, options: RequestOptions = {}): Promise<string> => {
+    if (fileSummaries.length === 0) return "";
+
+    const provider = createRequestProvider(config, options);
+    let nodes: SummaryNode[] = fileSummaries.map(s => ({ path: s.path, kind: 'file', summary: s.summary }));
+
+    while (nodes.length > 1 && approximateTokens(formatSummaryNodes(nodes)) > PROJECT_SUMMARY_TOKEN_BUDGET) {
+        const { groups, rest } = groupDeepestNodes(nodes);
+        if (groups.size === 0) break;
+
+        nodes = [...rest, ...await summarizeDirectories(provider, groups, options)];
+    }
+
+    return provider.generate({
+        contents: `Here are the summaries for a project:\n\n${formatSummaryNodes(nodes)}\n\nBased on these, what is the overall purpose of this project?`,
+        systemInstruction: inLanguage(projectSummarySystemInstruction, options.language, language => `Write the summary in ${language}.`),
+        temperature: options.temperature ?? 0.3,
+        signal: options.signal,
     });
-    return response.text ?? "";
 }
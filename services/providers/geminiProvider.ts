@@ -0,0 +1,61 @@
+import { GoogleGenAI, type Schema, type Type } from "@google/genai";
+import type { GenerateRequest, LLMProvider, ProviderConfig, ResponseSchema } from "./types";
+
+// Gemini wants upper-case type names, and it only keeps object keys in a
+// stable order when told to. Streamed blocks read better with code_block first.
+const toGeminiSchema = (schema: ResponseSchema): Schema => ({
+    type: schema.type.toUpperCase() as Type,
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(schema.enum ? { enum: schema.enum } : {}),
+    ...(schema.items ? { items: toGeminiSchema(schema.items) } : {}),
+    ...(schema.properties ? {
+        properties: Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+        propertyOrdering: Object.keys(schema.properties),
+    } : {}),
+    ...(schema.required ? { required: schema.required } : {}),
+});
+
+export const createGeminiProvider = (config: ProviderConfig): LLMProvider => {
+    if (!config.apiKey) {
+        throw new Error("Gemini API key is not configured.");
+    }
+    const ai = new GoogleGenAI({ apiKey: config.apiKey });
+
+    const toParams = (request: GenerateRequest) => ({
+        model: config.model,
+        contents: request.history?.length
+            ? [
+                ...request.history.map(turn => ({ role: turn.role, parts: [{ text: turn.text }] })),
+                { role: 'user', parts: [{ text: request.contents }] },
+            ]
+            : request.contents,
+        config: {
+            systemInstruction: request.systemInstruction,
+            temperature: request.temperature,
+            abortSignal: request.signal,
+            ...(request.responseSchema ? {
+                responseMimeType: 'application/json',
+                responseSchema: toGeminiSchema(request.responseSchema),
+            } : {}),
+        }
+    });
+
+    return {
+        async *generateStream(request) {
+            const stream = await ai.models.generateContentStream(toParams(request));
+            for await (const chunk of stream) {
+                if (chunk.text) yield chunk.text;
+            }
+        },
+
+        async generate(request) {
+            const response = await ai.models.generateContent(toParams(request));
+            return response.text ?? "";
+        },
+
+        async countTokens(text) {
+            const response = await ai.models.countTokens({ model: config.model, contents: text });
+            return response.totalTokens ?? 0;
+        },
+    };
+};
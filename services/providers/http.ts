@@ -0,0 +1,80 @@
+// Shared fetch plumbing for the adapters that talk plain HTTP.
+
+// Carries the status and any Retry-After hint so the retry wrapper can treat
+// these the same as the Gemini SDK's ApiError.
+export class HttpError extends Error {
+    status: number;
+    retryAfterMs: number | null;
+
+    constructor(message: string, status: number, retryAfterMs: number | null) {
+        super(message);
+        this.name = 'HttpError';
+        this.status = status;
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+const parseRetryAfter = (response: Response): number | null => {
+    const ms = Number(response.headers.get('retry-after-ms'));
+    if (ms > 0) return ms;
+
+    const header = response.headers.get('retry-after');
+    if (!header) return null;
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return seconds * 1000;
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+export const postJson = async (url: string, body: unknown, apiKey?: string, signal?: AbortSignal): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) {
+        headers['Authorization'] = `Bearer ${apiKey}`;
+    }
+
+    const response = await fetch(url, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body),
+        signal,
+    });
+
+    if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        // Keep the wording App's handleApiError already looks for, so a bad key
+        // is treated the same whichever backend rejected it.
+        if (response.status === 401 || response.status === 403) {
+            throw new HttpError(`API key is invalid (${response.status}): ${errorText}`, response.status, null);
+        }
+        throw new HttpError(`Request to ${url} failed: ${response.status} - ${errorText}`, response.status, parseRetryAfter(response));
+    }
+
+    return response;
+};
+
+// Yields the response body one line at a time. Both SSE and NDJSON streams
+// are line-delimited, so the adapters only differ in how they read each line.
+export async function* readLines(response: Response): AsyncGenerator<string> {
+    if (!response.body) return;
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+            yield line;
+        }
+    }
+
+    buffer += decoder.decode();
+    if (buffer) yield buffer;
+}
+
+export const trimTrailingSlash = (url: string) => url.replace(/\/+$/, '');
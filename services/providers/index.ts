@@ -0,0 +1,84 @@
+import type { LLMProvider, ProviderConfig, ProviderKind } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAIProvider } from "./openaiProvider";
+import { createOllamaProvider } from "./ollamaProvider";
+import { createMockProvider } from "./mockProvider";
+
+export type { ChatTurn, GenerateRequest, LLMProvider, ProviderConfig, ProviderKind, ResponseSchema } from "./types";
+export { createMockProvider, parseMockFixture, type MockFixtureLine, type MockFixtures } from "./mockProvider";
+
+const PROVIDER_STORAGE_KEY = 'llm_provider';
+const GEMINI_KEY_STORAGE_KEY = 'gemini_api_key';
+
+export const PROVIDER_OPTIONS: { kind: ProviderKind; label: string; requiresApiKey: boolean; defaultBaseUrl: string; defaultModel: string }[] = [
+    { kind: 'gemini', label: 'Google Gemini', requiresApiKey: true, defaultBaseUrl: '', defaultModel: 'gemini-2.5-flash' },
+    { kind: 'openai', label: 'OpenAI-compatible', requiresApiKey: false, defaultBaseUrl: 'https://api.openai.com/v1', defaultModel: 'gpt-4o-mini' },
+    { kind: 'ollama', label: 'Ollama (local)', requiresApiKey: false, defaultBaseUrl: 'http://localhost:11434', defaultModel: 'llama3.1' },
+    // Replays recorded fixtures without any network access. Dev builds only.
+    ...(import.meta.env.DEV
+        ? [{ kind: 'mock' as const, label: 'Mock (offline fixtures)', requiresApiKey: false, defaultBaseUrl: '', defaultModel: 'mock' }]
+        : []),
+];
+
+export const getProviderOption = (kind: ProviderKind) =>
+    PROVIDER_OPTIONS.find(option => option.kind === kind) ?? PROVIDER_OPTIONS[0];
+
+export const defaultProviderConfig = (kind: ProviderKind, apiKey = ''): ProviderConfig => {
+    const option = getProviderOption(kind);
+    return { kind, apiKey, baseUrl: option.defaultBaseUrl, model: option.defaultModel };
+};
+
+export const createProvider = (config: ProviderConfig): LLMProvider => {
+    switch (config.kind) {
+        case 'openai': return createOpenAIProvider(config);
+        case 'ollama': return createOllamaProvider(config);
+        case 'mock': return createMockProvider(config);
+        default: return createGeminiProvider(config);
+    }
+};
+
+/**
+ * Read the saved provider choice. The Gemini key keeps living under its old
+ * localStorage name so Firebase sign-in and existing sessions still find it.
+ */
+export function loadProviderConfig(): ProviderConfig | null {
+    let saved: Partial<ProviderConfig> = {};
+    try {
+        saved = JSON.parse(localStorage.getItem(PROVIDER_STORAGE_KEY) || '{}');
+    } catch (error) {
+        console.error('Error loading provider settings:', error);
+    }
+
+    const kind = PROVIDER_OPTIONS.some(o => o.kind === saved.kind) ? saved.kind! : 'gemini';
+    const config: ProviderConfig = {
+        ...defaultProviderConfig(kind),
+        ...(saved.baseUrl ? { baseUrl: saved.baseUrl } : {}),
+        ...(saved.model ? { model: saved.model } : {}),
+        apiKey: kind === 'gemini'
+            ? localStorage.getItem(GEMINI_KEY_STORAGE_KEY) || ''
+            : saved.apiKey || '',
+    };
+
+    if (kind === 'gemini' && !config.apiKey) return null;
+    // A non-Gemini choice only exists once the user has picked it explicitly.
+    if (kind !== 'gemini' && !localStorage.getItem(PROVIDER_STORAGE_KEY)) return null;
+    return config;
+}
+
+/**
+ * Persist the provider choice next to the Gemini key
+ */
+export function saveProviderConfig(config: ProviderConfig): void {
+    const { apiKey, ...rest } = config;
+    if (config.kind === 'gemini') {
+        localStorage.setItem(GEMINI_KEY_STORAGE_KEY, apiKey);
+        localStorage.setItem(PROVIDER_STORAGE_KEY, JSON.stringify(rest));
+    } else {
+        localStorage.setItem(PROVIDER_STORAGE_KEY, JSON.stringify(config));
+    }
+}
+
+export function clearProviderConfig(): void {
+    localStorage.removeItem(GEMINI_KEY_STORAGE_KEY);
+    localStorage.removeItem(PROVIDER_STORAGE_KEY);
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import type { GenerateRequest, ProviderConfig } from './types';
+import { HttpError } from './http';
+import { createMockProvider, type MockFixtures } from './mockProvider';
+import { parseJsonStream, type ParsedElement } from '../streamParser';
+
+const config = (model: string): ProviderConfig => ({ kind: 'mock', apiKey: '', baseUrl: '', model });
+
+const FIXTURES: Partial<MockFixtures> = {
+  explain: [
+    { text: '[' },
+    { each: 'block', text: '{"code_block": {{code}}, "explanation": "Block {{n}}."}', separator: ',' },
+    { text: ']' },
+  ],
+  text: [{ text: 'Hello' }, { text: ', world' }],
+};
+
+// What the explain prompts look like to the mock: the code between "---" lines.
+const explainRequest: GenerateRequest = {
+  contents: 'Analyze the following code:\n\n---\nconst a = 1;\n\nexport default a;\n---',
+  systemInstruction: 'Explain the code.',
+  temperature: 0,
+  responseSchema: { type: 'array', items: { type: 'object', properties: { code_block: { type: 'string' }, explanation: { type: 'string' } } } },
+};
+
+const textRequest: GenerateRequest = { contents: 'Hi', systemInstruction: 'Answer.', temperature: 0 };
+
+const parse = async (stream: AsyncGenerator<string>) => {
+  const elements: ParsedElement[] = [];
+  for await (const element of parseJsonStream(stream)) elements.push(element);
+  return elements;
+};
+
+describe('createMockProvider', () => {
+  it('replays injected fixtures with one element per code block', async () => {
+    const provider = createMockProvider(config('mock'), FIXTURES);
+    const elements = await parse(provider.generateStream(explainRequest));
+    expect(elements.map(element => element.value)).toEqual([
+      { code_block: 'const a = 1;', explanation: 'Block 1.' },
+      { code_block: 'export default a;', explanation: 'Block 2.' },
+    ]);
+  });
+
+  it('answers plain-text requests from the text fixture', async () => {
+    expect(await createMockProvider(config('mock'), FIXTURES).generate(textRequest)).toBe('Hello, world');
+  });
+
+  it('corrupts the second element with "malformed"', async () => {
+    const provider = createMockProvider(config('mock:malformed'), FIXTURES);
+    const elements = await parse(provider.generateStream(explainRequest));
+    expect(elements[0].error).toBeUndefined();
+    expect(elements[1].error).toMatch(/^Malformed JSON/);
+  });
+
+  it('rejects only the first attempt with "rate-limit"', async () => {
+    const provider = createMockProvider(config('mock:rate-limit'), FIXTURES);
+    await expect(provider.generate(textRequest)).rejects.toMatchObject({ status: 429 });
+    await expect(provider.generate(textRequest)).resolves.toBe('Hello, world');
+  });
+
+  it('drops the stream halfway with "fail"', async () => {
+    const provider = createMockProvider(config('mock:fail'), FIXTURES);
+    const pieces: string[] = [];
+    const error = await (async () => {
+      try {
+        for await (const piece of provider.generateStream(textRequest)) pieces.push(piece);
+      } catch (e) {
+        return e;
+      }
+    })();
+    expect(pieces).toEqual(['Hello']);
+    expect(error).toBeInstanceOf(HttpError);
+    expect((error as HttpError).status).toBe(500);
+  });
+
+  it('loads the recorded fixtures when none are injected', async () => {
+    const text = await createMockProvider(config('mock')).generate(explainRequest);
+    expect(JSON.parse(text)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,216 @@
+import type { GenerateRequest, LLMProvider, ProviderConfig } from "./types";
+import { HttpError } from "./http";
+import { sleep } from "../retry";
+
+// Offline stand-in for a model. Responses are replayed from the NDJSON
+// fixtures in ./mockFixtures, one JSON object per line:
+//   {"text": "..."}                      a streamed piece of the response
+//   {"each": "block" | "file" | "hunk", "text": "...", "separator": ","}
+//                                        repeated for every code block of the
+//                                        explained code, every file in a
+//                                        summary batch, or every diff hunk;
+//                                        {{code}}, {{path}} and {{n}} are
+//                                        filled in per repetition
+//   {"error": {"status": 429, "message": "...", "retryAfterMs": 1000}}
+//                                        throws at that point in the stream
+// Any line may also carry "delayMs", waited before it is emitted.
+//
+// The model name picks extra behaviour on top of the fixtures, e.g.
+// "mock:slow,rate-limit". Per-task model settings can then make only one kind
+// of request misbehave.
+//   slow         re-chunks every piece into a few characters with a delay each
+//   malformed    corrupts the second repeated element so it fails to parse
+//   rate-limit   rejects the first attempt of every request with a 429
+//   fail         drops the stream with a 500 halfway through
+
+export interface MockFixtureLine {
+    text?: string;
+    each?: 'block' | 'file' | 'hunk';
+    separator?: string;
+    delayMs?: number;
+    error?: { status: number; message: string; retryAfterMs?: number };
+}
+
+export type MockFixtureName = 'explain' | 'summaries' | 'diff' | 'review' | 'tests' | 'quiz' | 'glossary' | 'deep-dive' | 'text';
+export type MockFixtures = Record<MockFixtureName, MockFixtureLine[]>;
+
+type MockScenario = 'slow' | 'malformed' | 'rate-limit' | 'fail';
+
+const MAX_MOCK_BLOCKS = 12;
+const SLOW_CHUNK_CHARS = 8;
+const SLOW_CHUNK_DELAY_MS = 40;
+
+export const parseMockFixture = (ndjson: string): MockFixtureLine[] =>
+    ndjson.split('\n').filter(line => line.trim()).map(line => JSON.parse(line));
+
+const MOCK_FIXTURE_NAMES: MockFixtureName[] = ['explain', 'summaries', 'diff', 'review', 'tests', 'quiz', 'glossary', 'deep-dive', 'text'];
+
+// Loaded on the first mock request, and only in dev: production builds drop
+// the branch, so the fixtures are neither bundled nor emitted.
+const fixtureLoaders: Record<string, () => Promise<string>> = import.meta.env.DEV
+    ? import.meta.glob<string>('./mockFixtures/*.ndjson', { query: '?raw', import: 'default' })
+    : {};
+
+let defaultFixtures: Promise<MockFixtures> | null = null;
+
+const loadDefaultFixtures = (): Promise<MockFixtures> => {
+    defaultFixtures ??= Promise.all(MOCK_FIXTURE_NAMES.map(async name => {
+        const load = fixtureLoaders[`./mockFixtures/${name}.ndjson`];
+        return [name, parseMockFixture(load ? await load() : '')] as const;
+    })).then(entries => Object.fromEntries(entries) as MockFixtures);
+    return defaultFixtures;
+};
+
+const parseScenarios = (model: string): Set<MockScenario> =>
+    new Set(model.split(/[:,+]/).slice(1).map(s => s.trim()).filter(Boolean) as MockScenario[]);
+
+// Structured requests are recognised by their schema. Of the plain-text
+// prompts only the deep dive has a fixture of its own.
+const fixtureFor = (request: GenerateRequest): MockFixtureName => {
+    const properties = request.responseSchema?.items?.properties ?? {};
+    if ('code_block' in properties) return 'explain';
+    if ('path' in properties) return 'summaries';
+    if ('hunk' in properties) return 'diff';
+    if ('severity' in properties) return 'review';
+    if ('choices' in properties) return 'quiz';
+    if ('definition' in properties) return 'glossary';
+    if ('kind' in properties) return 'tests';
+    if (/"deep dive" analysis/.test(request.systemInstruction)) return 'deep-dive';
+    return 'text';
+};
+
+// The explain prompts put the code between a "---" line after a blank line
+// and the closing "---" at the very end.
+const extractCode = (contents: string): string => {
+    const start = contents.indexOf('\n\n---\n');
+    if (start === -1) return contents;
+    return contents.slice(start + '\n\n---\n'.length).replace(/\n---\s*$/, '');
+};
+
+/**
+ * Splits code into at most MAX_MOCK_BLOCKS verbatim pieces, cutting only at
+ * blank lines so each piece is a plausible block.
+ */
+const splitIntoMockBlocks = (code: string): string[] => {
+    const lines = code.split('\n');
+    const paragraphs: { start: number; end: number }[] = [];
+    lines.forEach((line, i) => {
+        if (line.trim() === '') return;
+        const last = paragraphs[paragraphs.length - 1];
+        if (last && last.end === i - 1) last.end = i;
+        else paragraphs.push({ start: i, end: i });
+    });
+
+    const perBlock = Math.ceil(paragraphs.length / MAX_MOCK_BLOCKS);
+    const blocks: string[] = [];
+    for (let i = 0; i < paragraphs.length; i += perBlock) {
+        const last = paragraphs[Math.min(i + perBlock, paragraphs.length) - 1];
+        blocks.push(lines.slice(paragraphs[i].start, last.end + 1).join('\n'));
+    }
+    return blocks;
+};
+
+const extractFilePaths = (contents: string): string[] =>
+    [...contents.matchAll(/^=== FILE: (.+) ===$/gm)].map(match => match[1]);
+
+const extractHunkNumbers = (contents: string): number[] =>
+    [...contents.matchAll(/^### Hunk (\d+)$/gm)].map(match => Number(match[1]));
+
+interface Piece {
+    text?: string;
+    delayMs: number;
+    error?: MockFixtureLine['error'];
+}
+
+// Expands a fixture into the concrete pieces for one request.
+const expandFixture = (lines: MockFixtureLine[], request: GenerateRequest, scenarios: Set<MockScenario>): Piece[] => {
+    const pieces: Piece[] = [];
+    for (const line of lines) {
+        const delayMs = line.delayMs ?? 0;
+        if (line.error) {
+            pieces.push({ delayMs, error: line.error });
+            continue;
+        }
+        if (!line.each) {
+            pieces.push({ text: line.text ?? '', delayMs });
+            continue;
+        }
+
+        // Hunks keep the numbers the prompt gave them; everything else counts from 1.
+        const items: { code?: string; path?: string; n: number }[] = line.each === 'block'
+            ? splitIntoMockBlocks(extractCode(request.contents)).map((code, i) => ({ code, n: i + 1 }))
+            : line.each === 'file'
+                ? extractFilePaths(request.contents).map((path, i) => ({ path, n: i + 1 }))
+                : extractHunkNumbers(request.contents).map(n => ({ n }));
+
+        items.forEach((item, i) => {
+            let text = (line.text ?? '')
+                .replace(/\{\{code\}\}/g, JSON.stringify(item.code ?? ''))
+                .replace(/\{\{path\}\}/g, JSON.stringify(item.path ?? ''))
+                .replace(/\{\{n\}\}/g, String(item.n));
+            if (scenarios.has('malformed') && i === 1) {
+                text = text.replace('"', '');
+            }
+            pieces.push({ text: (i > 0 ? line.separator ?? '' : '') + text, delayMs });
+        });
+    }
+
+    if (!scenarios.has('slow')) return pieces;
+    return pieces.flatMap(piece => {
+        if (!piece.text) return [piece];
+        const chunks: Piece[] = [];
+        for (let i = 0; i < piece.text.length; i += SLOW_CHUNK_CHARS) {
+            chunks.push({ text: piece.text.slice(i, i + SLOW_CHUNK_CHARS), delayMs: SLOW_CHUNK_DELAY_MS });
+        }
+        return chunks;
+    });
+};
+
+/**
+ * `fixtures` defaults to the files in ./mockFixtures; tests can pass their own,
+ * and a fixture they leave out replays as an empty response.
+ */
+export const createMockProvider = (config: ProviderConfig, fixtures?: Partial<MockFixtures>): LLMProvider => {
+    const scenarios = parseScenarios(config.model);
+    // Counted per provider, which the retry wrapper reuses across attempts.
+    let attempts = 0;
+
+    async function* replay(request: GenerateRequest): AsyncGenerator<string> {
+        attempts++;
+        if (scenarios.has('rate-limit') && attempts === 1) {
+            await sleep(100, request.signal);
+            throw new HttpError('Mock rate limit: RESOURCE_EXHAUSTED', 429, 1500);
+        }
+
+        const name = fixtureFor(request);
+        const lines = fixtures ? fixtures[name] ?? [] : (await loadDefaultFixtures())[name];
+        const pieces = expandFixture(lines, request, scenarios);
+        const failAt = scenarios.has('fail') ? Math.max(1, Math.floor(pieces.length / 2)) : -1;
+
+        for (let i = 0; i < pieces.length; i++) {
+            const piece = pieces[i];
+            if (piece.delayMs > 0) await sleep(piece.delayMs, request.signal);
+            request.signal?.throwIfAborted();
+
+            if (i === failAt) {
+                throw new HttpError('Mock stream failed mid-response', 500, null);
+            }
+            if (piece.error) {
+                throw new HttpError(piece.error.message, piece.error.status, piece.error.retryAfterMs ?? null);
+            }
+            if (piece.text) yield piece.text;
+        }
+    }
+
+    return {
+        generateStream: replay,
+
+        async generate(request) {
+            let text = '';
+            for await (const piece of replay(request)) {
+                text += piece;
+            }
+            return text;
+        },
+    };
+};
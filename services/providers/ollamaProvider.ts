@@ -0,0 +1,48 @@
+import type { GenerateRequest, LLMProvider, ProviderConfig } from "./types";
+import { postJson, readLines, trimTrailingSlash } from "./http";
+
+// Talks to Ollama's native /api/chat endpoint, which streams NDJSON rather
+// than SSE. No key is needed for a local server.
+export const createOllamaProvider = (config: ProviderConfig): LLMProvider => {
+    const url = `${trimTrailingSlash(config.baseUrl)}/api/chat`;
+
+    const toBody = (request: GenerateRequest, stream: boolean) => ({
+        model: config.model,
+        stream,
+        options: { temperature: request.temperature },
+        // Ollama takes a JSON schema directly as the `format` field.
+        ...(request.responseSchema ? { format: request.responseSchema } : {}),
+        messages: [
+            { role: 'system', content: request.systemInstruction },
+            ...(request.history ?? []).map(turn => ({
+                role: turn.role === 'model' ? 'assistant' : 'user',
+                content: turn.text,
+            })),
+            { role: 'user', content: request.contents },
+        ],
+    });
+
+    return {
+        async *generateStream(request) {
+            const response = await postJson(url, toBody(request, true), config.apiKey, request.signal);
+
+            for await (const line of readLines(response)) {
+                const trimmed = line.trim();
+                if (!trimmed) continue;
+
+                const parsed = JSON.parse(trimmed);
+                if (parsed.error) {
+                    throw new Error(`Ollama error: ${parsed.error}`);
+                }
+                if (parsed.message?.content) yield parsed.message.content;
+                if (parsed.done) return;
+            }
+        },
+
+        async generate(request) {
+            const response = await postJson(url, toBody(request, false), config.apiKey, request.signal);
+            const parsed = await response.json();
+            return parsed.message?.content ?? "";
+        },
+    };
+};
@@ -0,0 +1,53 @@
+import type { GenerateRequest, LLMProvider, ProviderConfig } from "./types";
+import { postJson, readLines, trimTrailingSlash } from "./http";
+
+// Works against anything that speaks the chat-completions API: OpenAI itself,
+// Azure-style gateways, vLLM, LM Studio, llama.cpp server and so on.
+// `responseSchema` is deliberately not forwarded: json_schema support varies
+// between compatible servers and requires an object at the root, so these
+// backends rely on the prompt and the tolerant stream parser instead.
+export const createOpenAIProvider = (config: ProviderConfig): LLMProvider => {
+    const url = `${trimTrailingSlash(config.baseUrl)}/chat/completions`;
+
+    const toBody = (request: GenerateRequest, stream: boolean) => ({
+        model: config.model,
+        temperature: request.temperature,
+        stream,
+        messages: [
+            { role: 'system', content: request.systemInstruction },
+            ...(request.history ?? []).map(turn => ({
+                role: turn.role === 'model' ? 'assistant' : 'user',
+                content: turn.text,
+            })),
+            { role: 'user', content: request.contents },
+        ],
+    });
+
+    return {
+        async *generateStream(request) {
+            const response = await postJson(url, toBody(request, true), config.apiKey, request.signal);
+
+            for await (const line of readLines(response)) {
+                const trimmed = line.trim();
+                if (!trimmed.startsWith('data:')) continue;
+
+                const data = trimmed.slice('data:'.length).trim();
+                if (data === '[DONE]') return;
+
+                try {
+                    const parsed = JSON.parse(data);
+                    const text = parsed.choices?.[0]?.delta?.content;
+                    if (text) yield text;
+                } catch (e) {
+                    // Keep-alive comments and the like, nothing to yield.
+                }
+            }
+        },
+
+        async generate(request) {
+            const response = await postJson(url, toBody(request, false), config.apiKey, request.signal);
+            const parsed = await response.json();
+            return parsed.choices?.[0]?.message?.content ?? "";
+        },
+    };
+};
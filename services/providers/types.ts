@@ -0,0 +1,49 @@
+export type ProviderKind = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+// Everything needed to reach a model. `apiKey` may be empty for self-hosted
+// backends, and `baseUrl` is ignored by the Gemini adapter.
+export interface ProviderConfig {
+  kind: ProviderKind;
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+}
+
+// The subset of JSON Schema that every structured-output backend understands.
+export interface ResponseSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: string[];
+  items?: ResponseSchema;
+  properties?: Record<string, ResponseSchema>;
+  required?: string[];
+}
+
+// One earlier turn of a conversation. 'model' is the assistant side.
+export interface ChatTurn {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface GenerateRequest {
+  systemInstruction: string;
+  contents: string;
+  // Earlier turns, oldest first, for multi-turn chats. `contents` is always
+  // the newest user message.
+  history?: ChatTurn[];
+  temperature: number;
+  // When set, the adapter asks the backend to enforce this shape on the JSON
+  // it returns. Backends without schema support fall back to the prompt alone.
+  responseSchema?: ResponseSchema;
+  signal?: AbortSignal;
+}
+
+// The prompt layer in geminiService only ever needs plain text back, streamed
+// or in one piece. Adapters translate that into each backend's wire format.
+export interface LLMProvider {
+  generateStream(request: GenerateRequest): AsyncGenerator<string>;
+  generate(request: GenerateRequest): Promise<string>;
+  // Only backends with a real tokenizer endpoint implement this. Callers fall
+  // back to a local approximation when it is missing.
+  countTokens?(text: string): Promise<number>;
+}
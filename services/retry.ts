@@ -0,0 +1,119 @@
+/**
+ * Retry wrapper shared by every model call
+ * Retries quota and transient errors with jittered exponential backoff,
+ * honouring any retry-after hint the backend sends
+ */
+
+import type { LLMProvider } from './providers';
+
+export interface RetryInfo {
+  attempt: number; // the attempt that is about to start, 2-based
+  maxAttempts: number;
+  delayMs: number;
+  isRateLimit: boolean;
+}
+
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 60_000;
+
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504]);
+const RETRYABLE_MESSAGE = /RESOURCE_EXHAUSTED|UNAVAILABLE|rate limit|quota|overloaded|try again later|ECONNRESET|Failed to fetch|NetworkError/i;
+
+const getStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+export function isRateLimitError(error: unknown): boolean {
+  if (getStatus(error) === 429) return true;
+  return error instanceof Error && /RESOURCE_EXHAUSTED|rate limit|quota/i.test(error.message);
+}
+
+export function isRetryableError(error: unknown): boolean {
+  const status = getStatus(error);
+  if (status !== undefined && RETRYABLE_STATUS.has(status)) return true;
+  return error instanceof Error && RETRYABLE_MESSAGE.test(error.message);
+}
+
+/**
+ * HttpError carries the header value; Gemini puts a RetryInfo detail
+ * ("retryDelay": "17s") into the error message instead
+ */
+export function getRetryAfterMs(error: unknown): number | null {
+  const hint = (error as { retryAfterMs?: unknown } | null)?.retryAfterMs;
+  if (typeof hint === 'number') return hint;
+
+  if (error instanceof Error) {
+    const match = error.message.match(/"?retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/);
+    if (match) return Number(match[1]) * 1000;
+  }
+  return null;
+}
+
+const backoffDelay = (attempt: number, error: unknown): number => {
+  const hint = getRetryAfterMs(error);
+  // Full jitter on the exponential part; a server hint is a floor, so only add a little on top.
+  if (hint !== null) return Math.min(hint, MAX_DELAY_MS) + Math.random() * 1000;
+  const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+};
+
+// Rejects as soon as the signal fires, so a cancelled request never sits out its backoff.
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(signal.reason);
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export async function withRetry<T>(fn: () => Promise<T>, onRetry?: (info: RetryInfo) => void, signal?: AbortSignal): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (signal?.aborted || attempt >= MAX_ATTEMPTS || !isRetryableError(error)) throw error;
+      const delayMs = backoffDelay(attempt, error);
+      onRetry?.({ attempt: attempt + 1, maxAttempts: MAX_ATTEMPTS, delayMs, isRateLimit: isRateLimitError(error) });
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+/**
+ * A stream can only be retried before it has produced anything. Once text
+ * has been handed to the caller, replaying it would duplicate output, so
+ * later failures propagate as they are.
+ */
+export async function* withStreamRetry(open: () => AsyncGenerator<string>, onRetry?: (info: RetryInfo) => void, signal?: AbortSignal): AsyncGenerator<string> {
+  for (let attempt = 1; ; attempt++) {
+    let yielded = false;
+    try {
+      for await (const text of open()) {
+        yielded = true;
+        yield text;
+      }
+      return;
+    } catch (error) {
+      if (signal?.aborted || yielded || attempt >= MAX_ATTEMPTS || !isRetryableError(error)) throw error;
+      const delayMs = backoffDelay(attempt, error);
+      onRetry?.({ attempt: attempt + 1, maxAttempts: MAX_ATTEMPTS, delayMs, isRateLimit: isRateLimitError(error) });
+      await sleep(delayMs, signal);
+    }
+  }
+}
+
+export const withRetries = (provider: LLMProvider, onRetry?: (info: RetryInfo) => void): LLMProvider => ({
+  generateStream: request => withStreamRetry(() => provider.generateStream(request), onRetry, request.signal),
+  generate: request => withRetry(() => provider.generate(request), onRetry, request.signal),
+  ...(provider.countTokens ? { countTokens: (text: string) => provider.countTokens!(text) } : {}),
+});
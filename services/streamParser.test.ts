@@ -0,0 +1,65 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { parseJsonStream, type ParsedElement } from './streamParser';
+
+const FIRST = { code_block: 'const a = 1;', explanation: 'Declares `a`.' };
+const SECOND = { code_block: 'if (a) {\n  run();\n}', explanation: 'Runs when `a` is set; braces { } in strings are ignored.' };
+
+// Each fixture is a model response as it arrived, one string per chunk.
+const loadChunks = (name: string): string[] =>
+  JSON.parse(readFileSync(new URL(`./streamFixtures/${name}.json`, import.meta.url), 'utf8')).chunks;
+
+async function* replay(chunks: string[]): AsyncGenerator<string> {
+  for (const chunk of chunks) yield chunk;
+}
+
+const parseFixture = async (name: string): Promise<ParsedElement[]> => {
+  const elements: ParsedElement[] = [];
+  for await (const element of parseJsonStream(replay(loadChunks(name)))) elements.push(element);
+  return elements;
+};
+
+const values = (elements: ParsedElement[]) => elements.map(element => element.value);
+
+describe('parseJsonStream', () => {
+  it('parses a JSON array', async () => {
+    expect(values(await parseFixture('json-array'))).toEqual([FIRST, SECOND]);
+  });
+
+  it('parses NDJSON', async () => {
+    expect(values(await parseFixture('ndjson'))).toEqual([FIRST, SECOND]);
+  });
+
+  it('parses NDJSON with CRLF line endings', async () => {
+    expect(values(await parseFixture('crlf'))).toEqual([FIRST, SECOND]);
+  });
+
+  it('parses output wrapped in a ```json fence', async () => {
+    expect(values(await parseFixture('fenced'))).toEqual([FIRST, SECOND]);
+  });
+
+  it('parses several objects on one line, with or without commas', async () => {
+    expect(values(await parseFixture('one-line'))).toEqual([FIRST, SECOND, SECOND, FIRST]);
+  });
+
+  it('parses an object split across many chunks', async () => {
+    expect(values(await parseFixture('split-object'))).toEqual([SECOND, FIRST]);
+  });
+
+  it('reports an unterminated last object as malformed', async () => {
+    const elements = await parseFixture('truncated-tail');
+    expect(elements).toHaveLength(2);
+    expect(elements[0].value).toEqual(FIRST);
+    expect(elements[1].value).toBeUndefined();
+    expect(elements[1].error).toMatch(/^Malformed JSON from the model/);
+    expect(elements[1].raw).toBe(loadChunks('truncated-tail')[1].trim());
+  });
+
+  it('gives up an unbalanced NDJSON line without swallowing the lines after it', async () => {
+    const elements = await parseFixture('ndjson-unbalanced');
+    expect(elements).toHaveLength(4);
+    expect(elements[1].error).toMatch(/^Malformed JSON from the model/);
+    expect(elements[1].raw).toBe(loadChunks('ndjson-unbalanced')[1].trim());
+    expect(values([elements[0], elements[2], elements[3]])).toEqual([FIRST, SECOND, FIRST]);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Incremental parser for JSON objects that arrive in arbitrary text chunks.
+ * Yields each object as soon as its closing brace arrives.
+ *
+ * Accepts every shape the models actually send back:
+ * - a single JSON array (structured output)
+ * - NDJSON, one object per line, with LF or CRLF endings
+ * - several objects on one line, or one object split across many chunks
+ * - any of the above wrapped in a ```json code fence
+ *
+ * Outside an object only braces matter, so brackets, commas, fences and line
+ * breaks between objects are skipped without needing a separate mode for each.
+ *
+ * A line that starts with `{` while an object is still open at the key level
+ * can only mean the previous line never closed, as in NDJSON with one broken
+ * line. That object is given up as malformed so later lines still parse.
+ */
+
+export interface ParsedElement {
+  raw: string;
+  value?: unknown;
+  error?: string;
+}
+
+class JsonObjectScanner {
+  private open: string[] = [];
+  private inString = false;
+  private escaped = false;
+  private atLineStart = true;
+  private current = '';
+
+  push(text: string): string[] {
+    const completed: string[] = [];
+
+    for (const ch of text) {
+      const startsLine = this.atLineStart && !/\s/.test(ch);
+      if (ch === '\n') this.atLineStart = true;
+      else if (startsLine) this.atLineStart = false;
+
+      if (this.open.length === 0) {
+        if (ch === '{') this.begin();
+        continue;
+      }
+
+      if (startsLine && ch === '{' && (this.inString || this.open[this.open.length - 1] === '{')) {
+        completed.push(...this.end());
+        this.begin();
+        continue;
+      }
+
+      this.current += ch;
+
+      if (this.inString) {
+        if (this.escaped) this.escaped = false;
+        else if (ch === '\\') this.escaped = true;
+        else if (ch === '"') this.inString = false;
+        continue;
+      }
+
+      if (ch === '"') {
+        this.inString = true;
+      } else if (ch === '{' || ch === '[') {
+        this.open.push(ch);
+      } else if (ch === '}' || ch === ']') {
+        this.open.pop();
+        if (this.open.length === 0) {
+          completed.push(this.current);
+          this.current = '';
+        }
+      }
+    }
+
+    return completed;
+  }
+
+  // Whatever is left when the stream ends is an object the model never closed.
+  end(): string[] {
+    const remaining = this.current.trim();
+    this.current = '';
+    this.open = [];
+    this.inString = false;
+    this.escaped = false;
+    return remaining ? [remaining] : [];
+  }
+
+  private begin(): void {
+    this.open = ['{'];
+    this.current = '{';
+  }
+}
+
+const parseElement = (raw: string): ParsedElement => {
+  try {
+    return { raw, value: JSON.parse(raw) };
+  } catch (e) {
+    const reason = e instanceof Error ? e.message : String(e);
+    return { raw, error: `Malformed JSON from the model: ${reason}` };
+  }
+};
+
+export async function* parseJsonStream(chunks: AsyncIterable<string>): AsyncGenerator<ParsedElement> {
+  const scanner = new JsonObjectScanner();
+
+  for await (const chunk of chunks) {
+    for (const raw of scanner.push(chunk)) {
+      yield parseElement(raw);
+    }
+  }
+
+  for (const raw of scanner.end()) {
+    yield parseElement(raw);
+  }
+}
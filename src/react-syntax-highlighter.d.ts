@@ -0,0 +1,24 @@
+// react-syntax-highlighter ships without types. Only the parts the components
+// use are declared here.
+declare module 'react-syntax-highlighter' {
+  import type { ComponentType, CSSProperties, HTMLProps } from 'react';
+
+  export interface SyntaxHighlighterProps {
+    language?: string;
+    style?: Record<string, CSSProperties>;
+    customStyle?: CSSProperties;
+    showLineNumbers?: boolean;
+    wrapLines?: boolean;
+    lineProps?: HTMLProps<HTMLElement> | ((lineNumber: number) => HTMLProps<HTMLElement>);
+    PreTag?: string | ComponentType;
+    children: string;
+  }
+
+  export const Prism: ComponentType<SyntaxHighlighterProps>;
+}
+
+declare module 'react-syntax-highlighter/dist/esm/styles/prism' {
+  import type { CSSProperties } from 'react';
+
+  export const atomDark: Record<string, CSSProperties>;
+}
@@ -3,19 +3,195 @@ export interface FileNode {
   content: string | null;
   children: FileNode[];
   path: string;
+  // Set on files of a diff session. `content` then holds the file's hunks in
+  // unified diff format instead of the source.
+  diff?: DiffInfo;
+}
+
+export type DiffStatus = 'added' | 'modified' | 'deleted' | 'renamed';
+
+export interface DiffInfo {
+  status: DiffStatus;
+  oldPath?: string; // renames only
+}
+
+// One message in a block's follow-up thread.
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+  // Set on a reply that was stopped part way.
+  incomplete?: boolean;
+  // Set on a reply that failed; `text` holds the error. Failed exchanges are
+  // left out of the history sent with later questions.
+  error?: boolean;
 }
 
 export interface ExplanationBlock {
   code_block: string;
   explanation: string;
   deep_dive_explanation?: string;
+  deep_dive_incomplete?: boolean;
+  follow_up_thread?: ChatMessage[];
+  // Set when the model returned an element that failed validation. The block
+  // is kept, with whatever fields did arrive, so the problem stays visible.
+  error?: string;
+}
+
+// What the explain request was told about one imported project file.
+export interface ContextPackEntry {
+  path: string;
+  summary?: string;
+  signatures: string[];
 }
 
 export interface Explanation {
   blocks: ExplanationBlock[];
+  // Set when the request was cancelled part way; `blocks` holds what had
+  // arrived by then and the file can be explained again.
+  incomplete?: boolean;
+  // The model that produced the blocks. Missing on entries saved before it was recorded.
+  model?: string;
+  // Output language of the prose. Missing means English.
+  language?: string;
+  // Imported files described in the request. Missing or empty when none resolved.
+  context?: ContextPackEntry[];
+  // Percent of the file's non-blank lines that some block covers, checked
+  // once the explanation finished. Missing on older entries.
+  coverage?: number;
+  // Tests suggested from this explanation. Block indices refer to `blocks`.
+  tests?: TestSuggestion;
+  // Comprehension quiz on this explanation. Block indices refer to `blocks`.
+  quiz?: Quiz;
+}
+
+// Every question is multiple choice; "predict_output" ones also show the
+// code whose result is asked for.
+export type QuizQuestionKind = 'multiple_choice' | 'predict_output';
+
+export interface QuizQuestion {
+  kind: QuizQuestionKind;
+  blockIndex: number;
+  question: string;
+  code?: string;
+  choices: string[];
+  answer: number; // index into choices
+  // Why the answer is right, shown after the quiz is scored.
+  explanation: string;
+}
+
+export interface Quiz {
+  questions: QuizQuestion[];
+  incomplete?: boolean;
+  model?: string;
+  // Elements the model returned that did not fit the schema and were left out.
+  invalid?: number;
+}
+
+// One scored run through a file's quiz.
+export interface QuizAttempt {
+  path: string;
+  key: string; // explanationKey of the explanation the quiz was built on
+  timestamp: string;
+  score: number;
+  total: number;
+  // Blocks behind the questions answered wrongly, without duplicates.
+  missedBlocks: number[];
+}
+
+// One suggested test. `blockIndex` is the explanation block it exercises, or
+// null when the model named no block or one that does not exist.
+export interface TestCase {
+  name: string;
+  description: string;
+  code: string;
+  blockIndex: number | null;
+}
+
+// A suggested test file: the cases go between `header` (imports, setup, an
+// opening class or module) and `footer` (whatever closes them).
+export interface TestSuggestion {
+  framework: string; // display name, e.g. "Vitest"
+  fileName: string;
+  language: string; // syntax highlighting language
+  header: string;
+  cases: TestCase[];
+  footer: string;
+  incomplete?: boolean;
+  model?: string;
+  // Elements the model returned that did not fit the schema and were left out.
+  invalid?: number;
 }
 
-export type ExplanationLevel = 'beginner' | 'intermediate' | 'expert';
+export type FindingCategory = 'bug' | 'security' | 'performance' | 'style';
+
+export type FindingSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+// One issue from a code review. Lines are 1-based and inclusive, counted in
+// the file's content as it was reviewed.
+export interface ReviewFinding {
+  category: FindingCategory;
+  severity: FindingSeverity;
+  startLine: number;
+  endLine: number;
+  title: string;
+  rationale: string;
+  // Markdown, usually a short code fence with the replacement. Empty when the
+  // model had nothing concrete to suggest.
+  suggestedFix: string;
+}
+
+export interface FileReview {
+  findings: ReviewFinding[];
+  // Set when the review was cancelled part way; `findings` holds what had arrived.
+  incomplete?: boolean;
+  model?: string;
+  // Output language of the rationale and fixes. Missing means English.
+  language?: string;
+  // Elements the model returned that were not valid findings and were left out.
+  invalid?: number;
+}
+
+// Concepts are domain terms; identifiers are names from the code.
+export type GlossaryTermKind = 'concept' | 'identifier';
+
+export interface GlossaryUsage {
+  path: string;
+  // Blocks of the file's explanation that mention the term, at the glossary's key.
+  blocks: number[];
+}
+
+export interface GlossaryTerm {
+  term: string;
+  kind: GlossaryTermKind;
+  definition: string;
+  // Other spellings that count as a mention, e.g. a plural or the identifier behind a concept.
+  aliases: string[];
+  usages: GlossaryUsage[];
+}
+
+export interface Glossary {
+  terms: GlossaryTerm[];
+  key: string; // explanationKey of the explanations it was built from
+  timestamp: string;
+  incomplete?: boolean;
+  model?: string;
+  // Elements the model returned that did not fit the schema and were left out.
+  invalid?: number;
+}
+
+export type BuiltInLevel = 'beginner' | 'intermediate' | 'expert';
+
+// A built-in level, or the id of a CustomLevel.
+export type ExplanationLevel = BuiltInLevel | (string & {});
+
+// A user-defined level. The template is the level's own part of the system
+// prompt; the shared response-format rules are inserted at {base_rules}, or
+// appended when the placeholder is missing.
+export interface CustomLevel {
+  id: string;
+  name: string;
+  template: string;
+}
 
 // Serialized shape of the in-memory Map<path, Map<level, Explanation>>. Both
 // levels of nesting have to be plain objects to survive JSON.stringify.
@@ -30,8 +206,23 @@ export interface HistoryEntry {
   explanationsCache: SerializedExplanations;
   fileSummaries: Record<string, string>;
   projectSummary: string;
+  // Definitions for any custom levels, so their explanations still have a name
+  // and template after a restore. Missing on entries saved before custom levels.
+  customLevels?: CustomLevel[];
+  // Output language selected when the entry was saved. Missing means English.
+  language?: string;
+  // Code review findings by file path. Missing on entries saved before reviews.
+  reviews?: Record<string, FileReview>;
+  // Scored quiz runs, oldest first. Missing on entries saved before quizzes.
+  quizResults?: QuizAttempt[];
+  // Project glossary. Missing on entries saved before glossaries.
+  glossary?: Glossary;
 }
 
 export interface HistoryData {
   entries: HistoryEntry[];
-}
\ No newline at end of file
+}
+
+// Why a queued file is up front under dependency order: it is the selected
+// file, or one the selected file imports.
+export type QueuePriority = 'selected' | 'import';
\ No newline at end of file
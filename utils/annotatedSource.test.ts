@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import type { ExplanationBlock, FileNode } from '../types';
+import { annotateProject } from './annotatedSource';
+
+const file = (path: string, content: string): FileNode => ({ name: path.split('/').pop()!, path, content, children: [] });
+
+const annotate = (path: string, content: string, blocks: ExplanationBlock[]) =>
+  annotateProject([file(path, content)], () => blocks)[0].content;
+
+describe('annotateProject', () => {
+  it('writes a JSDoc comment above a TypeScript block', () => {
+    const code = 'const a = 1;\nexport default a;';
+    expect(annotate('src/a.ts', code, [{ code_block: 'export default a;', explanation: 'Exports `a`.' }]))
+      .toBe('const a = 1;\n/**\n * Exports `a`.\n */\nexport default a;');
+  });
+
+  it('uses <!-- --> comments in XML', () => {
+    const code = '<config>\n  <item>1</item>\n</config>';
+    expect(annotate('pom.xml', code, [{ code_block: '  <item>1</item>', explanation: 'One item.' }]))
+      .toBe('<config>\n  <!--\n    One item.\n  -->\n  <item>1</item>\n</config>');
+  });
+
+  it.each([
+    ['Dockerfile', 'FROM node:20\nRUN npm ci', 'RUN npm ci'],
+    ['Makefile', 'build:\n\tnpm run build', '\tnpm run build'],
+    ['notes.txt', 'first\nsecond', 'second'],
+    ['settings.ini', '[main]\nkey = 1', 'key = 1'],
+  ])('copies %s through unchanged', (path, code, block) => {
+    expect(annotate(path, code, [{ code_block: block, explanation: 'Explained.' }])).toBe(code);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Writes source files back out with each block's explanation as a comment above it
+ * Blocks that could not be found in the file, and files without a known comment syntax, stay as they are
+ */
+
+import type { ExplanationBlock, FileNode } from '../types';
+import { locateBlocks, type LineRange } from './blockLocation';
+import { getCommentStyle, getLanguage, type CommentStyle } from './languages';
+import type { ZipEntry } from './zip';
+
+const WRAP_COLUMN = 100;
+
+// Greedy word wrap for long prose lines. Fenced code and list indentation are kept.
+const wrapText = (text: string): string[] => {
+  const out: string[] = [];
+  let inFence = false;
+
+  for (const line of text.trim().split('\n')) {
+    if (/^\s*```/.test(line)) inFence = !inFence;
+    if (inFence || /^\s*```/.test(line) || line.length <= WRAP_COLUMN) {
+      out.push(line);
+      continue;
+    }
+
+    const hanging = ' '.repeat(line.match(/^\s*(?:[-*]\s+|\d+\.\s+)?/)![0].length);
+    let current = '';
+    for (const word of line.split(' ')) {
+      if (current && current.length + word.length + 1 > WRAP_COLUMN) {
+        out.push(current);
+        current = hanging + word;
+      } else {
+        current = current ? `${current} ${word}` : word;
+      }
+    }
+    if (current.trim()) out.push(current);
+  }
+  return out;
+};
+
+const formatComment = (text: string, style: CommentStyle, indent: string): string[] => {
+  const lines = wrapText(text);
+  if (style.block) {
+    const { open, prefix, close } = style.block;
+    // The explanation must not end the comment early.
+    const escape = (line: string) => line.replace(/\*\//g, '*\\/').replace(/-->/g, '-- >');
+    return [indent + open, ...lines.map(line => (indent + prefix + escape(line)).trimEnd()), indent + close];
+  }
+  return lines.map(line => `${indent}${style.line} ${line}`.trimEnd());
+};
+
+/**
+ * `code` with a comment above the first line of every located block.
+ * `ranges` are the blocks' line ranges, as from locateBlocks.
+ */
+export function annotateSource(code: string, blocks: ExplanationBlock[], ranges: (LineRange | null)[], language: string): string {
+  const style = getCommentStyle(language);
+  if (!style) return code;
+
+  const insertions = new Map<number, ExplanationBlock[]>();
+  blocks.forEach((block, i) => {
+    const range = ranges[i];
+    if (!range || block.error || !block.explanation.trim()) return;
+    insertions.set(range.startLine, [...(insertions.get(range.startLine) ?? []), block]);
+  });
+
+  const eol = code.includes('\r\n') ? '\r\n' : '\n';
+  const lines = code.split(/\r?\n/);
+  const out: string[] = [];
+  lines.forEach((line, i) => {
+    const indent = line.match(/^\s*/)![0];
+    for (const block of insertions.get(i + 1) ?? []) {
+      out.push(...formatComment(block.explanation, style, indent));
+    }
+    out.push(line);
+  });
+  return out.join(eol);
+}
+
+/**
+ * One zip entry per file, under its own path. Files with an explanation in
+ * `blocksFor` are annotated; the rest, diff session files and files whose
+ * comment syntax is unknown (Dockerfile, .txt, .ini, ...) go in unchanged.
+ */
+export function annotateProject(files: FileNode[], blocksFor: (path: string) => ExplanationBlock[] | undefined): ZipEntry[] {
+  return files.filter(file => file.content !== null).map(file => {
+    const blocks = blocksFor(file.path);
+    const content = file.content!;
+    if (!blocks || file.diff) return { path: file.path, content };
+    return { path: file.path, content: annotateSource(content, blocks, locateBlocks(content, blocks), getLanguage(file.name)) };
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * Maps explanation blocks back to line ranges in their source file
+ * The model's copy of a block can differ from the file in line endings or whitespace
+ */
+
+import type { ExplanationBlock } from '../types';
+
+export interface LineRange {
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+}
+
+const findBlock = (source: string, blockFromAI: string, startIndex: number): { index: number; content: string } | null => {
+  if (!blockFromAI) return null;
+
+  // Attempt a direct match first. This is the most common case (Unix/Mac files).
+  let index = source.indexOf(blockFromAI, startIndex);
+  if (index !== -1) {
+    return { index, content: blockFromAI };
+  }
+
+  // If direct match fails, it might be due to line-ending differences (\n vs \r\n).
+  // The AI will use \n. The source file might have \r\n (e.g., from Windows).
+  const blockWithCRLF = blockFromAI.replace(/\n/g, '\r\n');
+
+  if (blockWithCRLF !== blockFromAI) {
+    index = source.indexOf(blockWithCRLF, startIndex);
+    if (index !== -1) {
+      // We found a match. The content we use for segmentation must be the
+      // version we found in the source, so that `lastIndex` is updated correctly.
+      return { index, content: blockWithCRLF };
+    }
+  }
+
+  // If still no match, try normalizing whitespace (common with cached explanations)
+  // This handles cases where cached blocks have different whitespace formatting
+  const normalizeWhitespace = (text: string) => text.trim().replace(/\s+/g, ' ');
+  const normalizedBlock = normalizeWhitespace(blockFromAI);
+
+  // Search through the source for a block with matching normalized content
+  const sourceLines = source.substring(startIndex).split('\n');
+  let currentPos = startIndex;
+
+  for (let i = 0; i < sourceLines.length; i++) {
+    // Try different window sizes for matching
+    for (let windowSize = 1; windowSize <= Math.min(5, sourceLines.length - i); windowSize++) {
+      const candidateLines = sourceLines.slice(i, i + windowSize);
+      const candidateBlock = candidateLines.join('\n');
+
+      if (normalizeWhitespace(candidateBlock) === normalizedBlock) {
+        // Found a match! Calculate the actual position
+        const beforeCandidate = sourceLines.slice(0, i).join('\n');
+        const actualIndex = startIndex + (i > 0 ? beforeCandidate.length + 1 : 0);
+        return { index: actualIndex, content: candidateBlock };
+      }
+    }
+
+    currentPos += sourceLines[i].length + 1; // +1 for newline
+  }
+
+  return null;
+};
+
+/**
+ * Line range of each block, in order, or null where a block could not be found.
+ * Blocks are searched for after the end of the previous match, like the model wrote them.
+ */
+export function locateBlocks(code: string, blocks: ExplanationBlock[]): (LineRange | null)[] {
+  let lastIndex = 0;
+  return blocks.map(block => {
+    const match = findBlock(code, block.code_block, lastIndex);
+    if (!match) return null;
+
+    const startLine = (code.substring(0, match.index).match(/\n/g) || []).length + 1;
+    const endLine = startLine + (match.content.match(/\n/g) || []).length;
+    lastIndex = match.index + match.content.length;
+    return { startLine, endLine };
+  });
+}
@@ -0,0 +1,75 @@
+/**
+ * Splits source files that are too large for one explanation request
+ * Cuts fall on top-level declarations or blank-line runs where possible
+ */
+
+import { approximateTokens } from './costEstimate';
+
+// Output runs 1.5-2.5x the input (see costEstimate), so this keeps each
+// response well inside the output limits of hosted models and inside the
+// default context window of most local ones.
+export const CHUNK_TOKEN_BUDGET = 6000;
+
+export interface CodeChunk {
+  index: number;
+  startLine: number; // 1-based, inclusive
+  endLine: number;
+  text: string;
+}
+
+// A line at column 0 that opens a declaration in one of the common languages.
+// Indented lines never match, so cuts never land inside a class or function body.
+const TOP_LEVEL_DECLARATION = /^(export\s|import\s|async\s+function|function\s|class\s|interface\s|type\s|enum\s|const\s|let\s|var\s|def\s|func\s|fn\s|pub\s|impl\s|struct\s|public\s|private\s|protected\s|static\s|@\w|#\s*(region|pragma)|package\s|module\s|namespace\s|CREATE\s|ALTER\s)/i;
+
+const isSafeBoundary = (lines: string[], i: number): boolean => {
+  if (i <= 0 || i >= lines.length) return false;
+  const previousBlank = lines[i - 1].trim() === '';
+  const currentBlank = lines[i].trim() === '';
+  // Start of a declaration, or the first content line after a blank run.
+  return TOP_LEVEL_DECLARATION.test(lines[i]) || (previousBlank && !currentBlank && !/^\s/.test(lines[i]));
+};
+
+export function needsChunking(code: string, budget = CHUNK_TOKEN_BUDGET): boolean {
+  return approximateTokens(code) > budget;
+}
+
+/**
+ * Greedy split: grow each chunk until it would pass the budget, then cut at
+ * the last safe boundary seen. A single huge declaration with no boundary
+ * inside is cut at the budget line rather than sent whole.
+ */
+export function splitIntoChunks(code: string, budget = CHUNK_TOKEN_BUDGET): CodeChunk[] {
+  const lines = code.split('\n');
+  const chunks: CodeChunk[] = [];
+
+  let start = 0;
+  while (start < lines.length) {
+    let tokens = 0;
+    let end = start;
+    let lastBoundary = -1;
+
+    while (end < lines.length) {
+      const lineTokens = approximateTokens(lines[end] + '\n');
+      if (tokens + lineTokens > budget && end > start) break;
+      if (end > start && isSafeBoundary(lines, end)) lastBoundary = end;
+      tokens += lineTokens;
+      end++;
+    }
+
+    // Only fall back to a boundary if it keeps the chunk reasonably full,
+    // otherwise a stray early boundary produces lots of tiny requests.
+    const cut = end < lines.length && lastBoundary > start && (lastBoundary - start) >= (end - start) / 3
+      ? lastBoundary
+      : end;
+
+    chunks.push({
+      index: chunks.length,
+      startLine: start + 1,
+      endLine: cut,
+      text: lines.slice(start, cut).join('\n'),
+    });
+    start = cut;
+  }
+
+  return chunks;
+}
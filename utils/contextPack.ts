@@ -0,0 +1,95 @@
+/**
+ * Compact context about a file's imports, sent along when the file is explained
+ * Each imported project file contributes its summary, or the start of its explanation, and exported signatures
+ */
+
+import type { ContextPackEntry, Explanation, FileNode } from '../types';
+import { approximateTokens } from './costEstimate';
+import { findGoModules, findImportedFiles } from './imports';
+
+const CONTEXT_PACK_TOKEN_BUDGET = 2_000;
+const MAX_SIGNATURES_PER_FILE = 20;
+const MAX_SIGNATURE_LENGTH = 160;
+const MAX_EXPLANATION_GIST_LENGTH = 300;
+
+const JS_EXPORT = /^export\s+(?:default\s+)?(?:declare\s+)?(?:async\s+)?(?:function\*?|const|let|var|class|abstract\s+class|interface|type|enum)\b|^export\s+default\b|^export\s*\{/;
+const PY_EXPORT = /^(?:async\s+)?def\s+[A-Za-z]\w*|^class\s+[A-Za-z]\w*/;
+
+// Just the declaration: bodies, initializers and trailing braces are cut.
+const trimSignature = (signature: string) => {
+  const arrow = signature.indexOf('=>');
+  let trimmed = arrow !== -1 ? signature.slice(0, arrow + 2) : signature.replace(/\s*\{[^}]*$/, '');
+  trimmed = trimmed.replace(/\s*[:;]\s*$/, '').replace(/\s+/g, ' ').trim();
+  return trimmed.length > MAX_SIGNATURE_LENGTH ? `${trimmed.slice(0, MAX_SIGNATURE_LENGTH - 3)}...` : trimmed;
+};
+
+/**
+ * One line per exported declaration. Parameter lists that span several lines
+ * are joined, up to a few lines.
+ */
+export function extractExportedSignatures(content: string, path: string): string[] {
+  const isPython = path.endsWith('.py');
+  const lines = content.split('\n');
+  const signatures: string[] = [];
+
+  for (let i = 0; i < lines.length && signatures.length < MAX_SIGNATURES_PER_FILE; i++) {
+    const line = lines[i];
+    if (!(isPython ? PY_EXPORT : JS_EXPORT).test(line)) continue;
+
+    let signature = line;
+    for (let j = i + 1; j < Math.min(lines.length, i + 6) && /\($|,$/.test(signature.trimEnd()); j++) {
+      signature += ' ' + lines[j].trim();
+    }
+    signatures.push(trimSignature(signature));
+  }
+  return signatures;
+}
+
+// Stands in for a missing summary: the first block usually says what the file is for.
+const explanationGist = (explanation: Explanation | undefined) => {
+  const text = explanation?.blocks.find(block => !block.error && block.explanation.trim())?.explanation.trim().replace(/\s+/g, ' ');
+  if (!text) return undefined;
+  return text.length > MAX_EXPLANATION_GIST_LENGTH ? `${text.slice(0, MAX_EXPLANATION_GIST_LENGTH - 3)}...` : text;
+};
+
+/**
+ * The imported files' summaries and signatures, nearest imports first, until
+ * the token budget runs out. Files with nothing to say are left out.
+ * `explanationFor` gives an already explained import's explanation at the level being requested.
+ */
+export function buildContextPack(
+  file: FileNode,
+  files: FileNode[],
+  fileSummaries: Map<string, string>,
+  explanationFor: (path: string) => Explanation | undefined = () => undefined
+): ContextPackEntry[] {
+  const byPath = new Map(files.map(f => [f.path, f]));
+  const pack: ContextPackEntry[] = [];
+  let used = 0;
+
+  for (const path of findImportedFiles(file, new Set(byPath.keys()), findGoModules(files))) {
+    const imported = byPath.get(path);
+    if (!imported?.content) continue;
+
+    const entry: ContextPackEntry = {
+      path,
+      summary: fileSummaries.get(path) ?? explanationGist(explanationFor(path)),
+      signatures: extractExportedSignatures(imported.content, path),
+    };
+    if (!entry.summary && entry.signatures.length === 0) continue;
+
+    const tokens = approximateTokens(formatContextPackEntry(entry));
+    if (used + tokens > CONTEXT_PACK_TOKEN_BUDGET) break;
+    pack.push(entry);
+    used += tokens;
+  }
+  return pack;
+}
+
+export function formatContextPackEntry(entry: ContextPackEntry): string {
+  return [
+    `### ${entry.path}`,
+    ...(entry.summary ? [entry.summary] : []),
+    ...entry.signatures.map(signature => `- \`${signature}\``),
+  ].join('\n');
+}
@@ -0,0 +1,109 @@
+/**
+ * Token and price estimates for Ansuz
+ * Rough numbers shown before large batches so nobody is surprised by the bill
+ */
+
+import type { BuiltInLevel, ExplanationLevel, FileNode } from '../types';
+import type { ProviderConfig } from '../services/providers';
+
+// USD per million tokens. Self-hosted backends are free to run from our side;
+// models not listed here are shown without a price rather than guessed at.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4o': { input: 2.50, output: 10.00 },
+  'gpt-4.1-mini': { input: 0.40, output: 1.60 },
+  'gpt-4.1': { input: 2.00, output: 8.00 },
+};
+
+// Every block echoes its code verbatim before explaining it, so output grows
+// with the size of the file. Beginner explanations are the wordiest.
+const OUTPUT_RATIO: Record<BuiltInLevel, number> = {
+  beginner: 2.5,
+  intermediate: 1.5,
+  expert: 2.0,
+};
+
+// Custom levels can ask for anything, so assume the wordier end.
+const CUSTOM_OUTPUT_RATIO = 2.0;
+
+export const SUMMARY_TOKEN_LIMIT_DEFAULT = 150_000;
+
+export interface FileTokenEstimate {
+  path: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LevelTokenEstimate {
+  level: ExplanationLevel;
+  name: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  price: number | null;
+}
+
+export interface ProcessAllEstimate {
+  level: ExplanationLevel;
+  files: FileTokenEstimate[];
+  levels: LevelTokenEstimate[];
+  inputTokens: number;
+  outputTokens: number;
+  price: number | null;
+  // True when the provider counted the input; false for the local approximation.
+  isExact: boolean;
+}
+
+/**
+ * Local stand-in for a tokenizer: about four characters per token for code and English
+ */
+export function approximateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateOutputTokens(codeTokens: number, level: ExplanationLevel): number {
+  return Math.ceil(codeTokens * (OUTPUT_RATIO[level as BuiltInLevel] ?? CUSTOM_OUTPUT_RATIO));
+}
+
+/**
+ * Returns null when the model has no known price
+ */
+export function estimatePrice(config: ProviderConfig, inputTokens: number, outputTokens: number): number | null {
+  if (config.kind === 'ollama' || config.kind === 'mock') return 0;
+  const pricing = MODEL_PRICING[config.model];
+  if (!pricing) return null;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Summaries send every file once, spread over batches, so the local
+ * approximation is enough to decide whether to start them without asking
+ */
+export function approximateSummaryTokens(files: FileNode[]): number {
+  return files.reduce((sum, file) => sum + approximateTokens(file.content || '') + 20, 0);
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(2)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return tokens.toString();
+}
+
+export function formatPrice(price: number | null): string {
+  if (price === null) return 'unknown';
+  if (price === 0) return 'free';
+  if (price < 0.01) return '< $0.01';
+  return `$${price.toFixed(2)}`;
+}
+
+export function loadSummaryTokenLimit(): number {
+  const saved = Number(localStorage.getItem('summary_token_limit'));
+  return Number.isFinite(saved) && saved > 0 ? saved : SUMMARY_TOKEN_LIMIT_DEFAULT;
+}
+
+export function saveSummaryTokenLimit(limit: number): void {
+  localStorage.setItem('summary_token_limit', String(limit));
+}
@@ -0,0 +1,81 @@
+/**
+ * Checks how much of a file its explanation blocks actually cover
+ * Finds the lines no block copied and the blocks that are not in the source at all
+ */
+
+import type { ExplanationBlock } from '../types';
+import { locateBlocks, type LineRange } from './blockLocation';
+
+export interface CoverageReport {
+  // Share of non-blank lines inside some block, 0-100.
+  percent: number;
+  // Runs of uncovered lines, trimmed of blank lines at either end.
+  gaps: LineRange[];
+  // Indices of blocks whose code could not be found in the source.
+  unmatched: number[];
+}
+
+// Lines like a lone `}` or `});` are often left between blocks and need no explanation.
+const TRIVIAL_LINE = /^[\s{}()[\];,]*$/;
+
+export function analyzeCoverage(code: string, blocks: ExplanationBlock[]): CoverageReport {
+  const lines = code.split('\n');
+  const covered = new Array<boolean>(lines.length + 1).fill(false);
+  const unmatched: number[] = [];
+
+  locateBlocks(code, blocks).forEach((range, index) => {
+    if (!range) {
+      // Failed elements carry no code, so they are not counted as invented.
+      if (!blocks[index].error && blocks[index].code_block) unmatched.push(index);
+      return;
+    }
+    for (let line = range.startLine; line <= range.endLine; line++) covered[line] = true;
+  });
+
+  const gaps: LineRange[] = [];
+  let total = 0;
+  let hit = 0;
+  let gap: LineRange | null = null;
+
+  for (let line = 1; line <= lines.length; line++) {
+    if (lines[line - 1].trim() === '') continue;
+    total++;
+    if (covered[line]) {
+      hit++;
+      gap = null;
+    } else if (gap) {
+      gap.endLine = line;
+    } else {
+      gap = { startLine: line, endLine: line };
+      gaps.push(gap);
+    }
+  }
+
+  return {
+    percent: total === 0 ? 100 : Math.floor((hit / total) * 100),
+    gaps,
+    unmatched,
+  };
+}
+
+export function sliceLines(code: string, range: LineRange): string {
+  return code.split('\n').slice(range.startLine - 1, range.endLine).join('\n');
+}
+
+/**
+ * Gaps worth asking the model about again: anything beyond closing brackets
+ * and punctuation.
+ */
+export function gapsToFill(code: string, report: CoverageReport): LineRange[] {
+  return report.gaps.filter(gap => sliceLines(code, gap).split('\n').some(line => !TRIVIAL_LINE.test(line)));
+}
+
+/**
+ * Where a block that fills `gap` goes in `blocks` so they stay in source
+ * order: before the first block that starts below the gap.
+ */
+export function gapInsertionIndex(code: string, blocks: ExplanationBlock[], gap: LineRange): number {
+  const ranges = locateBlocks(code, blocks);
+  const index = ranges.findIndex(range => range !== null && range.startLine > gap.endLine);
+  return index === -1 ? blocks.length : index;
+}
@@ -0,0 +1,427 @@
+/**
+ * Line diffs between two versions of a file, and parsing of unified diffs and git patches
+ * A changed file becomes a FileNode whose content is its hunks in unified format
+ */
+
+import type { DiffStatus, FileNode } from '../types';
+
+export interface DiffLine {
+  kind: 'context' | 'added' | 'removed';
+  text: string;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  // Whatever followed the second @@ in a patch, usually the enclosing function.
+  heading?: string;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  path: string;
+  oldPath?: string;
+  status: DiffStatus;
+  hunks: DiffHunk[];
+  binary?: boolean;
+}
+
+const CONTEXT_LINES = 3;
+// Past this many edits the files are treated as rewritten, which keeps the
+// diff's memory use bounded on unrelated inputs.
+const MAX_EDIT_DISTANCE = 2_000;
+
+const splitLines = (text: string): string[] => {
+  if (text === '') return [];
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+// Myers' O((N+M)D) diff. Only the diagonals reachable at each step are kept
+// for the backtrack, so memory grows with the square of the edit distance.
+const myersDiff = (a: string[], b: string[]): DiffLine[] | null => {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) return null;
+    trace.push(v.slice(offset - d, offset + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace);
+    }
+  }
+  return null;
+};
+
+const backtrack = (a: string[], b: string[], trace: Int32Array[]): DiffLine[] => {
+  const result: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : at(prevK);
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      result.push({ kind: 'context', text: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) result.push({ kind: 'added', text: b[y - 1] });
+      else result.push({ kind: 'removed', text: a[x - 1] });
+    }
+    x = prevX;
+    y = prevY;
+  }
+  return result.reverse();
+};
+
+/**
+ * Every line of both versions in order, marked as kept, added or removed
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = splitLines(before);
+  const b = splitLines(after);
+
+  // Shared ends are common and cheap to strip before the real diff.
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const middleA = a.slice(prefix, a.length - suffix);
+  const middleB = b.slice(prefix, b.length - suffix);
+  const middle = myersDiff(middleA, middleB) ?? [
+    ...middleA.map(text => ({ kind: 'removed' as const, text })),
+    ...middleB.map(text => ({ kind: 'added' as const, text })),
+  ];
+
+  return [
+    ...a.slice(0, prefix).map(text => ({ kind: 'context' as const, text })),
+    ...middle,
+    ...a.slice(a.length - suffix).map(text => ({ kind: 'context' as const, text })),
+  ];
+}
+
+/**
+ * Groups changes into hunks with a few lines of context around each. Changes
+ * whose context would overlap share a hunk.
+ */
+export function buildHunks(lines: DiffLine[], context = CONTEXT_LINES): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  const changed = lines.map((line, i) => line.kind !== 'context' ? i : -1).filter(i => i !== -1);
+  if (changed.length === 0) return hunks;
+
+  // Old and new line numbers before each index.
+  const oldBefore: number[] = [];
+  const newBefore: number[] = [];
+  let oldCount = 0;
+  let newCount = 0;
+  for (const line of lines) {
+    oldBefore.push(oldCount);
+    newBefore.push(newCount);
+    if (line.kind !== 'added') oldCount++;
+    if (line.kind !== 'removed') newCount++;
+  }
+
+  let start = Math.max(0, changed[0] - context);
+  let end = Math.min(lines.length, changed[0] + context + 1);
+  const flush = () => {
+    const hunkLines = lines.slice(start, end);
+    const oldLines = hunkLines.filter(line => line.kind !== 'added').length;
+    const newLines = hunkLines.filter(line => line.kind !== 'removed').length;
+    hunks.push({
+      oldStart: oldLines > 0 ? oldBefore[start] + 1 : oldBefore[start],
+      oldLines,
+      newStart: newLines > 0 ? newBefore[start] + 1 : newBefore[start],
+      newLines,
+      lines: hunkLines,
+    });
+  };
+
+  for (const index of changed.slice(1)) {
+    if (index - context <= end) {
+      end = Math.min(lines.length, index + context + 1);
+    } else {
+      flush();
+      start = index - context;
+      end = Math.min(lines.length, index + context + 1);
+    }
+  }
+  flush();
+  return hunks;
+}
+
+export const formatHunkHeader = (hunk: DiffHunk) =>
+  `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@${hunk.heading ? ` ${hunk.heading}` : ''}`;
+
+const PREFIX: Record<DiffLine['kind'], string> = { context: ' ', added: '+', removed: '-' };
+
+export function formatHunk(hunk: DiffHunk): string {
+  return [formatHunkHeader(hunk), ...hunk.lines.map(line => PREFIX[line.kind] + line.text)].join('\n');
+}
+
+/**
+ * The hunks of a file's unified content, each starting at its @@ header
+ */
+export function splitHunks(content: string): string[] {
+  const hunks: string[] = [];
+  for (const line of content.split('\n')) {
+    if (line.startsWith('@@')) hunks.push(line);
+    else if (hunks.length > 0) hunks[hunks.length - 1] += `\n${line}`;
+  }
+  return hunks;
+}
+
+/**
+ * One file's change between two versions. `null` means the file does not
+ * exist on that side.
+ */
+export function compareVersions(path: string, before: string | null, after: string | null, oldPath?: string): FileDiff {
+  const status: DiffStatus = before === null ? 'added' : after === null ? 'deleted' : oldPath && oldPath !== path ? 'renamed' : 'modified';
+  return {
+    path,
+    ...(status === 'renamed' ? { oldPath } : {}),
+    status,
+    hunks: buildHunks(diffLines(before ?? '', after ?? '')),
+  };
+}
+
+/**
+ * Changed files between two sets of files keyed by path. Files that are the
+ * same on both sides are left out.
+ */
+export function compareFileSets(before: Map<string, string>, after: Map<string, string>): FileDiff[] {
+  const paths = [...new Set([...before.keys(), ...after.keys()])].sort();
+  return paths
+    .filter(path => before.get(path) !== after.get(path))
+    .map(path => compareVersions(path, before.get(path) ?? null, after.get(path) ?? null));
+}
+
+const stripPrefix = (path: string) => path.replace(/^[ab]\//, '');
+
+// Path from a ---/+++ line, or null for /dev/null. Timestamps follow a tab.
+const headerPath = (line: string): string | null => {
+  const path = line.slice(4).split('\t')[0].trim();
+  return path === '/dev/null' ? null : stripPrefix(path);
+};
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+// Side flags gathered from the headers until the status can be decided.
+type PatchFile = FileDiff & { oldMissing?: boolean; newMissing?: boolean };
+
+/**
+ * Files in a unified diff or git patch, including `git format-patch` output.
+ * Lines inside a hunk are counted, so removed lines that happen to start with
+ * "--" are not mistaken for file headers.
+ */
+export function parsePatch(text: string): FileDiff[] {
+  const files: PatchFile[] = [];
+  let current: PatchFile | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldLeft = 0;
+  let newLeft = 0;
+
+  for (const line of text.replace(/\r\n/g, '\n').split('\n')) {
+    if (hunk && (oldLeft > 0 || newLeft > 0)) {
+      const marker = line[0];
+      if (marker === '+') {
+        hunk.lines.push({ kind: 'added', text: line.slice(1) });
+        newLeft--;
+        continue;
+      }
+      if (marker === '-') {
+        hunk.lines.push({ kind: 'removed', text: line.slice(1) });
+        oldLeft--;
+        continue;
+      }
+      if (marker === ' ' || line === '') {
+        hunk.lines.push({ kind: 'context', text: line.slice(1) });
+        oldLeft--;
+        newLeft--;
+        continue;
+      }
+      // "\ No newline at end of file" belongs to the hunk; anything else means
+      // the counts were off, so it is read as a header.
+      if (marker === '\\') continue;
+    }
+
+    const gitHeader = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+    if (gitHeader) {
+      current = { path: gitHeader[2], oldPath: gitHeader[1], status: 'modified', hunks: [] };
+      files.push(current);
+      hunk = null;
+      continue;
+    }
+
+    if (line.startsWith('--- ')) {
+      // A plain unified diff has no "diff --git" line, so "---" starts the file.
+      if (!current || current.hunks.length > 0) {
+        current = { path: '', status: 'modified', hunks: [] };
+        files.push(current);
+        hunk = null;
+      }
+      const path = headerPath(line);
+      current.oldMissing = path === null;
+      if (path) current.oldPath = path;
+      continue;
+    }
+    if (!current) continue;
+
+    if (line.startsWith('+++ ')) {
+      const path = headerPath(line);
+      current.newMissing = path === null;
+      current.path = path ?? (current.path || current.oldPath || '');
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      hunk = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        ...(header[5] ? { heading: header[5] } : {}),
+        lines: [],
+      };
+      current.hunks.push(hunk);
+      oldLeft = hunk.oldLines;
+      newLeft = hunk.newLines;
+      continue;
+    }
+
+    if (line.startsWith('new file mode')) current.oldMissing = true;
+    else if (line.startsWith('deleted file mode')) current.newMissing = true;
+    else if (line.startsWith('rename from ')) current.oldPath = line.slice('rename from '.length);
+    else if (line.startsWith('rename to ')) current.path = line.slice('rename to '.length);
+    else if (line.startsWith('Binary files ') || line.startsWith('GIT binary patch')) current.binary = true;
+  }
+
+  return files.filter(file => file.path).map(({ oldMissing, newMissing, ...file }) => {
+    const status: DiffStatus = oldMissing ? 'added' : newMissing ? 'deleted' : file.oldPath && file.oldPath !== file.path ? 'renamed' : 'modified';
+    const { oldPath, ...rest } = file;
+    return status === 'renamed' ? { ...rest, status, oldPath } : { ...rest, status };
+  });
+}
+
+const describeWithoutHunks = (diff: FileDiff) =>
+  diff.binary ? 'Binary file changed.'
+    : diff.status === 'renamed' ? `Renamed from ${diff.oldPath} without content changes.`
+      : 'No textual changes.';
+
+/**
+ * A tree of the changed files, shaped like an uploaded project so the rest of
+ * the app can treat a diff session like any other.
+ */
+export function buildDiffTree(diffs: FileDiff[], name: string): FileNode {
+  const root: FileNode = { name, content: null, children: [], path: '' };
+
+  for (const diff of diffs) {
+    const parts = diff.path.split('/').filter(Boolean);
+    let node = root;
+    parts.forEach((part, index) => {
+      const path = parts.slice(0, index + 1).join('/');
+      let child = node.children.find(c => c.name === part);
+      if (!child) {
+        const isFile = index === parts.length - 1;
+        child = {
+          name: part,
+          content: isFile ? (diff.hunks.length > 0 ? diff.hunks.map(formatHunk).join('\n') : describeWithoutHunks(diff)) : null,
+          children: [],
+          path,
+          ...(isFile ? { diff: { status: diff.status, ...(diff.oldPath ? { oldPath: diff.oldPath } : {}) } } : {}),
+        };
+        node.children.push(child);
+      }
+      node = child;
+    });
+  }
+  return root;
+}
+
+export type SideBySideRow =
+  | { kind: 'header'; line: number }
+  // 1-based lines of the unified content shown on each side; a missing side is blank.
+  | { kind: 'pair'; left?: number; right?: number };
+
+/**
+ * Rows for a side-by-side view of unified content. Removed lines are paired
+ * with the added lines that replace them.
+ */
+export function toSideBySideRows(content: string): SideBySideRow[] {
+  const lines = content.split('\n');
+  const rows: SideBySideRow[] = [];
+  let removed: number[] = [];
+  let added: number[] = [];
+
+  const flushChanges = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ kind: 'pair', left: removed[i], right: added[i] });
+    }
+    removed = [];
+    added = [];
+  };
+
+  lines.forEach((line, i) => {
+    const lineNumber = i + 1;
+    if (line.startsWith('@@')) {
+      flushChanges();
+      rows.push({ kind: 'header', line: lineNumber });
+    } else if (line.startsWith('-')) {
+      // A removal after additions starts a new replacement.
+      if (added.length > 0) flushChanges();
+      removed.push(lineNumber);
+    } else if (line.startsWith('+')) {
+      added.push(lineNumber);
+    } else {
+      flushChanges();
+      rows.push({ kind: 'pair', left: lineNumber, right: lineNumber });
+    }
+  });
+  flushChanges();
+  return rows;
+}
+
+/**
+ * Old and new line numbers for each line of unified content, taken from the
+ * hunk headers. Headers themselves get neither.
+ */
+export function numberUnifiedLines(content: string): { old?: number; new?: number }[] {
+  let oldLine = 0;
+  let newLine = 0;
+  return content.split('\n').map(line => {
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      oldLine = Number(header[1]);
+      newLine = Number(header[3]);
+      return {};
+    }
+    if (line.startsWith('-')) return { old: oldLine++ };
+    if (line.startsWith('+')) return { new: newLine++ };
+    return { old: oldLine++, new: newLine++ };
+  });
+}
@@ -0,0 +1,15 @@
+/**
+ * Saves generated content as a file download
+ * Goes through a temporary object URL and link, released right after the click
+ */
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,70 @@
+/**
+ * Built-in and user-defined explanation levels
+ * Custom levels live in localStorage and travel with history entries
+ */
+
+import type { BuiltInLevel, CustomLevel, ExplanationLevel } from '../types';
+
+const CUSTOM_LEVELS_STORAGE_KEY = 'custom_levels';
+
+export const BUILT_IN_LEVELS: BuiltInLevel[] = ['beginner', 'intermediate', 'expert'];
+
+export interface LevelOption {
+  id: ExplanationLevel;
+  name: string;
+}
+
+export const isBuiltInLevel = (level: string): level is BuiltInLevel =>
+  (BUILT_IN_LEVELS as string[]).includes(level);
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Every level the switcher offers, built-in first
+ */
+export function getLevelOptions(customLevels: CustomLevel[]): LevelOption[] {
+  return [
+    ...BUILT_IN_LEVELS.map(id => ({ id, name: capitalize(id) })),
+    ...customLevels.map(level => ({ id: level.id, name: level.name })),
+  ];
+}
+
+export function getLevelName(level: ExplanationLevel | CustomLevel, customLevels: CustomLevel[] = []): string {
+  if (typeof level === 'object') return level.name;
+  if (isBuiltInLevel(level)) return capitalize(level);
+  return customLevels.find(custom => custom.id === level)?.name ?? level;
+}
+
+export const createCustomLevelId = () => `custom-${Date.now().toString(36)}`;
+
+const isCustomLevel = (value: unknown): value is CustomLevel => {
+  const level = value as CustomLevel | null;
+  return !!level && typeof level.id === 'string' && typeof level.name === 'string' && typeof level.template === 'string';
+};
+
+export function parseCustomLevels(raw: unknown): CustomLevel[] {
+  return Array.isArray(raw) ? raw.filter(isCustomLevel) : [];
+}
+
+export function loadCustomLevels(): CustomLevel[] {
+  try {
+    return parseCustomLevels(JSON.parse(localStorage.getItem(CUSTOM_LEVELS_STORAGE_KEY) || '[]'));
+  } catch (error) {
+    console.error('Error loading custom levels:', error);
+    return [];
+  }
+}
+
+export function saveCustomLevels(levels: CustomLevel[]): void {
+  localStorage.setItem(CUSTOM_LEVELS_STORAGE_KEY, JSON.stringify(levels));
+}
+
+/**
+ * Adds levels from a restored history entry that this browser does not know
+ * yet. Local definitions win when both have the same id.
+ */
+export function mergeCustomLevels(current: CustomLevel[], incoming: CustomLevel[]): CustomLevel[] {
+  const known = new Set(current.map(level => level.id));
+  const added = incoming.filter(level => !known.has(level.id));
+  return added.length > 0 ? [...current, ...added] : current;
+}
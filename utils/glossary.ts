@@ -0,0 +1,190 @@
+/**
+ * Builds the material a project glossary is generated from, finds where each term is used,
+ * and turns term mentions in explanation Markdown into links the view renders as hover-cards
+ */
+
+import type { Explanation, FileNode, Glossary, GlossaryTerm, GlossaryUsage } from '../types';
+import { approximateTokens } from './costEstimate';
+
+// What the summaries and explanations sent to the model may cost together.
+const GLOSSARY_TOKEN_BUDGET = 40_000;
+// Long explanations are cut: the terms they use show up early.
+const MAX_EXPLANATION_CHARS = 600;
+
+export interface GlossaryMaterialFile {
+  path: string;
+  summary?: string;
+  explanations: string[];
+}
+
+export interface GlossaryMaterial {
+  projectSummary: string;
+  files: GlossaryMaterialFile[];
+  // Set when some explanations did not fit the budget.
+  truncated: boolean;
+}
+
+/**
+ * Every summary first, then block explanations file by file while the budget lasts.
+ */
+export function buildGlossaryMaterial(
+  files: FileNode[],
+  explanationFor: (path: string) => Explanation | undefined,
+  summaries: Map<string, string>,
+  projectSummary: string
+): GlossaryMaterial {
+  const entries: GlossaryMaterialFile[] = files
+    .map(file => ({ path: file.path, summary: summaries.get(file.path), explanations: [] as string[] }))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  let used = approximateTokens(projectSummary) + entries.reduce((sum, entry) => sum + approximateTokens(entry.summary ?? ''), 0);
+  let truncated = false;
+
+  for (const entry of entries) {
+    for (const block of explanationFor(entry.path)?.blocks ?? []) {
+      if (block.error || !block.explanation.trim()) continue;
+      const text = block.explanation.trim().replace(/\s+/g, ' ').slice(0, MAX_EXPLANATION_CHARS);
+      const tokens = approximateTokens(text);
+      if (used + tokens > GLOSSARY_TOKEN_BUDGET) {
+        truncated = true;
+        break;
+      }
+      entry.explanations.push(text);
+      used += tokens;
+    }
+  }
+
+  return {
+    projectSummary,
+    files: entries.filter(entry => entry.summary || entry.explanations.length > 0),
+    truncated,
+  };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Longest first, so "history entry" wins over "history". Names that would
+// break the Markdown link they end up in are left out.
+const termNames = (term: GlossaryTerm) => [term.term, ...term.aliases]
+  .map(name => name.trim())
+  .filter(name => name && !/[[\]`\n]/.test(name))
+  .sort((a, b) => b.length - a.length);
+
+// Identifiers match case-sensitively, concepts in any case. Neither matches inside a longer word.
+const termPattern = (term: GlossaryTerm) => new RegExp(
+  `(?<![\\w$])(?:${termNames(term).map(escapeRegExp).join('|')})(?![\\w$])`,
+  term.kind === 'identifier' ? '' : 'i'
+);
+
+/**
+ * Files that mention `term` in their source, summary or explanation, with the
+ * blocks of that explanation whose text or code mentions it.
+ */
+export function findTermUsages(
+  term: GlossaryTerm,
+  files: FileNode[],
+  explanationFor: (path: string) => Explanation | undefined,
+  summaries: Map<string, string>
+): GlossaryUsage[] {
+  if (termNames(term).length === 0) return [];
+  const pattern = termPattern(term);
+  const usages: GlossaryUsage[] = [];
+
+  for (const file of files) {
+    const blocks: number[] = [];
+    explanationFor(file.path)?.blocks.forEach((block, i) => {
+      if (pattern.test(block.explanation) || pattern.test(block.code_block)) blocks.push(i);
+    });
+    const summary = summaries.get(file.path);
+    if (blocks.length > 0 || pattern.test(file.content ?? '') || (summary && pattern.test(summary))) {
+      usages.push({ path: file.path, blocks });
+    }
+  }
+  return usages.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+export const GLOSSARY_HREF_PREFIX = '#glossary=';
+
+export const parseGlossaryHref = (href: string): number | null => {
+  if (!href.startsWith(GLOSSARY_HREF_PREFIX)) return null;
+  const index = Number(href.slice(GLOSSARY_HREF_PREFIX.length));
+  return Number.isInteger(index) && index >= 0 ? index : null;
+};
+
+// Inline code, links, autolinks, HTML and bare URLs are never linked into.
+const PROTECTED_PATTERN = /(`[^`\n]+`|!?\[[^\]\n]*\]\([^)\n]*\)|<[^>\n]+>|https?:\/\/\S+)/;
+
+/**
+ * Links the first mention of each term in `text` to GLOSSARY_HREF_PREFIX plus
+ * the term's index. Inline code counts when it is exactly a term, so
+ * `explanationsCache` links as well. Fenced code is left alone.
+ */
+export function linkGlossaryTerms(text: string, terms: GlossaryTerm[]): string {
+  const patterns = terms.map(term => termNames(term).length > 0 ? termPattern(term) : null);
+  if (patterns.every(pattern => !pattern)) return text;
+
+  const linked = new Set<number>();
+  const exactMatch = (candidate: string) => patterns.findIndex((pattern, i) =>
+    pattern && !linked.has(i) && termNames(terms[i]).some(name =>
+      terms[i].kind === 'identifier' ? name === candidate : name.toLowerCase() === candidate.toLowerCase()));
+  const link = (label: string, index: number) => {
+    linked.add(index);
+    return `[${label}](${GLOSSARY_HREF_PREFIX}${index})`;
+  };
+
+  // One pass over every name at once, so an earlier mention of any term is found first.
+  const allNames = [...new Set(terms.flatMap(termNames))].sort((a, b) => b.length - a.length);
+  const anyTerm = new RegExp(`(?<![\\w$])(?:${allNames.map(escapeRegExp).join('|')})(?![\\w$])`, 'gi');
+
+  const linkPlain = (plain: string) => plain.replace(anyTerm, match => {
+    const index = exactMatch(match);
+    return index === -1 ? match : link(match, index);
+  });
+
+  return text.split(/(```[\s\S]*?(?:```|$))/).map((part, i) => i % 2 === 1 ? part : part
+    .split(PROTECTED_PATTERN)
+    .map((piece, j) => {
+      if (j % 2 === 0) return linkPlain(piece);
+      if (!piece.startsWith('`')) return piece;
+      const index = exactMatch(piece.slice(1, -1));
+      return index === -1 ? piece : link(piece, index);
+    })
+    .join('')
+  ).join('');
+}
+
+const byTerm = (a: GlossaryTerm, b: GlossaryTerm) => a.term.localeCompare(b.term, undefined, { sensitivity: 'base' });
+
+export function glossaryToMarkdown(glossary: Glossary, projectName: string): string {
+  const lines = [
+    `# Glossary: ${projectName}`,
+    '',
+    `_${glossary.terms.length} ${glossary.terms.length === 1 ? 'term' : 'terms'}, generated ${new Date(glossary.timestamp).toLocaleDateString()}_`,
+  ];
+
+  for (const term of [...glossary.terms].sort(byTerm)) {
+    lines.push('', `## ${term.kind === 'identifier' ? `\`${term.term}\`` : term.term}`, '');
+    const meta = [term.kind === 'identifier' ? '*Identifier*' : '*Concept*'];
+    if (term.aliases.length > 0) meta.push(`also: ${term.aliases.join(', ')}`);
+    lines.push(meta.join(' · '), '', term.definition);
+    if (term.usages.length > 0) {
+      lines.push('', 'Used in:', '');
+      for (const usage of term.usages) {
+        const blocks = usage.blocks.length > 0 ? ` (blocks ${usage.blocks.map(block => block + 1).join(', ')})` : '';
+        lines.push(`- \`${usage.path}\`${blocks}`);
+      }
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+// History entries and gists can hold anything; keep the glossary only if it has the right shape.
+export function parseGlossary(raw: unknown): Glossary | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const glossary = raw as Glossary;
+  if (!Array.isArray(glossary.terms) || typeof glossary.key !== 'string') return null;
+  const terms = glossary.terms.filter(term =>
+    term && typeof term.term === 'string' && typeof term.definition === 'string'
+    && Array.isArray(term.aliases) && Array.isArray(term.usages));
+  return { ...glossary, terms };
+}
@@ -0,0 +1,172 @@
+/**
+ * Static import graph of the uploaded project, built from the resolvers in imports.ts
+ * Also orders the processing queue, lays the graph out and writes it as Mermaid
+ */
+
+import type { FileNode } from '../types';
+import { findGoModules, findImportedFiles, isImportSource } from './imports';
+
+export interface ImportGraph {
+  // Analysed source files and the files they import, in tree order.
+  nodes: string[];
+  // path -> project files it imports, in source order
+  imports: Map<string, string[]>;
+  // path -> project files that import it, in tree order
+  importedBy: Map<string, string[]>;
+}
+
+/**
+ * Diff session files are left out: their content is a diff, not the source.
+ */
+export function buildImportGraph(files: FileNode[]): ImportGraph {
+  const projectFiles = files.filter(file => file.content !== null && !file.diff);
+  const paths = new Set(projectFiles.map(file => file.path));
+  const goModules = findGoModules(projectFiles);
+
+  const imports = new Map<string, string[]>();
+  const importedBy = new Map<string, string[]>();
+  for (const file of projectFiles) {
+    if (!isImportSource(file.path)) continue;
+    const targets = findImportedFiles(file, paths, goModules);
+    imports.set(file.path, targets);
+    for (const target of targets) importedBy.set(target, [...importedBy.get(target) ?? [], file.path]);
+  }
+
+  const nodes = projectFiles.map(file => file.path).filter(path => imports.has(path) || importedBy.has(path));
+  for (const path of nodes) {
+    if (!imports.has(path)) imports.set(path, []);
+    if (!importedBy.has(path)) importedBy.set(path, []);
+  }
+  return { nodes, imports, importedBy };
+}
+
+export const hasEdges = (graph: ImportGraph, path: string) =>
+  (graph.imports.get(path)?.length ?? 0) + (graph.importedBy.get(path)?.length ?? 0) > 0;
+
+export const edgeKey = (from: string, to: string) => `${from}\n${to}`;
+
+export interface GraphLayout {
+  // Column of each node. Files that import nothing sit in column 0, every
+  // other file one column past the deepest file it imports.
+  column: Map<string, number>;
+  // Nodes of each column, top to bottom.
+  columns: string[][];
+  // edgeKey of each import that closes a cycle, and so was left out of the columns.
+  cyclicEdges: Set<string>;
+}
+
+// Two sweeps of the barycenter heuristic: each file moves towards the average
+// row of its neighbours in the column it was just compared against.
+const SWEEPS = 2;
+
+/**
+ * Columns for `nodes`, a subset of the graph's. Edges to files outside it are ignored.
+ */
+export function layoutImportGraph(graph: ImportGraph, nodes: string[]): GraphLayout {
+  const included = new Set(nodes);
+  const column = new Map<string, number>();
+  const onStack = new Set<string>();
+  const cyclicEdges = new Set<string>();
+
+  const place = (path: string): number => {
+    const placed = column.get(path);
+    if (placed !== undefined) return placed;
+    onStack.add(path);
+    let depth = 0;
+    for (const target of graph.imports.get(path) ?? []) {
+      if (!included.has(target)) continue;
+      if (onStack.has(target)) {
+        cyclicEdges.add(edgeKey(path, target));
+        continue;
+      }
+      depth = Math.max(depth, place(target) + 1);
+    }
+    onStack.delete(path);
+    column.set(path, depth);
+    return depth;
+  };
+  nodes.forEach(place);
+
+  const columns: string[][] = Array.from({ length: Math.max(-1, ...column.values()) + 1 }, () => []);
+  nodes.forEach(path => columns[column.get(path)!].push(path));
+
+  const row = new Map<string, number>();
+  const indexRows = () => columns.forEach(paths => paths.forEach((path, i) => row.set(path, i)));
+  const sortColumn = (index: number, neighbours: (path: string) => string[], neighbourColumn: (c: number) => boolean) => {
+    const keys = new Map(columns[index].map(path => {
+      const rows = neighbours(path).filter(n => included.has(n) && neighbourColumn(column.get(n)!)).map(n => row.get(n)!);
+      return [path, rows.length > 0 ? rows.reduce((sum, r) => sum + r, 0) / rows.length : row.get(path)!];
+    }));
+    columns[index].sort((a, b) => keys.get(a)! - keys.get(b)!);
+    indexRows();
+  };
+
+  indexRows();
+  for (let sweep = 0; sweep < SWEEPS; sweep++) {
+    for (let c = 1; c < columns.length; c++) sortColumn(c, path => graph.imports.get(path) ?? [], n => n < c);
+    for (let c = columns.length - 2; c >= 0; c--) sortColumn(c, path => graph.importedBy.get(path) ?? [], n => n > c);
+  }
+
+  return { column, columns, cyclicEdges };
+}
+
+/**
+ * `paths` with each file after the files it imports, so leaf dependencies come
+ * first. Imports outside `paths` are ignored; inside a cycle, the given order decides.
+ */
+export function orderByDependencies(graph: ImportGraph, paths: string[]): string[] {
+  const included = new Set(paths);
+  const visited = new Set<string>();
+  const ordered: string[] = [];
+
+  const visit = (path: string) => {
+    if (visited.has(path)) return;
+    visited.add(path);
+    for (const target of graph.imports.get(path) ?? []) {
+      if (included.has(target)) visit(target);
+    }
+    ordered.push(path);
+  };
+  paths.forEach(visit);
+  return ordered;
+}
+
+/**
+ * Moves `selected` and the files it imports directly to the front of `paths`,
+ * dependencies first. Everything else keeps its place relative to each other.
+ */
+export function prioritizeImports(graph: ImportGraph, paths: string[], selected: string): string[] {
+  const group = new Set([selected, ...graph.imports.get(selected) ?? []]);
+  return [
+    ...orderByDependencies(graph, paths.filter(path => group.has(path))),
+    ...paths.filter(path => !group.has(path)),
+  ];
+}
+
+const dirname = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+const basename = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+const mermaidLabel = (text: string) => `"${text.replace(/"/g, '#quot;')}"`;
+
+/**
+ * A Mermaid flowchart of `nodes`, one subgraph per directory, with an arrow
+ * from each file to the files it imports.
+ */
+export function toMermaid(graph: ImportGraph, nodes: string[]): string {
+  const ids = new Map(nodes.map((path, i) => [path, `n${i}`]));
+  const byDirectory = new Map<string, string[]>();
+  for (const path of nodes) byDirectory.set(dirname(path), [...byDirectory.get(dirname(path)) ?? [], path]);
+
+  const lines = ['graph LR'];
+  [...byDirectory.entries()].forEach(([directory, paths], i) => {
+    const indent = directory ? '    ' : '  ';
+    if (directory) lines.push(`  subgraph d${i} [${mermaidLabel(`${directory}/`)}]`);
+    for (const path of paths) lines.push(`${indent}${ids.get(path)}[${mermaidLabel(basename(path))}]`);
+    if (directory) lines.push('  end');
+  });
+  for (const path of nodes) {
+    for (const target of graph.imports.get(path) ?? []) {
+      if (ids.has(target)) lines.push(`  ${ids.get(path)} --> ${ids.get(target)}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
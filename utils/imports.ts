@@ -0,0 +1,179 @@
+/**
+ * Finds the project files a source file imports, for TS/JS, Python and Go
+ * Only imports that point into the uploaded tree resolve; packages are skipped
+ */
+
+import type { FileNode } from '../types';
+
+const JS_IMPORT_PATTERNS = [
+  /\bimport\s+(?:type\s+)?(?:[\w$*{}\s,]+?\s+from\s+)?['"]([^'"\n]+)['"]/g,
+  /\bexport\s+(?:type\s+)?(?:\*|\{[^}]*\})\s*(?:as\s+[\w$]+\s+)?from\s+['"]([^'"\n]+)['"]/g,
+  /\brequire\(\s*['"]([^'"\n]+)['"]\s*\)/g,
+  /\bimport\(\s*['"]([^'"\n]+)['"]\s*\)/g,
+];
+
+const PY_IMPORT_PATTERNS = [
+  /^\s*from\s+(\.+[\w.]*|[\w.]+)\s+import\b/gm,
+  /^\s*import\s+([\w.]+)/gm,
+];
+// The names in `from pkg import mod` may be submodules themselves.
+const PY_FROM_NAMES = /^\s*from\s+(\.+[\w.]*|[\w.]+)\s+import\s+(\([^)]*\)|[^\n#]+)/gm;
+
+// A Go import names a package, and a file may import several in one block.
+const GO_IMPORT = /^\s*import\s+(?:[\w.]+\s+)?"([^"\n]+)"/gm;
+const GO_IMPORT_BLOCK = /^\s*import\s*\(([^)]*)\)/gm;
+const GO_BLOCK_SPEC = /^\s*(?:[\w.]+\s+)?"([^"\n]+)"/gm;
+
+// Tried in order after the specifier itself. ESM code often imports './foo.js'
+// for a file that is really foo.ts, so the extension is also swapped.
+const JS_SUFFIXES = ['', '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.vue', '.svelte', '.json', '/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
+
+const isPython = (path: string) => path.endsWith('.py');
+const isGo = (path: string) => path.endsWith('.go');
+
+/**
+ * Whether imports in the file at `path` are understood here
+ */
+export const isImportSource = (path: string) => isPython(path) || isGo(path) || /\.(?:[cm]?[jt]sx?|vue|svelte)$/.test(path);
+
+const dirname = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+const normalizePath = (path: string): string => {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return parts.join('/');
+};
+
+/**
+ * Raw module specifiers, without duplicates. Python's `from a import b` also
+ * yields `a.b`, in case b is a submodule.
+ */
+export function parseImportSpecifiers(content: string, path: string): string[] {
+  const specifiers = new Set<string>();
+  if (isGo(path)) {
+    for (const match of content.matchAll(GO_IMPORT)) specifiers.add(match[1]);
+    for (const block of content.matchAll(GO_IMPORT_BLOCK)) {
+      for (const match of block[1].matchAll(GO_BLOCK_SPEC)) specifiers.add(match[1]);
+    }
+    return [...specifiers];
+  }
+  for (const pattern of isPython(path) ? PY_IMPORT_PATTERNS : JS_IMPORT_PATTERNS) {
+    for (const match of content.matchAll(pattern)) {
+      specifiers.add(match[1]);
+    }
+  }
+  if (isPython(path)) {
+    for (const [, base, names] of content.matchAll(PY_FROM_NAMES)) {
+      for (const name of names.replace(/[()]/g, '').split(',').map(part => part.trim().split(/\s+/)[0])) {
+        if (/^\w+$/.test(name)) specifiers.add(base.endsWith('.') ? `${base}${name}` : `${base}.${name}`);
+      }
+    }
+  }
+  return [...specifiers];
+}
+
+const resolveJsImport = (specifier: string, fromPath: string, paths: Set<string>): string | null => {
+  if (!specifier.startsWith('.')) return null;
+  const base = normalizePath(`${dirname(fromPath)}/${specifier}`);
+  const withoutJsExtension = base.replace(/\.(m|c)?js$/, '');
+  for (const candidate of [base, withoutJsExtension]) {
+    for (const suffix of JS_SUFFIXES) {
+      if (paths.has(candidate + suffix)) return candidate + suffix;
+    }
+  }
+  return null;
+};
+
+const resolvePythonImport = (specifier: string, fromPath: string, paths: Set<string>): string | null => {
+  const dots = specifier.match(/^\.*/)![0].length;
+  const modulePath = specifier.slice(dots).replace(/\./g, '/');
+  const candidates = (base: string) => [`${base}.py`, `${base}/__init__.py`];
+
+  if (dots > 0) {
+    let dir = dirname(fromPath);
+    for (let i = 1; i < dots; i++) dir = dirname(dir);
+    const base = normalizePath(modulePath ? `${dir}/${modulePath}` : dir);
+    return candidates(base).find(candidate => paths.has(candidate)) ?? null;
+  }
+
+  // Absolute imports are relative to some source root we do not know, so
+  // match on the end of the path instead.
+  for (const candidate of candidates(modulePath)) {
+    for (const path of paths) {
+      if (path === candidate || path.endsWith(`/${candidate}`)) return path;
+    }
+  }
+  return null;
+};
+
+export interface GoModule {
+  dir: string; // directory holding go.mod, '' at the root
+  path: string; // module path declared in it
+}
+
+/**
+ * Modules declared by the go.mod files in `files`
+ */
+export function findGoModules(files: FileNode[]): GoModule[] {
+  return files.flatMap(file => {
+    if (file.name !== 'go.mod' || !file.content) return [];
+    const match = file.content.match(/^\s*module\s+"?([^\s"]+)"?/m);
+    return match ? [{ dir: dirname(file.path), path: match[1] }] : [];
+  });
+}
+
+// Directory of the package `specifier` names. Without a matching go.mod, fall
+// back to the longest tail of the import path (two segments at least, so the
+// standard library's "net/http" cannot land on some local "http") that is a
+// directory of .go files.
+const resolveGoPackage = (specifier: string, paths: Set<string>, goModules: GoModule[]): string | null => {
+  const goDirs = new Set([...paths].filter(path => isGo(path)).map(dirname));
+  for (const module of goModules) {
+    if (specifier !== module.path && !specifier.startsWith(`${module.path}/`)) continue;
+    const dir = normalizePath(`${module.dir}/${specifier.slice(module.path.length)}`);
+    return goDirs.has(dir) ? dir : null;
+  }
+  const segments = specifier.split('/');
+  for (let start = 0; segments.length - start >= 2; start++) {
+    const tail = segments.slice(start).join('/');
+    const dir = [...goDirs].find(candidate => candidate === tail || candidate.endsWith(`/${tail}`));
+    if (dir !== undefined) return dir;
+  }
+  return null;
+};
+
+/**
+ * Path of the project file `specifier` refers to, or null for packages and
+ * anything that is not in `paths`. Go imports name a directory, see findImportedFiles.
+ */
+export function resolveImport(specifier: string, fromPath: string, paths: Set<string>): string | null {
+  return isPython(fromPath)
+    ? resolvePythonImport(specifier, fromPath, paths)
+    : resolveJsImport(specifier, fromPath, paths);
+}
+
+/**
+ * Project files imported by `file`, in source order. A Go package import
+ * counts as importing every non-test file of the package.
+ */
+export function findImportedFiles(file: FileNode, paths: Set<string>, goModules: GoModule[] = []): string[] {
+  if (!file.content) return [];
+  const imported = new Set<string>();
+  for (const specifier of parseImportSpecifiers(file.content, file.path)) {
+    if (isGo(file.path)) {
+      const dir = resolveGoPackage(specifier, paths, goModules);
+      if (dir === null) continue;
+      for (const path of paths) {
+        if (isGo(path) && !path.endsWith('_test.go') && dirname(path) === dir && path !== file.path) imported.add(path);
+      }
+      continue;
+    }
+    const resolved = resolveImport(specifier, file.path, paths);
+    if (resolved && resolved !== file.path) imported.add(resolved);
+  }
+  return [...imported];
+}
@@ -0,0 +1,77 @@
+/**
+ * Maps file names to their Prism language and comment syntax
+ * Used for highlighting and for writing explanations back into the source as comments
+ */
+
+export const getLanguage = (filename: string): string => {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'js': case 'jsx': case 'mjs': case 'cjs': return 'javascript';
+    case 'ts': case 'tsx': return 'typescript';
+    case 'py': return 'python';
+    case 'java': return 'java';
+    case 'c': case 'h': return 'c';
+    case 'cpp': case 'cc': case 'cxx': case 'hpp': case 'hh': return 'cpp';
+    case 'swift': return 'swift';
+    case 'scala': return 'scala';
+    case 'dart': return 'dart';
+    case 'html': case 'htm': return 'html';
+    case 'xml': case 'svg': case 'xsd': case 'xsl': return 'xml';
+    case 'css': return 'css';
+    case 'json': return 'json';
+    case 'md': return 'markdown';
+    case 'yml': case 'yaml': return 'yaml';
+    case 'sh': case 'bash': case 'zsh': return 'bash';
+    case 'sql': return 'sql';
+    case 'go': return 'go';
+    case 'rs': return 'rust';
+    case 'rb': return 'ruby';
+    case 'php': return 'php';
+    case 'kt': return 'kotlin';
+    case 'cs': return 'csharp';
+    case 'lua': return 'lua';
+    case 'toml': return 'toml';
+    default: return 'clike';
+  }
+};
+
+export interface CommentStyle {
+  // Block comments wrap the explanation once; line comments prefix every line.
+  block?: { open: string; prefix: string; close: string };
+  line?: string;
+}
+
+const JSDOC: CommentStyle = { block: { open: '/**', prefix: ' * ', close: ' */' } };
+
+const COMMENT_STYLES: Record<string, CommentStyle> = {
+  javascript: JSDOC,
+  typescript: JSDOC,
+  java: JSDOC,
+  php: JSDOC,
+  kotlin: JSDOC,
+  c: JSDOC,
+  cpp: JSDOC,
+  swift: JSDOC,
+  scala: JSDOC,
+  dart: JSDOC,
+  css: { block: { open: '/*', prefix: ' * ', close: ' */' } },
+  html: { block: { open: '<!--', prefix: '  ', close: '-->' } },
+  xml: { block: { open: '<!--', prefix: '  ', close: '-->' } },
+  markdown: { block: { open: '<!--', prefix: '  ', close: '-->' } },
+  python: { line: '#' },
+  bash: { line: '#' },
+  yaml: { line: '#' },
+  ruby: { line: '#' },
+  toml: { line: '#' },
+  sql: { line: '--' },
+  lua: { line: '--' },
+  go: { line: '//' },
+  rust: { line: '//' },
+  csharp: { line: '//' },
+};
+
+/**
+ * How to write a comment in `language`, or null when it has no comments (JSON)
+ * or is not one we know, as with the `clike` fallback for unknown extensions.
+ */
+export const getCommentStyle = (language: string): CommentStyle | null => COMMENT_STYLES[language] ?? null;
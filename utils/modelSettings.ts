@@ -0,0 +1,97 @@
+/**
+ * Which model and temperature each kind of request uses
+ * Blank fields fall back to the provider's model and the built-in temperature for the task
+ */
+
+import type { ExplanationLevel } from '../types';
+import type { ProviderConfig, ProviderKind } from '../services/providers';
+
+const MODEL_SETTINGS_STORAGE_KEY = 'model_settings';
+
+export interface TaskModelSetting {
+  model: string; // '' uses the model from the provider settings
+  temperature: number | null; // null uses the task's default
+}
+
+export interface ModelSettings {
+  explain: Partial<Record<ExplanationLevel, TaskModelSetting>>; // levels without an entry use the defaults
+  deepDive: TaskModelSetting;
+  review: TaskModelSetting;
+  tests: TaskModelSetting;
+  quiz: TaskModelSetting;
+  glossary: TaskModelSetting;
+  followUp: TaskModelSetting;
+  projectChat: TaskModelSetting;
+  fileSummaries: TaskModelSetting;
+  projectSummary: TaskModelSetting;
+}
+
+const DEFAULT_TASK: TaskModelSetting = { model: '', temperature: null };
+
+export const defaultModelSettings = (): ModelSettings => ({
+  explain: {},
+  deepDive: { ...DEFAULT_TASK },
+  review: { ...DEFAULT_TASK },
+  tests: { ...DEFAULT_TASK },
+  quiz: { ...DEFAULT_TASK },
+  glossary: { ...DEFAULT_TASK },
+  followUp: { ...DEFAULT_TASK },
+  projectChat: { ...DEFAULT_TASK },
+  fileSummaries: { ...DEFAULT_TASK },
+  projectSummary: { ...DEFAULT_TASK },
+});
+
+export const getExplainSetting = (settings: ModelSettings, level: ExplanationLevel): TaskModelSetting =>
+  settings.explain[level] ?? DEFAULT_TASK;
+
+/**
+ * The provider config a task should run with: same backend and key, possibly another model
+ */
+export function resolveTaskConfig(config: ProviderConfig, setting: TaskModelSetting): ProviderConfig {
+  const model = setting.model.trim();
+  return model ? { ...config, model } : config;
+}
+
+const toTaskSetting = (raw: unknown): TaskModelSetting => {
+  const value = (raw ?? {}) as Partial<TaskModelSetting>;
+  return {
+    model: typeof value.model === 'string' ? value.model : '',
+    temperature: typeof value.temperature === 'number' && Number.isFinite(value.temperature) ? value.temperature : null,
+  };
+};
+
+// Model names only make sense for one backend, so settings are kept per provider kind.
+export function loadModelSettings(kind: ProviderKind): ModelSettings {
+  let saved: Partial<Record<ProviderKind, Partial<ModelSettings>>> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(MODEL_SETTINGS_STORAGE_KEY) || '{}');
+  } catch (error) {
+    console.error('Error loading model settings:', error);
+  }
+
+  const settings = saved[kind] ?? {};
+  return {
+    explain: Object.fromEntries(
+      Object.entries(settings.explain ?? {}).map(([level, setting]) => [level, toTaskSetting(setting)])
+    ),
+    deepDive: toTaskSetting(settings.deepDive),
+    review: toTaskSetting(settings.review),
+    tests: toTaskSetting(settings.tests),
+    quiz: toTaskSetting(settings.quiz),
+    glossary: toTaskSetting(settings.glossary),
+    followUp: toTaskSetting(settings.followUp),
+    projectChat: toTaskSetting(settings.projectChat),
+    fileSummaries: toTaskSetting(settings.fileSummaries),
+    projectSummary: toTaskSetting(settings.projectSummary),
+  };
+}
+
+export function saveModelSettings(kind: ProviderKind, settings: ModelSettings): void {
+  let saved: Record<string, unknown> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(MODEL_SETTINGS_STORAGE_KEY) || '{}');
+  } catch (error) {
+    console.error('Error loading model settings, overwriting them:', error);
+  }
+  localStorage.setItem(MODEL_SETTINGS_STORAGE_KEY, JSON.stringify({ ...saved, [kind]: settings }));
+}
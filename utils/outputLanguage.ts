@@ -0,0 +1,48 @@
+/**
+ * Language the model writes explanations and summaries in
+ * Code is never translated; only the prose around it changes
+ */
+
+import type { ExplanationLevel } from '../types';
+
+const OUTPUT_LANGUAGE_STORAGE_KEY = 'output_language';
+
+export const DEFAULT_LANGUAGE = 'English';
+
+export const OUTPUT_LANGUAGES = [
+  'English',
+  'Norwegian',
+  'Swedish',
+  'Danish',
+  'German',
+  'Dutch',
+  'French',
+  'Spanish',
+  'Portuguese',
+  'Italian',
+  'Polish',
+  'Ukrainian',
+  'Turkish',
+  'Arabic',
+  'Hindi',
+  'Chinese (Simplified)',
+  'Japanese',
+  'Korean',
+];
+
+/**
+ * Key of an explanation inside a file's cache entry. English keeps the bare
+ * level so history saved before languages existed still lines up.
+ */
+export function explanationKey(level: ExplanationLevel, language: string): string {
+  return language === DEFAULT_LANGUAGE ? level : `${level}::${language}`;
+}
+
+export function loadOutputLanguage(): string {
+  const saved = localStorage.getItem(OUTPUT_LANGUAGE_STORAGE_KEY);
+  return saved && OUTPUT_LANGUAGES.includes(saved) ? saved : DEFAULT_LANGUAGE;
+}
+
+export function saveOutputLanguage(language: string): void {
+  localStorage.setItem(OUTPUT_LANGUAGE_STORAGE_KEY, language);
+}
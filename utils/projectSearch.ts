@@ -0,0 +1,175 @@
+/**
+ * Picks the files, cached block explanations and summaries relevant to a project question
+ * Plain keyword scoring, so retrieval stays local and needs no embedding model
+ */
+
+import type { Explanation, FileNode } from '../types';
+import { approximateTokens } from './costEstimate';
+import { locateBlocks, type LineRange } from './blockLocation';
+
+// Roughly what a question's context may cost, across all files.
+const CONTEXT_TOKEN_BUDGET = 24_000;
+const MAX_FILES = 8;
+const MAX_BLOCKS_PER_FILE = 6;
+// Lines kept either side of a match when a file is too large to send whole.
+const EXCERPT_RADIUS = 15;
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'are', 'was', 'were', 'what', 'when', 'where', 'which', 'who', 'why', 'how',
+  'does', 'did', 'this', 'that', 'with', 'from', 'into', 'there', 'here', 'have', 'has', 'can',
+  'should', 'would', 'could', 'will', 'about', 'then', 'than', 'them', 'they', 'its', 'any', 'all',
+  'happens', 'file', 'files', 'code', 'project', 'used', 'use', 'get', 'set',
+]);
+
+export interface ContextExcerpt extends LineRange {
+  text: string;
+}
+
+export interface ContextBlock extends LineRange {
+  explanation: string;
+}
+
+export interface ContextFile {
+  path: string;
+  summary?: string;
+  // Either the whole file as one excerpt, or the windows around each match.
+  excerpts: ContextExcerpt[];
+  blocks: ContextBlock[];
+}
+
+export interface ProjectContext {
+  projectSummary: string;
+  paths: string[]; // every file in the project, so the model knows what exists
+  files: ContextFile[];
+}
+
+/**
+ * Lower-cased search terms. Identifiers are kept whole and also split on
+ * camelCase and snake_case, so "apiKey" finds both "apiKey" and "api key".
+ */
+export function extractTerms(question: string): string[] {
+  const terms = new Set<string>();
+  for (const word of question.match(/[A-Za-z_$][\w$]*/g) ?? []) {
+    const parts = [word, ...word.split(/_|(?<=[a-z0-9])(?=[A-Z])/)];
+    for (const part of parts) {
+      const term = part.toLowerCase();
+      if (term.length >= 3 && !STOP_WORDS.has(term)) terms.add(term);
+    }
+  }
+  return [...terms];
+}
+
+const countOccurrences = (text: string, term: string) => {
+  let count = 0;
+  for (let index = text.indexOf(term); index !== -1; index = text.indexOf(term, index + term.length)) {
+    count++;
+  }
+  return count;
+};
+
+// Hits in the path and summaries say more about a file than a hit in its body.
+// Body hits are capped so one long file full of a common word does not win.
+const scoreText = (text: string, terms: string[], weight: number, cap = Infinity) => {
+  const lower = text.toLowerCase();
+  return terms.reduce((score, term) => score + Math.min(countOccurrences(lower, term), cap) * weight, 0);
+};
+
+const withLineNumbers = (lines: string[], startLine: number) =>
+  lines.map((line, i) => `${startLine + i}: ${line}`).join('\n');
+
+// Windows around matching lines, merged where they overlap, until the budget runs out.
+const excerptsFor = (lines: string[], terms: string[], tokenBudget: number): ContextExcerpt[] => {
+  const ranges: LineRange[] = [];
+  lines.forEach((line, i) => {
+    const lower = line.toLowerCase();
+    if (!terms.some(term => lower.includes(term))) return;
+
+    const startLine = Math.max(1, i + 1 - EXCERPT_RADIUS);
+    const endLine = Math.min(lines.length, i + 1 + EXCERPT_RADIUS);
+    const last = ranges[ranges.length - 1];
+    if (last && startLine <= last.endLine + 1) {
+      last.endLine = endLine;
+    } else {
+      ranges.push({ startLine, endLine });
+    }
+  });
+
+  const excerpts: ContextExcerpt[] = [];
+  let used = 0;
+  for (const range of ranges) {
+    const text = withLineNumbers(lines.slice(range.startLine - 1, range.endLine), range.startLine);
+    const tokens = approximateTokens(text);
+    if (used + tokens > tokenBudget) break;
+    excerpts.push({ ...range, text });
+    used += tokens;
+  }
+  return excerpts;
+};
+
+/**
+ * Builds the context for one question. `explanations` holds each file's cached
+ * explanations for any level or language; the first complete one is used.
+ */
+export function buildProjectContext(
+  question: string,
+  files: FileNode[],
+  explanations: Map<string, Map<string, Explanation>>,
+  fileSummaries: Map<string, string>,
+  projectSummary: string,
+): ProjectContext {
+  const terms = extractTerms(question);
+  const pickExplanation = (path: string) =>
+    [...(explanations.get(path)?.values() ?? [])].find(explanation => !explanation.incomplete && explanation.blocks.length > 0);
+
+  const scored = files
+    .filter(file => file.content)
+    .map(file => {
+      const explanation = pickExplanation(file.path);
+      const score = scoreText(file.path, terms, 5)
+        + scoreText(fileSummaries.get(file.path) ?? '', terms, 3)
+        + scoreText(file.content!, terms, 1, 10)
+        + (explanation ? explanation.blocks.reduce((sum, block) => sum + scoreText(block.explanation, terms, 2, 3), 0) : 0);
+      return { file, explanation, score };
+    })
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_FILES);
+
+  const contextFiles: ContextFile[] = [];
+  let remaining = CONTEXT_TOKEN_BUDGET;
+  for (const { file, explanation } of scored) {
+    if (remaining <= 0) break;
+    // Later files get whatever the earlier ones left, but never more than a fair share.
+    const fileBudget = Math.min(remaining, CONTEXT_TOKEN_BUDGET / 3);
+    const content = file.content!;
+    const lines = content.split('\n');
+
+    const whole = withLineNumbers(lines, 1);
+    const excerpts = approximateTokens(whole) <= fileBudget
+      ? [{ startLine: 1, endLine: lines.length, text: whole }]
+      : excerptsFor(lines, terms, fileBudget);
+
+    const blocks: ContextBlock[] = [];
+    if (explanation) {
+      const ranges = locateBlocks(content, explanation.blocks);
+      explanation.blocks
+        .map((block, i) => ({ block, range: ranges[i], score: scoreText(`${block.code_block}\n${block.explanation}`, terms, 1) }))
+        .filter(({ block, range, score }) => range && score > 0 && !block.error)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, MAX_BLOCKS_PER_FILE)
+        .forEach(({ block, range }) => blocks.push({ ...range!, explanation: block.explanation }));
+    }
+
+    const used = excerpts.reduce((sum, excerpt) => sum + approximateTokens(excerpt.text), 0)
+      + blocks.reduce((sum, block) => sum + approximateTokens(block.explanation), 0);
+    remaining -= used;
+
+    contextFiles.push({ path: file.path, summary: fileSummaries.get(file.path), excerpts, blocks });
+  }
+
+  return {
+    projectSummary,
+    paths: files.map(file => file.path),
+    files: contextFiles,
+  };
+}
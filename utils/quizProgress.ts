@@ -0,0 +1,65 @@
+/**
+ * Rolls quiz attempts up into per-file and project progress
+ * Shown in the explorer so whoever onboards a reader can see where they stand
+ */
+
+import type { QuizAttempt } from '../types';
+
+export interface FileQuizProgress {
+  path: string;
+  attempts: number;
+  // Scores as fractions of 1.
+  best: number;
+  last: number;
+  lastTaken: string;
+  // Blocks missed in the latest attempt.
+  missedBlocks: number[];
+}
+
+export interface QuizProgress {
+  files: FileQuizProgress[];
+  attempts: number;
+  // Mean of every file's latest score, or null before the first attempt.
+  average: number | null;
+}
+
+const ratio = (attempt: QuizAttempt) => attempt.total > 0 ? attempt.score / attempt.total : 0;
+
+export function summarizeQuizProgress(attempts: QuizAttempt[]): QuizProgress {
+  const byFile = new Map<string, FileQuizProgress>();
+  const ordered = [...attempts].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  for (const attempt of ordered) {
+    const previous = byFile.get(attempt.path);
+    byFile.set(attempt.path, {
+      path: attempt.path,
+      attempts: (previous?.attempts ?? 0) + 1,
+      best: Math.max(previous?.best ?? 0, ratio(attempt)),
+      last: ratio(attempt),
+      lastTaken: attempt.timestamp,
+      missedBlocks: attempt.missedBlocks,
+    });
+  }
+
+  const files = [...byFile.values()].sort((a, b) => a.path.localeCompare(b.path));
+  return {
+    files,
+    attempts: attempts.length,
+    average: files.length > 0 ? files.reduce((sum, file) => sum + file.last, 0) / files.length : null,
+  };
+}
+
+export const formatScore = (fraction: number) => `${Math.round(fraction * 100)}%`;
+
+// History entries and gists can hold anything; keep only well-formed attempts.
+export function parseQuizAttempts(raw: unknown): QuizAttempt[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter((attempt): attempt is QuizAttempt =>
+    !!attempt && typeof attempt === 'object'
+    && typeof attempt.path === 'string'
+    && typeof attempt.key === 'string'
+    && typeof attempt.timestamp === 'string'
+    && Number.isFinite(attempt.score)
+    && Number.isFinite(attempt.total)
+    && Array.isArray(attempt.missedBlocks));
+}
@@ -0,0 +1,79 @@
+/**
+ * Exports code review findings as SARIF 2.1.0
+ * One run with a rule per finding category, so code scanning tools can group and filter them
+ */
+
+import type { FileReview, FindingCategory, FindingSeverity } from '../types';
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const RULES: Record<FindingCategory, { id: string; name: string; description: string }> = {
+  bug: { id: 'ansuz/bug', name: 'Bug', description: 'Code that behaves incorrectly.' },
+  security: { id: 'ansuz/security', name: 'Security', description: 'Code that can be exploited or leaks data.' },
+  performance: { id: 'ansuz/performance', name: 'Performance', description: 'Needless work or poor scaling.' },
+  style: { id: 'ansuz/style', name: 'Style', description: 'Readability and maintainability problems.' },
+};
+
+const LEVELS: Record<FindingSeverity, 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+};
+
+// GitHub code scanning ranks security results by this 0-10 score instead of the level.
+const SECURITY_SEVERITY: Record<FindingSeverity, string> = {
+  critical: '9.0',
+  high: '7.0',
+  medium: '5.0',
+  low: '2.0',
+};
+
+// Project paths are relative, so they resolve against the checkout root.
+const toUri = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+export function toSarif(reviews: Map<string, FileReview>): object {
+  const categories = Object.keys(RULES) as FindingCategory[];
+
+  const results = [...reviews].flatMap(([path, review]) => review.findings.map(finding => ({
+    ruleId: RULES[finding.category].id,
+    ruleIndex: categories.indexOf(finding.category),
+    level: LEVELS[finding.severity],
+    message: {
+      text: `${finding.title}\n\n${finding.rationale}`,
+      markdown: [`**${finding.title}**`, finding.rationale, ...(finding.suggestedFix ? [`**Suggested fix:**\n\n${finding.suggestedFix}`] : [])].join('\n\n'),
+    },
+    locations: [{
+      physicalLocation: {
+        artifactLocation: { uri: toUri(path), uriBaseId: '%SRCROOT%' },
+        region: { startLine: finding.startLine, endLine: finding.endLine },
+      },
+    }],
+    properties: {
+      severity: finding.severity,
+      ...(finding.category === 'security' ? { 'security-severity': SECURITY_SEVERITY[finding.severity] } : {}),
+      ...(finding.suggestedFix ? { suggestedFix: finding.suggestedFix } : {}),
+      ...(review.model ? { model: review.model } : {}),
+    },
+  })));
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'Ansuz',
+          informationUri: 'https://github.com/chraltro/ansuz',
+          rules: categories.map(category => ({
+            id: RULES[category].id,
+            name: RULES[category].name,
+            shortDescription: { text: RULES[category].description },
+            ...(category === 'security' ? { properties: { tags: ['security'] } } : {}),
+          })),
+        },
+      },
+      results,
+    }],
+  };
+}
@@ -0,0 +1,104 @@
+/**
+ * Splits summary work into prompts that fit a token budget
+ * Files go into batches for file summaries; summaries roll up directory by directory for the project summary
+ */
+
+import { approximateTokens } from './costEstimate';
+
+export interface SummaryFile {
+  path: string;
+  name: string;
+  content: string;
+}
+
+// A file or directory summary on its way up to the project summary.
+export interface SummaryNode {
+  path: string; // '' is the project root
+  kind: 'file' | 'directory';
+  summary: string;
+}
+
+const TRUNCATION_NOTE = '\n\n[... rest of the file omitted to fit the summary batch ...]';
+
+const fileCost = (file: SummaryFile) => approximateTokens(file.content) + approximateTokens(file.path) + 10;
+
+/**
+ * Greedy batches in path order, so files from one directory tend to share a
+ * prompt. A file that alone exceeds the budget is cut down to fit.
+ */
+export function planSummaryBatches(files: SummaryFile[], tokenBudget: number): SummaryFile[][] {
+  const sorted = [...files].sort((a, b) => a.path.localeCompare(b.path));
+  const batches: SummaryFile[][] = [];
+  let current: SummaryFile[] = [];
+  let used = 0;
+
+  for (const original of sorted) {
+    let file = original;
+    if (fileCost(file) > tokenBudget) {
+      const keepChars = Math.max(0, (tokenBudget - approximateTokens(file.path) - 10) * 4 - TRUNCATION_NOTE.length);
+      file = { ...file, content: file.content.slice(0, keepChars) + TRUNCATION_NOTE };
+    }
+
+    const cost = fileCost(file);
+    if (current.length > 0 && used + cost > tokenBudget) {
+      batches.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(file);
+    used += cost;
+  }
+  if (current.length > 0) batches.push(current);
+  return batches;
+}
+
+export const parentPath = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+const depth = (path: string) => path === '' ? 0 : path.split('/').length;
+
+export function formatSummaryNodes(nodes: SummaryNode[]): string {
+  return nodes
+    .map(node => `${node.kind === 'file' ? 'File' : 'Directory'}: ${node.path || '(project root)'}\nSummary: ${node.summary}`)
+    .join('\n\n');
+}
+
+/**
+ * The deepest nodes grouped by their parent directory, ready to be rolled up
+ * one level. Nodes above that depth are returned untouched in `rest`.
+ */
+export function groupDeepestNodes(nodes: SummaryNode[]): { groups: Map<string, SummaryNode[]>; rest: SummaryNode[] } {
+  const maxDepth = Math.max(...nodes.map(node => depth(node.path)));
+  const groups = new Map<string, SummaryNode[]>();
+  const rest: SummaryNode[] = [];
+  for (const node of nodes) {
+    if (depth(node.path) === maxDepth && maxDepth > 0) {
+      const parent = parentPath(node.path);
+      groups.set(parent, [...(groups.get(parent) ?? []), node]);
+    } else {
+      rest.push(node);
+    }
+  }
+  return { groups, rest };
+}
+
+/**
+ * Splits nodes into runs whose formatted text fits the budget. A single node
+ * over the budget still gets a run of its own.
+ */
+export function splitNodesByBudget(nodes: SummaryNode[], tokenBudget: number): SummaryNode[][] {
+  const parts: SummaryNode[][] = [];
+  let current: SummaryNode[] = [];
+  let used = 0;
+  for (const node of nodes) {
+    const cost = approximateTokens(formatSummaryNodes([node])) + 2;
+    if (current.length > 0 && used + cost > tokenBudget) {
+      parts.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(node);
+    used += cost;
+  }
+  if (current.length > 0) parts.push(current);
+  return parts;
+}
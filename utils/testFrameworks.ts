@@ -0,0 +1,147 @@
+/**
+ * Picks the test framework for a source file and assembles suggested tests into one file
+ * JavaScript projects use whichever runner the nearest package.json depends on
+ */
+
+import type { FileNode, TestSuggestion } from '../types';
+import type { LineRange } from './blockLocation';
+
+export interface TestFramework {
+  name: string;
+  language: string; // Prism language of the test file
+  fileName: string;
+  // What the prompt tells the model about layout and assertion style.
+  conventions: string;
+}
+
+const splitName = (path: string) => {
+  const name = path.split('/').pop() ?? path;
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? { base: name.slice(0, dot), ext: name.slice(dot + 1).toLowerCase() } : { base: name, ext: '' };
+};
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const JS_RUNNERS = [
+  { dependency: 'vitest', name: 'Vitest', conventions: "Import describe, it, expect and vi from 'vitest'." },
+  { dependency: 'jest', name: 'Jest', conventions: 'Use the Jest globals (describe, it, expect, jest.fn); do not import them.' },
+  { dependency: 'mocha', name: 'Mocha', conventions: "Use Mocha's describe and it with assertions from 'node:assert/strict'." },
+];
+
+// The package.json closest to the file wins, as it would for the runner itself.
+const findJsRunner = (path: string, allFiles: FileNode[]) => {
+  const manifests = allFiles
+    .filter(file => file.name === 'package.json' && file.content)
+    .map(file => ({ dir: file.path.slice(0, -'package.json'.length), content: file.content! }))
+    .filter(manifest => path.startsWith(manifest.dir))
+    .sort((a, b) => b.dir.length - a.dir.length);
+
+  for (const manifest of manifests) {
+    const runner = JS_RUNNERS.find(r => new RegExp(`"${r.dependency}"\\s*:`).test(manifest.content));
+    if (runner) return runner;
+  }
+  return JS_RUNNERS[0];
+};
+
+/**
+ * The framework tests for `file` should use, or null for languages without a
+ * supported one.
+ */
+export function detectTestFramework(file: FileNode, allFiles: FileNode[]): TestFramework | null {
+  const { base, ext } = splitName(file.path);
+  const importNote = 'The test file sits next to the source file; import the code under test by relative path.';
+
+  switch (ext) {
+    case 'ts': case 'tsx': case 'js': case 'jsx': case 'mjs': case 'cjs': {
+      const runner = findJsRunner(file.path, allFiles);
+      return {
+        name: runner.name,
+        language: ext.startsWith('t') ? 'typescript' : 'javascript',
+        fileName: `${base}.test.${ext}`,
+        conventions: `${runner.conventions} ${importNote}`,
+      };
+    }
+    case 'py':
+      return {
+        name: 'pytest',
+        language: 'python',
+        fileName: `test_${base}.py`,
+        conventions: `Plain test functions with bare assert statements; use fixtures and pytest.mark.parametrize where they help. ${importNote}`,
+      };
+    case 'go':
+      return {
+        name: 'Go testing',
+        language: 'go',
+        fileName: `${base}_test.go`,
+        conventions: 'Same package as the file under test. Test functions take *testing.T; prefer table-driven cases with t.Run.',
+      };
+    case 'rs':
+      return {
+        name: 'Rust built-in tests',
+        language: 'rust',
+        fileName: `${base}_tests.rs`,
+        conventions: 'A #[cfg(test)] mod tests block meant to be appended to the source file: open it with use super::*; in the header and close it in the footer. Each case is a #[test] function.',
+      };
+    case 'java': case 'kt':
+      return {
+        name: 'JUnit 5',
+        language: ext === 'java' ? 'java' : 'kotlin',
+        fileName: `${capitalize(base)}Test.${ext}`,
+        conventions: `One test class named ${capitalize(base)}Test, opened in the header and closed in the footer. Use org.junit.jupiter.api annotations and assertions.`,
+      };
+    case 'cs':
+      return {
+        name: 'xUnit',
+        language: 'csharp',
+        fileName: `${capitalize(base)}Tests.cs`,
+        conventions: `One test class named ${capitalize(base)}Tests, opened in the header and closed in the footer. [Fact] and [Theory] methods with Assert.`,
+      };
+    case 'rb':
+      return {
+        name: 'RSpec',
+        language: 'ruby',
+        fileName: `${base}_spec.rb`,
+        conventions: 'One RSpec.describe block, opened in the header and closed in the footer; each case is an it block.',
+      };
+    case 'php':
+      return {
+        name: 'PHPUnit',
+        language: 'php',
+        fileName: `${capitalize(base)}Test.php`,
+        conventions: `One class ${capitalize(base)}Test extending PHPUnit\\Framework\\TestCase, opened in the header and closed in the footer.`,
+      };
+    default:
+      return null;
+  }
+}
+
+// Leading blank lines and trailing whitespace only; the first line's
+// indentation matters inside classes.
+const tidy = (code: string) => code.replace(/^(\s*\n)+/, '').trimEnd();
+
+/**
+ * The test file as one text, parts separated by a blank line, with the lines
+ * each case occupies in it.
+ */
+export function assembleTestFile(suggestion: TestSuggestion): { text: string; caseRanges: LineRange[] } {
+  const lines: string[] = [];
+  const caseRanges: LineRange[] = [];
+
+  const append = (code: string): LineRange | null => {
+    const part = tidy(code);
+    if (!part) return null;
+    if (lines.length > 0) lines.push('');
+    const startLine = lines.length + 1;
+    lines.push(...part.split('\n'));
+    return { startLine, endLine: lines.length };
+  };
+
+  append(suggestion.header);
+  for (const testCase of suggestion.cases) {
+    const range = append(testCase.code);
+    caseRanges.push(range ?? { startLine: lines.length, endLine: lines.length });
+  }
+  append(suggestion.footer);
+
+  return { text: lines.join('\n') + '\n', caseRanges };
+}